@@ -1,4 +1,5 @@
 import { Db, Document, InsertOneResult, MongoClient, WithId } from 'mongodb'
+import { RouteMerger } from '../core/route-merger'
 
 interface DatabaseConfig {
     type: string
@@ -151,39 +152,46 @@ export class MongoDBAdapter {
 
             const docId = docResult.insertedId.toString()
 
-            // Save routes as endpoints
+            // Controller routes are also listed in routes; each route is
+            // written once, under the controller declaring it
+            const controllerNames = new Map<string, string>()
+            const routes: any[] = [...(analysisData.routes || [])]
+            for (const controller of analysisData.controllers || []) {
+                for (const route of controller.routes || []) {
+                    controllerNames.set(
+                        RouteMerger.getRouteKey(this.toRoute(route)),
+                        controller.name
+                    )
+                    routes.push(route)
+                }
+            }
+
             const endpoints: EndpointEntry[] = []
-            for (const route of analysisData.routes || []) {
+            const savedRoutes = new Set<string>()
+            for (const route of routes.map((route) => this.toRoute(route))) {
+                const key = RouteMerger.getRouteKey(route)
+                if (savedRoutes.has(key)) continue
+                savedRoutes.add(key)
+
+                const controllerName = controllerNames.get(key)
                 endpoints.push({
-                    path: route.path || '/',
-                    method: route.method || 'GET',
-                    controllerName: route.handler || 'unknown',
+                    path: route.path,
+                    method: route.method,
+                    controllerName:
+                        controllerName || route.handler || 'unknown',
                     methodName: route.handler || 'unknown',
                     parameters: route.parameters || [],
                     documentationId: docId,
-                    summary: route.handler || 'Route handler',
-                    tags: [route.handler || 'route'],
+                    summary:
+                        route.handler ||
+                        (controllerName
+                            ? 'Controller method'
+                            : 'Route handler'),
+                    tags: [controllerName || route.handler || 'route'],
                     framework: analysisData.framework || 'unknown',
                 })
             }
 
-            // Save controllers as endpoints
-            for (const controller of analysisData.controllers || []) {
-                for (const route of controller.routes || []) {
-                    endpoints.push({
-                        path: route.path || '/',
-                        method: route.method || 'GET',
-                        controllerName: controller.name,
-                        methodName: route.handler || 'unknown',
-                        parameters: route.parameters || [],
-                        documentationId: docId,
-                        summary: route.handler || 'Controller method',
-                        tags: [controller.name],
-                        framework: analysisData.framework || 'unknown',
-                    })
-                }
-            }
-
             if (endpoints.length > 0) {
                 await this.db
                     .collection(this.config.collections.endpoints)
@@ -213,6 +221,15 @@ export class MongoDBAdapter {
         }
     }
 
+    // Saved analyses may predate fields; path and method default as before
+    private toRoute(route: any): any {
+        return {
+            ...route,
+            path: route.path || '/',
+            method: route.method || 'GET',
+        }
+    }
+
     async saveDocumentation(docData: any): Promise<void> {
         if (!this.isConnected) {
             throw new Error('Database not connected. Call connect() first.')
@@ -1,14 +1,19 @@
 #!/usr/bin/env node
 
 import { Command } from 'commander'
-import { existsSync, mkdirSync, readFileSync, writeFileSync } from 'fs'
+import { existsSync, mkdirSync, readFileSync, rmSync, writeFileSync } from 'fs'
 import { join } from 'path'
 import { MongoDBAdapter } from './adapters/mongodb-adapter'
 import { ConfigManager } from './config/config'
 import { FrameworkDetector } from './core/framework-detector'
+import { ProjectWatcher } from './core/project-watcher'
+import { SchemaMerger } from './core/schema-merger'
 import { UniversalAnalyzer } from './core/universal-analyzer'
+import { AsyncAPIExporter } from './exporters/asyncapi-exporter'
+import { OpenAPIExporter } from './exporters/openapi-exporter'
 import { AIService } from './services/ai-service'
 import { ScalarAIService } from './services/scalar-ai-service'
+import { AnalysisResult } from './types/universal-types'
 
 // Environment variables loaded by ConfigManager
 
@@ -23,6 +28,7 @@ program
     .version('1.0.0')
     .option('-c, --config <file>', 'Configuration file path')
     .option('--verbose', 'Verbose output')
+    .option('--no-cache', 'Analyze every file again instead of reusing results')
     .hook('preAction', (thisCommand) => {
         // Skip config check for config command itself
         const args = process.argv.slice(2)
@@ -65,6 +71,16 @@ program
         if (thisCommand.getOptionValue('verbose')) {
             configManager.updateConfig({ verbose: true })
         }
+
+        // --no-cache
+        if (thisCommand.getOptionValue('cache') === false) {
+            configManager.updateConfig({
+                analysis: {
+                    ...configManager.getConfig().analysis,
+                    cache: false,
+                },
+            })
+        }
     })
 
 program
@@ -84,7 +100,7 @@ program
 
             console.log(`🔍 Analyzing project: ${path}`)
 
-            const analyzer = new UniversalAnalyzer(path)
+            const analyzer = new UniversalAnalyzer(path, config.analysis)
             const result = await analyzer.analyze()
 
             if (config.verbose) {
@@ -315,6 +331,15 @@ program
             console.log(`📋 Framework: ${result.framework}`)
             console.log(`🎯 Confidence: ${result.confidence}%`)
 
+            if (result.candidates.length > 1) {
+                console.log('📊 Candidates:')
+                result.candidates.forEach((candidate) => {
+                    console.log(
+                        `   - ${candidate.framework} (${candidate.confidence}%)`
+                    )
+                })
+            }
+
             if (options.verbose) {
                 console.log('🔍 Indicators:')
                 result.indicators.forEach((indicator) => {
@@ -327,6 +352,123 @@ program
         }
     })
 
+program
+    .command('openapi')
+    .description('Export an OpenAPI 3.1 document from project analysis')
+    .argument('<input>', 'Project path to analyze or analysis JSON file')
+    .option('-o, --output <file>', 'Output OpenAPI file path', 'openapi.json')
+    .option('--title <title>', 'API title (default: package.json name)')
+    .option(
+        '--api-version <version>',
+        'API version (default: package.json version)'
+    )
+    .option('--server <url...>', 'Server URL(s) to include in the document')
+    .action(async (input, options) => {
+        try {
+            const { analysisData, packageJson } = await loadExportInput(input)
+
+            const exporter = new OpenAPIExporter({
+                title: options.title || packageJson.name,
+                version: options.apiVersion || packageJson.version,
+                description: packageJson.description,
+                servers: options.server,
+            })
+            const document = exporter.export(analysisData)
+
+            writeFileSync(options.output, JSON.stringify(document, null, 2))
+
+            console.log(
+                `✅ OpenAPI document saved to ${options.output} (${
+                    Object.keys(document.paths).length
+                } paths, ${
+                    Object.keys(document.components.schemas).length
+                } schemas)`
+            )
+        } catch (error) {
+            console.error('❌ OpenAPI export failed:', error)
+            process.exit(1)
+        }
+    })
+
+program
+    .command('asyncapi')
+    .description('Export an AsyncAPI document for WebSocket events')
+    .argument('<input>', 'Project path to analyze or analysis JSON file')
+    .option('-o, --output <file>', 'Output AsyncAPI file path', 'asyncapi.json')
+    .option('--title <title>', 'API title (default: package.json name)')
+    .option(
+        '--api-version <version>',
+        'API version (default: package.json version)'
+    )
+    .option('--server <url...>', 'Server URL(s) to include in the document')
+    .option(
+        '--spec-version <version>',
+        'AsyncAPI version: 2.6.0 or 3.0.0',
+        '3.0.0'
+    )
+    .action(async (input, options) => {
+        try {
+            if (!['2.6.0', '3.0.0'].includes(options.specVersion)) {
+                console.error(
+                    `❌ Unsupported AsyncAPI version: ${options.specVersion} (use 2.6.0 or 3.0.0)`
+                )
+                process.exit(1)
+            }
+
+            const { analysisData, packageJson } = await loadExportInput(input)
+
+            const exporter = new AsyncAPIExporter({
+                title: options.title || packageJson.name,
+                version: options.apiVersion || packageJson.version,
+                description: packageJson.description,
+                servers: options.server,
+                specVersion: options.specVersion,
+            })
+            const document = exporter.export(analysisData)
+
+            writeFileSync(options.output, JSON.stringify(document, null, 2))
+
+            console.log(
+                `✅ AsyncAPI document saved to ${options.output} (${
+                    Object.keys(document.channels).length
+                } channels, ${
+                    Object.keys(document.components.messages).length
+                } messages)`
+            )
+        } catch (error) {
+            console.error('❌ AsyncAPI export failed:', error)
+            process.exit(1)
+        }
+    })
+
+// Exporters accept either an existing analysis file or a project to analyze
+async function loadExportInput(
+    input: string
+): Promise<{ analysisData: AnalysisResult; packageJson: any }> {
+    if (!existsSync(input)) {
+        console.error(`❌ Path not found: ${input}`)
+        process.exit(1)
+    }
+
+    const isAnalysisFile = input.endsWith('.json')
+    const analysisData: AnalysisResult = isAnalysisFile
+        ? JSON.parse(readFileSync(input, 'utf-8'))
+        : await new UniversalAnalyzer(
+              input,
+              configManager.getConfig().analysis
+          ).analyze()
+
+    const packageJsonPath = join(
+        isAnalysisFile ? process.cwd() : input,
+        'package.json'
+    )
+    const packageJson = existsSync(packageJsonPath)
+        ? JSON.parse(readFileSync(packageJsonPath, 'utf-8'))
+        : {}
+
+    return { analysisData, packageJson }
+}
+
 async function generateAIDocumentation(
     analysisData: any,
     options: any,
@@ -446,42 +588,15 @@ async function generateChunkedAIDocumentation(
             mkdirSync(outputDir, { recursive: true })
         }
 
-        // Group routes by controller/module
-        const chunks = groupRoutesByController(
-            analysisData.routes,
-            analysisData.services,
-            analysisData.controllers
-        )
+        const moduleChunks = buildModuleChunks(analysisData)
+        const moduleNames = Object.keys(moduleChunks)
 
-        console.log(
-            `📦 Found ${Object.keys(chunks).length} modules to document`
-        )
+        console.log(`📦 Found ${moduleNames.length} modules to document`)
 
         // Generate documentation for each chunk
-        for (const [moduleName, moduleData] of Object.entries(chunks)) {
+        for (const [moduleName, chunkData] of Object.entries(moduleChunks)) {
             console.log(`📝 Generating documentation for ${moduleName}...`)
 
-            // Get related services and types for this module
-            const relatedServices = getRelatedServices(
-                moduleName,
-                analysisData.services
-            )
-            const relatedTypes = getRelatedTypes(moduleName, analysisData.types)
-
-            const chunkData = {
-                ...analysisData,
-                routes: moduleData,
-                services: relatedServices,
-                types: relatedTypes,
-                metadata: {
-                    ...analysisData.metadata,
-                    totalRoutes: moduleData.length,
-                    totalServices: relatedServices.length,
-                    totalTypes: relatedTypes.length,
-                    moduleName: moduleName,
-                },
-            }
-
             // Save JSON analysis for this chunk
             const jsonFile = join(outputDir, `${moduleName}-analysis.json`)
             writeFileSync(jsonFile, JSON.stringify(chunkData, null, 2))
@@ -509,7 +624,7 @@ async function generateChunkedAIDocumentation(
                         metadata: {
                             framework: analysisData.framework,
                             moduleName: moduleName,
-                            totalRoutes: moduleData.length,
+                            totalRoutes: chunkData.routes.length,
                         },
                     })
                     await dbAdapter.disconnect()
@@ -523,9 +638,7 @@ async function generateChunkedAIDocumentation(
         }
 
         console.log(
-            `🎉 Generated ${
-                Object.keys(chunks).length
-            } chunked documentation files in ${outputDir}`
+            `🎉 Generated ${moduleNames.length} chunked documentation files in ${outputDir}`
         )
     } catch (error) {
         console.error('❌ Chunked AI documentation generation failed:', error)
@@ -654,12 +767,123 @@ function groupRoutesByController(
     return chunks
 }
 
+type OwnedKind = 'operations' | 'events' | 'messages'
+
+// Entities documented with the class declaring them rather than by route,
+// with the module collecting those whose owner names none. Adding a kind
+// of entity to the chunks is one more entry
+const OWNED_KINDS: {
+    kind: OwnedKind
+    getOwner: (item: any) => string
+    fallback: string
+}[] = [
+    // GraphQL operations by resolver
+    {
+        kind: 'operations',
+        getOwner: (item) => item.resolver,
+        fallback: 'graphql',
+    },
+    // WebSocket events by gateway
+    { kind: 'events', getOwner: (item) => item.gateway, fallback: 'events' },
+    // Message handlers and producers by class
+    { kind: 'messages', getOwner: (item) => item.owner, fallback: 'messaging' },
+]
+
+// Every owned kind by module, then by kind
+function groupByOwner(
+    analysisResult: AnalysisResult
+): Record<string, Partial<Record<OwnedKind, any[]>>> {
+    const chunks: Record<string, Partial<Record<OwnedKind, any[]>>> = {}
+
+    for (const { kind, getOwner, fallback } of OWNED_KINDS) {
+        for (const item of analysisResult[kind] ?? []) {
+            const moduleName = (
+                extractModuleFromName(getOwner(item)) || fallback
+            ).replace(/[^a-zA-Z0-9-_]/g, '_')
+
+            if (!chunks[moduleName]) {
+                chunks[moduleName] = {}
+            }
+            const moduleChunk = chunks[moduleName]!
+            if (!moduleChunk[kind]) {
+                moduleChunk[kind] = []
+            }
+            moduleChunk[kind]!.push(item)
+        }
+    }
+
+    return chunks
+}
+
+// What each module's chunk documents: only what the module declares, so
+// changes elsewhere leave its chunk as it is. generate, ai:chunks and watch
+// all group modules through here
+function buildModuleChunks(
+    analysisResult: AnalysisResult
+): Record<string, any> {
+    const chunks = groupRoutesByController(
+        analysisResult.routes,
+        analysisResult.services,
+        analysisResult.controllers
+    )
+    const ownedChunks = groupByOwner(analysisResult)
+    const moduleNames = Array.from(
+        new Set([...Object.keys(chunks), ...Object.keys(ownedChunks)])
+    )
+
+    const moduleChunks: Record<string, any> = {}
+    for (const moduleName of moduleNames) {
+        const routes = chunks[moduleName] ?? []
+        const operations = ownedChunks[moduleName]?.operations ?? []
+        const events = ownedChunks[moduleName]?.events ?? []
+        const messages = ownedChunks[moduleName]?.messages ?? []
+        // Controllers go with the chunk holding their routes
+        const controllers = analysisResult.controllers.filter((controller) =>
+            controller.routes.some((route) => routes.includes(route))
+        )
+        const services = getRelatedServices(moduleName, analysisResult.services)
+        const types = getRelatedTypes(moduleName, analysisResult.types)
+        // Only the schemas this module's contracts refer to
+        const schemas = new SchemaMerger().collectReferenced(
+            [routes, operations, events, messages],
+            analysisResult.schemas ?? {}
+        )
+
+        moduleChunks[moduleName] = {
+            framework: analysisResult.framework,
+            routes,
+            controllers,
+            services,
+            types,
+            operations,
+            events,
+            messages,
+            schemas,
+            metadata: {
+                totalRoutes: routes.length,
+                totalOperations: operations.length,
+                totalEvents: events.length,
+                totalMessages: messages.length,
+                totalControllers: controllers.length,
+                totalServices: services.length,
+                totalTypes: types.length,
+                source: 'project-analysis',
+                moduleName,
+            },
+        }
+    }
+    return moduleChunks
+}
+
 function extractModuleFromName(name: string): string | null {
     if (!name) return null
 
     // Remove common suffixes like "Service", "Controller", "Dto", etc.
     const cleanName = name
-        .replace(/(Service|Controller|Dto|Entity|Model|Type|Interface)$/i, '')
+        .replace(
+            /(Service|Controller|Resolver|Gateway|Processor|Consumer|Dto|Entity|Model|Type|Interface)$/i,
+            ''
+        )
         .toLowerCase()
 
     // Convert to plural if it's a singular noun
@@ -766,26 +990,9 @@ program
             const aiService = new AIService(config.ai)
 
             // Analyze the actual project
-            const analyzer = new UniversalAnalyzer(targetPath)
+            const analyzer = new UniversalAnalyzer(targetPath, config.analysis)
             const analysisResult = await analyzer.analyze()
 
-            // Transform to AI input format
-            const aiInput = {
-                framework: analysisResult.framework,
-                routes: analysisResult.routes,
-                controllers: analysisResult.controllers,
-                services: analysisResult.services,
-                types: analysisResult.types,
-                metadata: {
-                    totalRoutes: analysisResult.routes.length,
-                    totalControllers: analysisResult.controllers.length,
-                    totalServices: analysisResult.services.length,
-                    totalTypes: analysisResult.types.length,
-                    analysisTime: analysisResult.metadata.analysisTime,
-                    source: 'project-analysis',
-                },
-            }
-
             // Create output directory
             const outputDir = options.outputDir || 'docs/chunks'
             if (!existsSync(outputDir)) {
@@ -800,13 +1007,13 @@ program
             )
             console.log(`💾 Project analysis data saved to ${analysisDataPath}`)
 
-            // Use controller-based grouping
-            const chunks = groupRoutesByController(aiInput.routes)
+            const moduleChunks = buildModuleChunks(analysisResult)
+            const moduleNames = Object.keys(moduleChunks)
 
             console.log(
-                `📊 Found ${Object.keys(chunks).length} modules: ${Object.keys(
-                    chunks
-                ).join(', ')}`
+                `📊 Found ${moduleNames.length} modules: ${moduleNames.join(
+                    ', '
+                )}`
             )
 
             // Generate one run ID and chunk timestamp for the entire execution
@@ -816,17 +1023,13 @@ program
             console.log(`⏰ Chunk Timestamp: ${chunkTimestamp}`)
 
             // Generate documentation for each chunk
-            for (const [moduleName, moduleRoutes] of Object.entries(chunks)) {
+            for (const [moduleName, moduleData] of Object.entries(
+                moduleChunks
+            )) {
                 console.log(
                     `📝 Generating documentation for ${moduleName} module...`
                 )
 
-                const moduleData = {
-                    ...aiInput,
-                    routes: moduleRoutes,
-                    metadata: { ...aiInput.metadata, moduleName },
-                }
-
                 // Use standard prompt for project analysis
                 const moduleDocs = await aiService.analyzeProject(moduleData)
 
@@ -862,9 +1065,9 @@ program
                             timestamp: timestamp,
                             runId: runId, // Add run ID for versioning
                             metadata: {
-                                framework: aiInput.framework,
+                                framework: analysisResult.framework,
                                 moduleName: moduleName,
-                                totalRoutes: moduleRoutes.length,
+                                totalRoutes: moduleData.routes.length,
                                 source: 'project-analysis',
                                 runId: runId,
                                 runTimestamp: timestamp,
@@ -896,6 +1099,130 @@ program
         }
     })
 
+program
+    .command('watch')
+    .description(
+        'Keep chunked AI documentation current, regenerating only the modules whose code changed'
+    )
+    .argument(
+        '[project-path]',
+        'Path to project directory (default: current directory)'
+    )
+    .option(
+        '-o, --output-dir <dir>',
+        'Output directory for chunks',
+        'docs/chunks'
+    )
+    .action(async (projectPath, options) => {
+        const targetPath = projectPath || '.'
+        const outputDir = options.outputDir
+        const config = configManager.getConfig()
+        const aiService = new AIService(config.ai)
+
+        // Keeps each package's ts-morph project between runs
+        const analyzer = new UniversalAnalyzer(targetPath, config.analysis)
+        if (!existsSync(outputDir)) {
+            mkdirSync(outputDir, { recursive: true })
+        }
+
+        // Modules documented while watching, so ones that disappear have
+        // their chunks removed
+        let modules = new Set<string>()
+        const update = async () => {
+            const analysisResult = await analyzer.analyze()
+            const moduleChunks = buildModuleChunks(analysisResult)
+
+            for (const [moduleName, moduleData] of Object.entries(
+                moduleChunks
+            )) {
+                // A module's chunk is redone when its analysis differs from
+                // the one saved with the chunk, including by earlier runs
+                const analysisPath = join(
+                    outputDir,
+                    `${moduleName}-analysis.json`
+                )
+                const docPath = join(outputDir, `${moduleName}.md`)
+                const analysisJson = JSON.stringify(moduleData, null, 2)
+                if (
+                    existsSync(docPath) &&
+                    existsSync(analysisPath) &&
+                    readFileSync(analysisPath, 'utf-8') === analysisJson
+                ) {
+                    continue
+                }
+
+                console.log(
+                    `📝 Generating documentation for ${moduleName} module...`
+                )
+                try {
+                    const moduleDocs = await aiService.analyzeProject(
+                        moduleData
+                    )
+                    writeFileSync(docPath, moduleDocs)
+                    writeFileSync(analysisPath, analysisJson)
+                    console.log(
+                        `✅ ${moduleName} documentation saved to ${docPath}`
+                    )
+                } catch (error) {
+                    console.warn(
+                        `⚠️ ${moduleName} documentation failed, retried on the next change:`,
+                        error
+                    )
+                }
+            }
+
+            for (const moduleName of modules) {
+                if (moduleName in moduleChunks) continue
+                for (const file of [
+                    `${moduleName}.md`,
+                    `${moduleName}-analysis.json`,
+                ]) {
+                    rmSync(join(outputDir, file), { force: true })
+                }
+                console.log(`🗑️ ${moduleName} no longer found, chunk removed`)
+            }
+            modules = new Set(Object.keys(moduleChunks))
+        }
+
+        // Changes arriving during a run are picked up by one more run
+        let running = false
+        let rerun = false
+        const run = async () => {
+            if (running) {
+                rerun = true
+                return
+            }
+            running = true
+            do {
+                rerun = false
+                try {
+                    await update()
+                } catch (error) {
+                    console.error('❌ Documentation update failed:', error)
+                }
+            } while (rerun)
+            running = false
+            console.log(`👀 Watching ${targetPath} for changes...`)
+        }
+
+        const watcher = new ProjectWatcher(targetPath, (changes) => {
+            const count =
+                changes.changed.length +
+                changes.added.length +
+                changes.removed.length
+            console.log(`🔄 ${count} files changed`)
+            analyzer.refresh(changes)
+            run()
+        })
+        watcher.start()
+        process.on('SIGINT', () => {
+            watcher.close()
+            process.exit(0)
+        })
+
+        await run()
+    })
+
 // Run management commands
 program
     .command('runs:list')
@@ -1005,6 +1332,11 @@ function generateConfigTemplate(template: string): any {
             saveAIDocs: true,
             timestampFiles: true,
         },
+        analysis: {
+            includeComments: true,
+            workspaces: true,
+            cache: true,
+        },
         framework: {
             autoDetect: true,
             forceFramework: undefined,
@@ -1030,7 +1362,7 @@ function generateConfigTemplate(template: string): any {
                 ...baseConfig,
                 // Add additional advanced options for full template
                 analysis: {
-                    includeComments: true,
+                    ...baseConfig.analysis,
                     includeImports: false,
                     includePrivateMethods: false,
                     maxDepth: 5,
@@ -54,10 +54,24 @@ export interface FileConfig {
     timestampFiles: boolean
 }
 
+export interface AnalysisConfig {
+    // Harvest JSDoc/TSDoc comments into the analysis
+    includeComments: boolean
+    // Analyze each package of a monorepo on its own when given its root
+    workspaces: boolean
+    // Reuse results for files unchanged since the last analysis
+    cache: boolean
+    // Where source files are browsed, e.g.
+    // https://github.com/acme/api/blob/main; read from package.json's
+    // repository when unset
+    sourceUrl?: string | undefined
+}
+
 export interface UniversalConfig {
     ai: AIConfig
     database: DatabaseConfig
     files: FileConfig
+    analysis: AnalysisConfig
     framework: {
         autoDetect: boolean
         forceFramework?: string | undefined
@@ -93,6 +107,7 @@ export class ConfigManager {
             ai: this.loadAIConfig(),
             database: this.loadDatabaseConfig(),
             files: this.loadFileConfig(),
+            analysis: this.loadAnalysisConfig(),
             framework: this.loadFrameworkConfig(),
             verbose: process.env['AUTODOCGEN_VERBOSE'] === 'true' || false,
         }
@@ -204,6 +219,16 @@ export class ConfigManager {
         }
     }
 
+    private loadAnalysisConfig(): AnalysisConfig {
+        return {
+            includeComments:
+                process.env['AUTODOCGEN_INCLUDE_COMMENTS'] !== 'false',
+            workspaces: process.env['AUTODOCGEN_WORKSPACES'] !== 'false',
+            cache: process.env['AUTODOCGEN_CACHE'] !== 'false',
+            sourceUrl: process.env['AUTODOCGEN_SOURCE_URL'],
+        }
+    }
+
     private loadFrameworkConfig() {
         return {
             autoDetect: process.env['AUTODOCGEN_AUTO_DETECT'] !== 'false',
@@ -248,6 +273,12 @@ export class ConfigManager {
         if (configData.files) {
             this.config.files = { ...this.config.files, ...configData.files }
         }
+        if (configData.analysis) {
+            this.config.analysis = {
+                ...this.config.analysis,
+                ...configData.analysis,
+            }
+        }
         if (configData.framework) {
             this.config.framework = {
                 ...this.config.framework,
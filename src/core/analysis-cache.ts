@@ -0,0 +1,173 @@
+import { createHash } from 'crypto'
+import { existsSync, mkdirSync, readFileSync, writeFileSync } from 'fs'
+import { tmpdir } from 'os'
+import { dirname, join, resolve } from 'path'
+import { SourceFile } from 'ts-morph'
+
+// Bump when what is cached changes shape
+const CACHE_FORMAT = 1
+
+// Installed dependencies shape the types every file sees
+const LOCKFILES = ['package-lock.json', 'yarn.lock', 'pnpm-lock.yaml']
+
+interface CacheEntry {
+    key: string
+    value: unknown
+}
+
+interface CacheFile {
+    format: number
+    key: string
+    entries: Record<string, CacheEntry>
+}
+
+export class AnalysisCache {
+    private filePath: string
+    private key: string
+    private entries: Record<string, CacheEntry> = {}
+    private kept: Record<string, CacheEntry> = {}
+
+    // keyParts: whatever changes every file's results, e.g. compiler and
+    // analysis options
+    constructor(projectPath: string, keyParts: string[]) {
+        const root = resolve(projectPath)
+        this.filePath = join(
+            this.getCacheDirectory(root),
+            `analysis-${this.hash([root]).slice(0, 12)}.json`
+        )
+        this.key = this.hash([
+            String(CACHE_FORMAT),
+            this.getToolVersion(),
+            ...keyParts,
+            ...LOCKFILES.map((lockfile) => this.hashFile(join(root, lockfile))),
+        ])
+        this.load()
+    }
+
+    // A file's key covers its own content and that of every project file it
+    // imports, directly or not, so dependents of a change are redone too
+    getFileKeys(sourceFiles: SourceFile[]): Map<SourceFile, string> {
+        const hashes = new Map(
+            sourceFiles.map((sourceFile) => [
+                sourceFile,
+                this.hash([sourceFile.getFullText()]),
+            ])
+        )
+
+        const keys = new Map<SourceFile, string>()
+        for (const sourceFile of sourceFiles) {
+            const dependencies = this.getDependencies(sourceFile, hashes)
+                .map(
+                    (dependency) =>
+                        `${dependency.getFilePath()}:${hashes.get(dependency)}`
+                )
+                .sort()
+            keys.set(
+                sourceFile,
+                this.hash([hashes.get(sourceFile)!, ...dependencies])
+            )
+        }
+        return keys
+    }
+
+    // Hash of several keys, for entries covering many files
+    combineKeys(keys: string[]): string {
+        return this.hash(keys)
+    }
+
+    get<T>(name: string, key: string): T | undefined {
+        const entry = this.entries[name]
+        if (!entry || entry.key !== key) return undefined
+
+        this.kept[name] = entry
+        return entry.value as T
+    }
+
+    set(name: string, key: string, value: unknown): void {
+        this.kept[name] = { key, value }
+    }
+
+    // Only entries read or written this run are kept, so deleted files drop
+    // out. Values are serialized as they are now, before callers change them
+    save(): void {
+        const data: CacheFile = {
+            format: CACHE_FORMAT,
+            key: this.key,
+            entries: this.kept,
+        }
+        try {
+            mkdirSync(dirname(this.filePath), { recursive: true })
+            writeFileSync(this.filePath, JSON.stringify(data))
+        } catch (error) {
+            console.warn(`⚠️ Could not write analysis cache: ${error}`)
+        }
+    }
+
+    private load(): void {
+        if (!existsSync(this.filePath)) return
+
+        try {
+            const data: CacheFile = JSON.parse(
+                readFileSync(this.filePath, 'utf-8')
+            )
+            if (data.format === CACHE_FORMAT && data.key === this.key) {
+                this.entries = data.entries
+            }
+        } catch {
+            // Unreadable caches are rebuilt
+        }
+    }
+
+    private getDependencies(
+        sourceFile: SourceFile,
+        hashes: Map<SourceFile, string>
+    ): SourceFile[] {
+        const found = new Set<SourceFile>()
+        const pending = [sourceFile]
+        for (let current = pending.pop(); current; current = pending.pop()) {
+            for (const referenced of current.getReferencedSourceFiles()) {
+                if (
+                    referenced === sourceFile ||
+                    found.has(referenced) ||
+                    !hashes.has(referenced)
+                ) {
+                    continue
+                }
+                found.add(referenced)
+                pending.push(referenced)
+            }
+        }
+        return Array.from(found)
+    }
+
+    // node_modules/.cache/autodocgen beside the nearest node_modules, as
+    // other build tools do, else the system temp directory
+    private getCacheDirectory(root: string): string {
+        for (let directory = root; ; directory = dirname(directory)) {
+            if (existsSync(join(directory, 'node_modules'))) {
+                return join(directory, 'node_modules', '.cache', 'autodocgen')
+            }
+            if (dirname(directory) === directory) break
+        }
+        return join(tmpdir(), 'autodocgen-cache')
+    }
+
+    private getToolVersion(): string {
+        try {
+            const packagePath = join(__dirname, '..', '..', 'package.json')
+            return JSON.parse(readFileSync(packagePath, 'utf-8')).version
+        } catch {
+            return ''
+        }
+    }
+
+    private hashFile(filePath: string): string {
+        return existsSync(filePath)
+            ? this.hash([readFileSync(filePath, 'utf-8')])
+            : ''
+    }
+
+    private hash(parts: string[]): string {
+        return createHash('sha1').update(parts.join('\0')).digest('hex')
+    }
+}
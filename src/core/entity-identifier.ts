@@ -0,0 +1,182 @@
+import { createHash } from 'crypto'
+import { existsSync, readFileSync } from 'fs'
+import { join, relative, resolve } from 'path'
+import {
+    AnalysisResult,
+    SourceLocation,
+    UniversalRoute,
+} from '../types/universal-types'
+
+export class EntityIdentifier {
+    private rootPath: string
+    private sourceUrl: string | undefined
+
+    constructor(rootPath: string, sourceUrl?: string) {
+        this.rootPath = resolve(rootPath)
+        this.sourceUrl = sourceUrl?.replace(/\/+$/, '')
+    }
+
+    // https://github.com/acme/api/blob/HEAD/services/api for a package.json
+    // with "repository": { "url": "git+https://github.com/acme/api.git",
+    // "directory": "services/api" }. Links use GitHub's line anchors, so
+    // other hosts are configured through sourceUrl
+    static readSourceUrl(rootPath: string): string | undefined {
+        const packagePath = join(rootPath, 'package.json')
+        if (!existsSync(packagePath)) return undefined
+
+        let repository: unknown
+        try {
+            repository = JSON.parse(readFileSync(packagePath, 'utf-8'))[
+                'repository'
+            ]
+        } catch {
+            return undefined
+        }
+
+        const { url, directory } =
+            typeof repository === 'string'
+                ? { url: repository, directory: undefined }
+                : ((repository ?? {}) as { url?: string; directory?: string })
+        if (typeof url !== 'string') return undefined
+
+        // github:acme/api, acme/api, git@github.com:acme/api.git,
+        // git+https://github.com/acme/api.git
+        const shorthand = url.match(/^(?:github:)?([\w.-]+\/[\w.-]+)$/)
+        const full =
+            url.match(
+                /^(?:git\+)?(?:https?|git|ssh):\/\/(?:[^@/]+@)?([^/]+)\/(.+)$/
+            ) ?? url.match(/^[^@]+@([^:]+):(.+)$/)
+        const [host, path] = shorthand
+            ? ['github.com', shorthand[1]]
+            : [full?.[1], full?.[2]]
+        if (host !== 'github.com' || !path) return undefined
+
+        const base = `https://${host}/${path.replace(/\.git$/, '')}/blob/HEAD`
+        return directory ? `${base}/${directory.replace(/^\/|\/$/g, '')}` : base
+    }
+
+    // Ids hash what names an entity, with file paths relative to the
+    // analysed root, so they hold across runs and checkouts; line numbers
+    // are left out since any edit above an entity moves it
+    assign(result: AnalysisResult): void {
+        result.routes.forEach((route) => this.identifyRoute(route))
+
+        for (const controller of result.controllers) {
+            controller.id = this.createId(
+                'controller',
+                controller.framework,
+                this.getRelativePath(controller.filePath),
+                controller.name
+            )
+            this.link(controller.location)
+            controller.routes.forEach((route) => this.identifyRoute(route))
+        }
+
+        for (const service of result.services) {
+            const serviceId = this.createId(
+                'service',
+                service.framework,
+                this.getRelativePath(service.filePath),
+                service.name
+            )
+            service.id = serviceId
+            this.link(service.location)
+            for (const method of service.methods) {
+                method.id = this.createId('method', serviceId, method.name)
+                this.link(method.location)
+            }
+        }
+
+        for (const type of result.types) {
+            const typeId = this.createId(
+                'type',
+                this.getRelativePath(type.filePath),
+                type.type,
+                type.name
+            )
+            type.id = typeId
+            this.link(type.location)
+            for (const property of type.properties) {
+                property.id = this.createId('property', typeId, property.name)
+                this.link(property.location)
+            }
+        }
+
+        for (const operation of result.operations ?? []) {
+            operation.id = this.createId(
+                'operation',
+                operation.framework,
+                this.getRelativePath(operation.filePath),
+                operation.parentType,
+                operation.name
+            )
+            this.link(operation.location)
+        }
+
+        for (const event of result.events ?? []) {
+            event.id = this.createId(
+                'event',
+                event.framework,
+                this.getRelativePath(event.filePath),
+                event.namespace,
+                event.direction,
+                event.name,
+                event.handler
+            )
+            this.link(event.location)
+        }
+
+        for (const message of result.messages ?? []) {
+            message.id = this.createId(
+                'message',
+                message.transport,
+                this.getRelativePath(message.filePath),
+                message.role,
+                message.kind,
+                message.queue ?? '',
+                message.pattern,
+                message.owner,
+                message.handler
+            )
+            this.link(message.location)
+        }
+    }
+
+    private identifyRoute(route: UniversalRoute): void {
+        route.id = this.createId(
+            'route',
+            route.framework,
+            route.filePath ? this.getRelativePath(route.filePath) : '',
+            route.handler,
+            route.method.toUpperCase(),
+            route.host ?? '',
+            route.path
+        )
+        this.link(route.location)
+    }
+
+    // route-3f0c1a9e2b7d
+    private createId(kind: string, ...parts: string[]): string {
+        const hash = createHash('sha1')
+            .update([kind, ...parts].join('\0'))
+            .digest('hex')
+        return `${kind}-${hash.slice(0, 12)}`
+    }
+
+    // GitHub line anchors: #L12 or #L12-L40
+    private link(location: SourceLocation | undefined): void {
+        if (!location || !this.sourceUrl) return
+
+        const lines =
+            location.endLine > location.line
+                ? `L${location.line}-L${location.endLine}`
+                : `L${location.line}`
+        location.url = `${this.sourceUrl}/${this.getRelativePath(
+            location.filePath
+        )}#${lines}`
+    }
+
+    private getRelativePath(filePath: string): string {
+        return relative(this.rootPath, filePath).split('\\').join('/')
+    }
+}
@@ -1,62 +1,140 @@
 import { existsSync, readFileSync } from 'fs'
 import { join } from 'path'
+import { Project, SourceFile } from 'ts-morph'
+import { BuiltInFramework, RouteFramework } from '../types/universal-types'
+import { ProjectUtils } from '../utils/project-utils'
+import { FrameworkImportScanner } from './framework-import-scanner'
+import { FrameworkRegistry, frameworkRegistry } from './framework-registry'
 
-export type Framework = 'express' | 'nestjs' | 'fastify' | 'koa' | 'unknown'
+// A built-in framework, a registered plugin's name or 'unknown'
+export type Framework = RouteFramework | 'unknown'
+
+export interface FrameworkCandidate {
+    framework: RouteFramework
+    confidence: number
+    indicators: string[]
+}
 
 export interface FrameworkInfo {
     framework: Framework
     confidence: number
     indicators: string[]
+    // Every framework with a signal, most likely first
+    candidates: FrameworkCandidate[]
 }
 
+// package.json entries naming each built-in framework, in precedence order
+// for equally likely candidates (NestJS apps also depend on express, and
+// Next.js apps often serve tRPC through an API route)
+const FRAMEWORK_DEPENDENCIES: Record<BuiltInFramework, string[]> = {
+    nestjs: ['@nestjs/core'],
+    nextjs: ['next'],
+    express: ['express'],
+    fastify: ['fastify'],
+    koa: ['koa'],
+    trpc: ['@trpc/server'],
+}
+
+// Where a dependency is listed and how much that says; a library or tool
+// listing a framework as a dev or peer dependency need not be built on it
+const DEPENDENCY_FIELDS: { field: string; label: string; weight: number }[] = [
+    { field: 'dependencies', label: 'dependency', weight: 40 },
+    { field: 'peerDependencies', label: 'peerDependency', weight: 20 },
+    { field: 'devDependencies', label: 'devDependency', weight: 20 },
+]
+
+const PATTERN_WEIGHT = 20
+const IMPORT_WEIGHT = 40
+
 export class FrameworkDetector {
     private projectPath: string
+    private registry: FrameworkRegistry
+    private project: Project | undefined
 
-    constructor(projectPath: string) {
+    // project: the analyzer's own, so files are not parsed a second time
+    constructor(
+        projectPath: string,
+        registry = frameworkRegistry,
+        project?: Project
+    ) {
         this.projectPath = projectPath
+        this.registry = registry
+        this.project = project
     }
 
     detectFramework(): FrameworkInfo {
         const packageJson = this.readPackageJson()
-        const indicators: string[] = []
-        let confidence = 0
-
-        // Check dependencies
-        if (packageJson.dependencies) {
-            if (packageJson.dependencies.express) {
-                indicators.push('express dependency')
-                confidence += 40
-            }
-            if (packageJson.dependencies['@nestjs/core']) {
-                indicators.push('nestjs dependency')
-                confidence += 40
+        const frameworks = [
+            ...Object.entries(FRAMEWORK_DEPENDENCIES).map(
+                ([name, dependencies]) => ({ name, dependencies, files: [] })
+            ),
+            ...this.registry.getPlugins().map((plugin) => ({
+                name: plugin.name,
+                dependencies: plugin.signals.dependencies,
+                files: plugin.signals.files ?? [],
+            })),
+        ]
+        const importCounts = new FrameworkImportScanner(
+            this.registry
+        ).countImportingFiles(this.loadSourceFiles())
+
+        const candidates: FrameworkCandidate[] = []
+        for (const { name, dependencies, files } of frameworks) {
+            const candidate: FrameworkCandidate = {
+                framework: name,
+                confidence: 0,
+                indicators: [],
             }
-            if (packageJson.dependencies.fastify) {
-                indicators.push('fastify dependency')
-                confidence += 40
+            const add = (indicator: string, weight: number) => {
+                candidate.indicators.push(`${name} ${indicator}`)
+                candidate.confidence += weight
             }
-            if (packageJson.dependencies.koa) {
-                indicators.push('koa dependency')
-                confidence += 40
+
+            // Check dependencies; only the strongest listing counts
+            const listing = DEPENDENCY_FIELDS.find(({ field }) =>
+                dependencies.some(
+                    (dependency) => packageJson[field]?.[dependency]
+                )
+            )
+            if (listing) add(listing.label, listing.weight)
+
+            // Check file patterns
+            if (this.hasPatterns(name, files)) add('patterns', PATTERN_WEIGHT)
+
+            // Check imports
+            const importingFiles = importCounts.get(name) ?? 0
+            if (importingFiles > 0) {
+                add(
+                    `imports (${importingFiles} ${
+                        importingFiles === 1 ? 'file' : 'files'
+                    })`,
+                    IMPORT_WEIGHT
+                )
             }
-        }
 
-        // Check file patterns
-        if (this.hasExpressPatterns()) {
-            indicators.push('express patterns')
-            confidence += 20
-        }
-        if (this.hasNestJSPatterns()) {
-            indicators.push('nestjs patterns')
-            confidence += 20
+            if (candidate.confidence > 0) {
+                candidate.confidence = Math.min(candidate.confidence, 100)
+                candidates.push(candidate)
+            }
         }
 
-        const framework = this.determineFramework(confidence, indicators)
+        // Most likely first; ties go to the framework imported by more
+        // files, then to precedence order
+        const order = frameworks.map(({ name }) => name)
+        candidates.sort(
+            (a, b) =>
+                b.confidence - a.confidence ||
+                (importCounts.get(b.framework) ?? 0) -
+                    (importCounts.get(a.framework) ?? 0) ||
+                order.indexOf(a.framework) - order.indexOf(b.framework)
+        )
 
+        const [best] = candidates
         return {
-            framework,
-            confidence: Math.min(confidence, 100),
-            indicators,
+            framework: best?.framework ?? 'unknown',
+            confidence: best?.confidence ?? 0,
+            indicators: candidates.flatMap((candidate) => candidate.indicators),
+            candidates,
         }
     }
 
@@ -68,20 +146,54 @@ export class FrameworkDetector {
         return JSON.parse(readFileSync(packagePath, 'utf-8'))
     }
 
+    // Only import declarations are read, so without a project to reuse,
+    // files are parsed without resolving their dependencies
+    private loadSourceFiles(): SourceFile[] {
+        const project =
+            this.project ??
+            ProjectUtils.createProject(this.projectPath, {
+                skipFileDependencyResolution: true,
+            })
+        return project
+            .getSourceFiles()
+            .filter(
+                (sourceFile) =>
+                    !sourceFile.getFilePath().includes('/node_modules/')
+            )
+    }
+
+    private hasPatterns(framework: string, files: string[]): boolean {
+        switch (framework) {
+            case 'express':
+                return this.hasExpressPatterns()
+            case 'nestjs':
+                return this.hasNestJSPatterns()
+            case 'nextjs':
+                return this.hasNextJSPatterns()
+            default:
+                return files.length > 0 && this.hasFilePattern(files)
+        }
+    }
+
     private hasExpressPatterns(): boolean {
         // Simple check for Express patterns
-        return (
-            this.hasFilePattern(['app.js', 'server.js', 'index.js']) ||
-            this.hasImportPattern('express')
-        )
+        return this.hasFilePattern(['app.js', 'server.js', 'index.js'])
     }
 
     private hasNestJSPatterns(): boolean {
         // Simple check for NestJS patterns
-        return (
-            this.hasFilePattern(['main.ts', 'app.module.ts']) ||
-            this.hasImportPattern('@nestjs')
-        )
+        return this.hasFilePattern(['main.ts', 'app.module.ts'])
+    }
+
+    private hasNextJSPatterns(): boolean {
+        // Config files, Next's generated typings or a pages/api directory
+        return this.hasFilePattern([
+            'next.config.js',
+            'next.config.mjs',
+            'next.config.ts',
+            'next-env.d.ts',
+            'pages/api',
+        ])
     }
 
     private hasFilePattern(patterns: string[]): boolean {
@@ -91,35 +203,4 @@ export class FrameworkDetector {
                 existsSync(join(this.projectPath, pattern))
         )
     }
-
-    private hasImportPattern(_pattern: string): boolean {
-        // This would scan TypeScript files for imports
-        // For now, return false - can be enhanced later
-        return false
-    }
-
-    private determineFramework(
-        _confidence: number,
-        indicators: string[]
-    ): Framework {
-        if (
-            indicators.includes('nestjs dependency') ||
-            indicators.includes('nestjs patterns')
-        ) {
-            return 'nestjs'
-        }
-        if (
-            indicators.includes('express dependency') ||
-            indicators.includes('express patterns')
-        ) {
-            return 'express'
-        }
-        if (indicators.includes('fastify dependency')) {
-            return 'fastify'
-        }
-        if (indicators.includes('koa dependency')) {
-            return 'koa'
-        }
-        return 'unknown'
-    }
 }
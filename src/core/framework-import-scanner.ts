@@ -0,0 +1,113 @@
+import { Node, SourceFile, SyntaxKind } from 'ts-morph'
+import { BuiltInFramework, RouteFramework } from '../types/universal-types'
+import { FrameworkRegistry, frameworkRegistry } from './framework-registry'
+
+// Modules (and their subpaths) that identify each built-in framework, in
+// precedence order for files importing several
+export const BUILT_IN_FRAMEWORK_MODULES: Record<BuiltInFramework, string[]> = {
+    nestjs: ['@nestjs'],
+    nextjs: ['next'],
+    express: ['express'],
+    fastify: ['fastify', '@fastify'],
+    koa: ['koa', '@koa/router', 'koa-router'],
+    trpc: ['@trpc/server'],
+}
+
+export class FrameworkImportScanner {
+    private modules: { framework: RouteFramework; modules: string[] }[]
+
+    constructor(registry: FrameworkRegistry = frameworkRegistry) {
+        // Plugins are recognised by the packages they are detected from
+        this.modules = [
+            ...Object.entries(BUILT_IN_FRAMEWORK_MODULES).map(
+                ([framework, modules]) => ({ framework, modules })
+            ),
+            ...registry.getPlugins().map((plugin) => ({
+                framework: plugin.name,
+                modules: plugin.signals.dependencies,
+            })),
+        ]
+    }
+
+    // '@nestjs/common' -> 'nestjs', 'express' -> 'express'
+    getModuleFramework(specifier: string): RouteFramework | null {
+        const match = this.modules.find(({ modules }) =>
+            modules.some(
+                (module) =>
+                    specifier === module || specifier.startsWith(`${module}/`)
+            )
+        )
+        return match?.framework ?? null
+    }
+
+    // Frameworks a file imports or requires, in precedence order
+    getFileFrameworks(sourceFile: SourceFile): RouteFramework[] {
+        const imported = new Set(
+            this.getModuleSpecifiers(sourceFile).flatMap((specifier) => {
+                const framework = this.getModuleFramework(specifier)
+                return framework ? [framework] : []
+            })
+        )
+        return this.modules
+            .map(({ framework }) => framework)
+            .filter((framework) => imported.has(framework))
+    }
+
+    // Number of files importing each framework
+    countImportingFiles(
+        sourceFiles: SourceFile[]
+    ): Map<RouteFramework, number> {
+        const counts = new Map<RouteFramework, number>()
+        for (const sourceFile of sourceFiles) {
+            for (const framework of this.getFileFrameworks(sourceFile)) {
+                counts.set(framework, (counts.get(framework) ?? 0) + 1)
+            }
+        }
+        return counts
+    }
+
+    // import ... from 'x', export ... from 'x', import x = require('x'),
+    // require('x') and import('x')
+    private getModuleSpecifiers(sourceFile: SourceFile): string[] {
+        const specifiers = [
+            ...sourceFile
+                .getImportDeclarations()
+                .map((declaration) => declaration.getModuleSpecifierValue()),
+            ...sourceFile
+                .getExportDeclarations()
+                .flatMap(
+                    (declaration) => declaration.getModuleSpecifierValue() ?? []
+                ),
+        ]
+
+        for (const declaration of sourceFile.getDescendantsOfKind(
+            SyntaxKind.ImportEqualsDeclaration
+        )) {
+            const reference = declaration.getModuleReference()
+            const expression = Node.isExternalModuleReference(reference)
+                ? reference.getExpression()
+                : undefined
+            if (expression && Node.isStringLiteral(expression)) {
+                specifiers.push(expression.getLiteralValue())
+            }
+        }
+
+        for (const call of sourceFile.getDescendantsOfKind(
+            SyntaxKind.CallExpression
+        )) {
+            const callee = call.getExpression()
+            const [argument] = call.getArguments()
+            if (
+                argument &&
+                Node.isStringLiteral(argument) &&
+                (callee.getKind() === SyntaxKind.ImportKeyword ||
+                    (Node.isIdentifier(callee) &&
+                        callee.getText() === 'require'))
+            ) {
+                specifiers.push(argument.getLiteralValue())
+            }
+        }
+
+        return specifiers
+    }
+}
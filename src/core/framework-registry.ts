@@ -0,0 +1,77 @@
+import { SourceFile } from 'ts-morph'
+import type { DocCommentReader } from '../extractors/generic/doc-comment-reader'
+import type { TypeSchemaResolver } from '../extractors/generic/type-schema-resolver'
+import { honoPlugin } from '../plugins/hono/hono-plugin'
+import { BuiltInFramework, UniversalRoute } from '../types/universal-types'
+
+const BUILT_IN_FRAMEWORKS: BuiltInFramework[] = [
+    'express',
+    'nestjs',
+    'fastify',
+    'koa',
+    'nextjs',
+    'trpc',
+]
+
+// What FrameworkDetector looks for in a project
+export interface FrameworkSignals {
+    // package.json dependencies
+    dependencies: string[]
+    // Files or directories, relative to the project root or src/
+    files?: string[] | undefined
+}
+
+// Shared with the built-in extractors so plugin schemas land in the same
+// components and JSDoc is read the same way
+export interface FrameworkPluginContext {
+    projectPath: string
+    schemaResolver: TypeSchemaResolver
+    docReader: DocCommentReader
+}
+
+export interface FrameworkRouteExtractor {
+    // Every project file at once, as routers are often mounted across files
+    extract(sourceFiles: SourceFile[]): UniversalRoute[]
+}
+
+export interface FrameworkPlugin {
+    // Reported as the detected framework and on every extracted route
+    name: string
+    signals: FrameworkSignals
+    createExtractor(context: FrameworkPluginContext): FrameworkRouteExtractor
+}
+
+export class FrameworkRegistry {
+    private plugins = new Map<string, FrameworkPlugin>()
+
+    constructor(plugins: FrameworkPlugin[] = []) {
+        plugins.forEach((plugin) => this.register(plugin))
+    }
+
+    // A plugin registered again under the same name replaces the earlier one
+    register(plugin: FrameworkPlugin): this {
+        if (BUILT_IN_FRAMEWORKS.includes(plugin.name as BuiltInFramework)) {
+            throw new Error(
+                `Framework "${plugin.name}" is built in and cannot be registered as a plugin`
+            )
+        }
+        this.plugins.set(plugin.name, plugin)
+        return this
+    }
+
+    unregister(name: string): boolean {
+        return this.plugins.delete(name)
+    }
+
+    get(name: string): FrameworkPlugin | undefined {
+        return this.plugins.get(name)
+    }
+
+    // In registration order, which is also detection precedence
+    getPlugins(): FrameworkPlugin[] {
+        return Array.from(this.plugins.values())
+    }
+}
+
+// Used by FrameworkDetector and UniversalAnalyzer unless given another
+export const frameworkRegistry = new FrameworkRegistry([honoPlugin])
@@ -0,0 +1,149 @@
+import { existsSync, FSWatcher, readdirSync, statSync, watch } from 'fs'
+import { basename, extname, join, resolve, sep } from 'path'
+import { IGNORED_DIRECTORIES } from '../utils/project-utils'
+
+// Files whose edits can change what is extracted
+const SOURCE_EXTENSIONS = [
+    '.ts',
+    '.tsx',
+    '.mts',
+    '.cts',
+    '.js',
+    '.jsx',
+    '.mjs',
+    '.cjs',
+]
+const CONFIG_FILE = /^(package|tsconfig(\..+)?)\.json$/
+
+// Saves touch files in bursts (editors write temp files and rename them)
+const DEBOUNCE_MS = 300
+
+export interface FileChanges {
+    changed: string[]
+    added: string[]
+    removed: string[]
+}
+
+export class ProjectWatcher {
+    private rootPath: string
+    private onChange: (changes: FileChanges) => void
+    private watchers = new Map<string, FSWatcher>()
+    private files = new Set<string>()
+    private pending = new Map<string, keyof FileChanges>()
+    private timer: NodeJS.Timeout | null = null
+
+    constructor(rootPath: string, onChange: (changes: FileChanges) => void) {
+        this.rootPath = resolve(rootPath)
+        this.onChange = onChange
+    }
+
+    // Directories are watched one by one, as recursive watching is not
+    // available on every platform and Node.js version
+    start(): void {
+        this.watchDirectory(this.rootPath)
+    }
+
+    close(): void {
+        if (this.timer) clearTimeout(this.timer)
+        this.watchers.forEach((watcher) => watcher.close())
+        this.watchers.clear()
+    }
+
+    private watchDirectory(directory: string): void {
+        if (this.watchers.has(directory)) return
+
+        let entries: string[]
+        try {
+            entries = readdirSync(directory)
+            this.watchers.set(
+                directory,
+                watch(directory, (_event, filename) => {
+                    if (filename) this.handle(join(directory, filename))
+                })
+            )
+        } catch {
+            // Removed or unreadable while being walked
+            return
+        }
+
+        for (const entry of entries) {
+            const path = join(directory, entry)
+            if (this.isDirectory(path)) {
+                if (!IGNORED_DIRECTORIES.includes(entry)) {
+                    this.watchDirectory(path)
+                }
+            } else if (this.isRelevant(path)) {
+                this.files.add(path)
+            }
+        }
+    }
+
+    // Events only name the entry, so what happened is read from the disk
+    private handle(path: string): void {
+        if (this.isDirectory(path)) {
+            if (IGNORED_DIRECTORIES.includes(basename(path))) return
+            const known = new Set(this.files)
+            this.watchDirectory(path)
+            this.files.forEach((file) => {
+                if (!known.has(file)) this.queue(file, 'added')
+            })
+            return
+        }
+
+        if (this.watchers.has(path)) {
+            this.watchers.get(path)!.close()
+            this.watchers.delete(path)
+        }
+        // Files under a removed directory get no events of their own
+        const prefix = `${path}${sep}`
+        for (const file of Array.from(this.files)) {
+            if (file.startsWith(prefix)) {
+                this.files.delete(file)
+                this.queue(file, 'removed')
+            }
+        }
+
+        if (!this.isRelevant(path)) return
+        if (existsSync(path)) {
+            this.queue(path, this.files.has(path) ? 'changed' : 'added')
+            this.files.add(path)
+        } else if (this.files.delete(path)) {
+            this.queue(path, 'removed')
+        }
+    }
+
+    private queue(path: string, kind: keyof FileChanges): void {
+        // A file added and then edited before the batch is reported is
+        // still new
+        if (this.pending.get(path) !== 'added' || kind === 'removed') {
+            this.pending.set(path, kind)
+        }
+
+        if (this.timer) clearTimeout(this.timer)
+        this.timer = setTimeout(() => this.flush(), DEBOUNCE_MS)
+    }
+
+    private flush(): void {
+        this.timer = null
+        const changes: FileChanges = { changed: [], added: [], removed: [] }
+        this.pending.forEach((kind, path) => changes[kind].push(path))
+        this.pending.clear()
+        this.onChange(changes)
+    }
+
+    private isRelevant(path: string): boolean {
+        const filename = basename(path)
+        return (
+            SOURCE_EXTENSIONS.includes(extname(filename)) ||
+            CONFIG_FILE.test(filename)
+        )
+    }
+
+    private isDirectory(path: string): boolean {
+        try {
+            return statSync(path).isDirectory()
+        } catch {
+            return false
+        }
+    }
+}
@@ -0,0 +1,145 @@
+import { RouteConflict, UniversalRoute } from '../types/universal-types'
+import { PathUtils } from '../utils/path-utils'
+
+// Compared when the same registration is found more than once
+const COMPARED_FIELDS: (keyof UniversalRoute)[] = [
+    'handler',
+    'framework',
+    'middleware',
+    'parameters',
+    'responses',
+    'summary',
+    'description',
+    'tags',
+]
+
+// Taken from another record when the richest one lacks them
+const FILLED_FIELDS: (keyof UniversalRoute)[] = [
+    'responses',
+    'summary',
+    'description',
+    'tags',
+    'deprecated',
+    'docs',
+]
+
+export class RouteMerger {
+    // Method, host and normalized path: what a client calls
+    static getEndpointKey(route: UniversalRoute): string {
+        return [
+            route.method.toUpperCase(),
+            route.host ?? '',
+            PathUtils.normalizeRoutePath(route.path),
+        ].join(' ')
+    }
+
+    // The endpoint plus the file registering it
+    static getRouteKey(route: UniversalRoute): string {
+        return `${RouteMerger.getEndpointKey(route)} ${route.filePath ?? ''}`
+    }
+
+    // One record per registration, in the order they were found; endpoints
+    // registered by several files are kept and reported
+    merge(routes: UniversalRoute[]): {
+        routes: UniversalRoute[]
+        conflicts: RouteConflict[]
+    } {
+        const conflicts: RouteConflict[] = []
+        const merged = Array.from(
+            this.groupBy(routes, RouteMerger.getRouteKey).values()
+        ).map((group) => this.mergeGroup(group, conflicts))
+
+        for (const group of this.groupBy(
+            merged,
+            RouteMerger.getEndpointKey
+        ).values()) {
+            if (group.length > 1) {
+                conflicts.push(this.describeConflict('duplicate', group))
+            }
+        }
+
+        return { routes: merged, conflicts }
+    }
+
+    private mergeGroup(
+        group: UniversalRoute[],
+        conflicts: RouteConflict[]
+    ): UniversalRoute {
+        if (group.length === 1) return group[0]!
+
+        // Stable, so the first found wins ties
+        const [richest, ...others] = [...group].sort(
+            (a, b) => this.getRichness(b) - this.getRichness(a)
+        )
+        const route: UniversalRoute = { ...richest! }
+        for (const field of FILLED_FIELDS) {
+            const source = others.find((other) => other[field] !== undefined)
+            if (route[field] === undefined && source) {
+                Object.assign(route, { [field]: source[field] })
+            }
+        }
+
+        const fields = COMPARED_FIELDS.filter(
+            (field) =>
+                new Set(group.map((other) => JSON.stringify(other[field])))
+                    .size > 1
+        )
+        if (fields.length > 0) {
+            conflicts.push({
+                ...this.describeConflict('merged', group),
+                fields,
+            })
+        }
+
+        return route
+    }
+
+    // Everything a record tells about its endpoint
+    private getRichness(route: UniversalRoute): number {
+        return [
+            route.handler !== 'anonymous',
+            route.summary,
+            route.description,
+            route.docs,
+            route.deprecated,
+            ...route.middleware,
+            ...(route.tags ?? []),
+            ...route.parameters.flatMap((param) => [param, param.schema]),
+            ...(route.responses ?? []).flatMap((response) => [
+                response,
+                response.schema,
+            ]),
+        ].filter(Boolean).length
+    }
+
+    private describeConflict(
+        kind: RouteConflict['kind'],
+        group: UniversalRoute[]
+    ): RouteConflict {
+        const [first] = group
+        return {
+            kind,
+            method: first!.method.toUpperCase(),
+            path: first!.path,
+            routes: group.map(({ framework, handler, filePath }) => ({
+                framework,
+                handler,
+                ...(filePath ? { filePath } : {}),
+            })),
+        }
+    }
+
+    private groupBy(
+        routes: UniversalRoute[],
+        getKey: (route: UniversalRoute) => string
+    ): Map<string, UniversalRoute[]> {
+        const groups = new Map<string, UniversalRoute[]>()
+        for (const route of routes) {
+            const key = getKey(route)
+            const group = groups.get(key)
+            if (group) group.push(route)
+            else groups.set(key, [route])
+        }
+        return groups
+    }
+}
@@ -0,0 +1,104 @@
+import { SCHEMA_REF_PREFIX } from '../extractors/generic/type-schema-resolver'
+import { JsonSchema } from '../types/universal-types'
+
+export class SchemaMerger {
+    // Adds schemas named on their own (by another package, or in an earlier
+    // run) to target. A name target uses for a different schema gets a
+    // numeric suffix, and $refs in the schemas and in owner are renamed to
+    // match. Returns the schemas under their final names
+    merge(
+        schemas: Record<string, JsonSchema>,
+        target: Record<string, JsonSchema>,
+        owner: unknown
+    ): Record<string, JsonSchema> {
+        const renames = new Map<string, string>()
+        for (const [name, schema] of Object.entries(schemas)) {
+            const existing = target[name]
+            if (
+                !existing ||
+                JSON.stringify(existing) === JSON.stringify(schema)
+            ) {
+                continue
+            }
+
+            let candidate = name
+            for (let i = 2; candidate in target || candidate in schemas; i++) {
+                candidate = `${name}${i}`
+            }
+            renames.set(name, candidate)
+        }
+
+        let merged = schemas
+        if (renames.size > 0) {
+            this.renameRefs([owner, schemas], renames, new Set())
+            merged = Object.fromEntries(
+                Object.entries(schemas).map(([name, schema]) => [
+                    renames.get(name) ?? name,
+                    schema,
+                ])
+            )
+        }
+        Object.assign(target, merged)
+        return merged
+    }
+
+    // The named definitions and those value refers to, directly or through
+    // each other
+    collectReferenced(
+        value: unknown,
+        definitions: Record<string, JsonSchema>,
+        names: string[] = []
+    ): Record<string, JsonSchema> {
+        const referenced: Record<string, JsonSchema> = {}
+        const pending = [...names]
+        this.forEachRef(value, new Set(), (name) => pending.push(name))
+
+        for (let name = pending.pop(); name; name = pending.pop()) {
+            const schema = definitions[name]
+            if (!schema || name in referenced) continue
+
+            referenced[name] = schema
+            this.forEachRef(schema, new Set(), (ref) => pending.push(ref))
+        }
+        return referenced
+    }
+
+    private renameRefs(
+        value: unknown,
+        renames: Map<string, string>,
+        visited: Set<object>
+    ): void {
+        this.forEachRef(value, visited, (name, record) => {
+            const renamed = renames.get(name)
+            if (renamed) record['$ref'] = `${SCHEMA_REF_PREFIX}${renamed}`
+        })
+    }
+
+    // Schemas share objects, so each is visited once
+    private forEachRef(
+        value: unknown,
+        visited: Set<object>,
+        visit: (name: string, record: Record<string, unknown>) => void
+    ): void {
+        if (!value || typeof value !== 'object' || visited.has(value)) return
+        visited.add(value)
+
+        if (Array.isArray(value)) {
+            value.forEach((item) => this.forEachRef(item, visited, visit))
+            return
+        }
+
+        const record = value as Record<string, unknown>
+        for (const [key, child] of Object.entries(record)) {
+            if (
+                key === '$ref' &&
+                typeof child === 'string' &&
+                child.startsWith(SCHEMA_REF_PREFIX)
+            ) {
+                visit(child.slice(SCHEMA_REF_PREFIX.length), record)
+            } else {
+                this.forEachRef(child, visited, visit)
+            }
+        }
+    }
+}
@@ -1,48 +1,308 @@
+import { resolve, sep } from 'path'
+import { Project } from 'ts-morph'
+import type { AnalysisConfig } from '../config/config'
 import { GenericExtractor } from '../extractors/generic/generic-extractor'
-import { AnalysisResult } from '../types/universal-types'
-import { FrameworkDetector } from './framework-detector'
+import {
+    AnalysisResult,
+    JsonSchema,
+    PackageAnalysis,
+} from '../types/universal-types'
+import { ProjectUtils } from '../utils/project-utils'
+import { EntityIdentifier } from './entity-identifier'
+import { FrameworkDetector, FrameworkInfo } from './framework-detector'
+import { FrameworkRegistry, frameworkRegistry } from './framework-registry'
+import { FileChanges } from './project-watcher'
+import { SchemaMerger } from './schema-merger'
+import { Workspace, WorkspaceDiscovery } from './workspace-discovery'
 
 export class UniversalAnalyzer {
     private projectPath: string
+    private options: Partial<AnalysisConfig>
+    private registry: FrameworkRegistry
+    // Kept across analyze() calls by package path, so analysing again
+    // after refresh() only reparses what changed. Frameworks are detected
+    // again when the project is recreated
+    private projects = new Map<string, Project>()
+    private detections = new Map<string, FrameworkInfo>()
 
-    constructor(projectPath: string) {
+    constructor(
+        projectPath: string,
+        options: Partial<AnalysisConfig> = {},
+        registry: FrameworkRegistry = frameworkRegistry
+    ) {
         this.projectPath = projectPath
+        this.options = options
+        this.registry = registry
     }
 
     async analyze(): Promise<AnalysisResult> {
-        const startTime = Date.now()
+        const workspace =
+            this.options.workspaces === false
+                ? null
+                : new WorkspaceDiscovery(this.projectPath).discover()
+        const result = workspace
+            ? this.analyzeWorkspace(workspace)
+            : this.analyzeProject(this.projectPath).result
 
-        // Detect framework
-        const detector = new FrameworkDetector(this.projectPath)
-        const frameworkInfo = detector.detectFramework()
+        new EntityIdentifier(
+            this.projectPath,
+            this.options.sourceUrl ??
+                EntityIdentifier.readSourceUrl(this.projectPath)
+        ).assign(result)
+        return result
+    }
+
+    // Edited files are reread in place. Added or removed files and config
+    // changes drop the package's project to be created again, since its
+    // tsconfig decides which files belong
+    refresh(changes: FileChanges): void {
+        for (const [projectPath, project] of this.projects) {
+            const root = resolve(projectPath)
+            const rebuild = [
+                ...changes.added,
+                ...changes.removed,
+                ...changes.changed.filter((filePath) =>
+                    filePath.endsWith('.json')
+                ),
+            ].some((filePath) => filePath.startsWith(`${root}${sep}`))
+
+            if (rebuild) {
+                this.projects.delete(projectPath)
+                this.detections.delete(projectPath)
+                continue
+            }
+            for (const filePath of changes.changed) {
+                project.getSourceFile(filePath)?.refreshFromFileSystemSync()
+            }
+        }
+    }
+
+    // Each package is detected and extracted with its own tsconfig
+    private analyzeWorkspace(workspace: Workspace): AnalysisResult {
+        const startTime = Date.now()
 
         console.log(
-            `🔍 Detected framework: ${frameworkInfo.framework} (${frameworkInfo.confidence}% confidence)`
+            `📦 Workspace (${workspace.tools.join(', ')}): ${
+                workspace.packages.length
+            } packages`
         )
 
-        // Use generic extractor for all frameworks
-        const genericExtractor = new GenericExtractor(this.projectPath)
-        const { routes, controllers, services, types } =
-            genericExtractor.extractAll()
+        const packages: Record<string, PackageAnalysis> = {}
+        const packageResults = new Map<string, AnalysisResult>()
+        for (const workspacePackage of workspace.packages) {
+            const { name, path, relativePath } = workspacePackage
+            console.log(`📦 ${name} (${relativePath})`)
+            try {
+                const { result, confidence } = this.analyzeProject(path)
+                const key = name in packages ? relativePath : name
+                packages[key] = {
+                    path: relativePath,
+                    framework: result.framework,
+                    confidence,
+                    totalRoutes: result.routes.length,
+                    totalControllers: result.controllers.length,
+                    totalServices: result.services.length,
+                    totalTypes: result.types.length,
+                    totalOperations: result.operations?.length ?? 0,
+                    totalEvents: result.events?.length ?? 0,
+                    totalMessages: result.messages?.length ?? 0,
+                    schemas: [],
+                }
+                this.assignPackage(result, key)
+                packageResults.set(key, result)
+            } catch (error) {
+                console.warn(`⚠️ Skipping ${name}: ${error}`)
+            }
+        }
 
-        const analysisTime = (Date.now() - startTime) / 1000
+        // Packages name their schemas independently
+        const schemaMerger = new SchemaMerger()
+        const schemas: Record<string, JsonSchema> = {}
+        for (const [key, result] of packageResults) {
+            result.schemas = schemaMerger.merge(
+                result.schemas ?? {},
+                schemas,
+                result
+            )
+            packages[key]!.schemas = Object.keys(result.schemas)
+        }
+
+        const results = Array.from(packageResults.values())
+
+        const routes = results.flatMap((result) => result.routes)
+        const controllers = results.flatMap((result) => result.controllers)
+        const services = results.flatMap((result) => result.services)
+        const operations = results.flatMap((result) => result.operations ?? [])
+        const events = results.flatMap((result) => result.events ?? [])
+        const messages = results.flatMap((result) => result.messages ?? [])
+        const routeConflicts = results.flatMap(
+            (result) => result.routeConflicts ?? []
+        )
+        const cacheStats = results.flatMap((result) =>
+            result.metadata.cache ? [result.metadata.cache] : []
+        )
+        const cache =
+            cacheStats.length > 0
+                ? {
+                      hits: cacheStats.reduce((sum, { hits }) => sum + hits, 0),
+                      misses: cacheStats.reduce(
+                          (sum, { misses }) => sum + misses,
+                          0
+                      ),
+                  }
+                : undefined
+        const frameworks = Array.from(
+            new Set(results.map((result) => result.framework))
+        ).filter((framework) => framework !== 'unknown')
 
         console.log(
-            `📊 Found: ${routes.length} routes, ${controllers.length} controllers, ${services.length} services, ${types.length} types`
+            `📊 Workspace: ${routes.length} routes across ${results.length} packages`
         )
 
         return {
-            framework: frameworkInfo.framework,
+            framework: frameworks.join(', ') || 'unknown',
             routes,
             controllers,
             services,
-            types,
+            types: results.flatMap((result) => result.types),
+            operations,
+            events,
+            messages,
+            schemas,
+            ...(routeConflicts.length > 0 ? { routeConflicts } : {}),
+            packages,
             metadata: {
                 totalRoutes: routes.length,
                 totalControllers: controllers.length,
                 totalServices: services.length,
-                analysisTime,
+                totalOperations: operations.length,
+                totalEvents: events.length,
+                totalMessages: messages.length,
+                totalPackages: results.length,
+                ...(cache ? { cache } : {}),
+                analysisTime: (Date.now() - startTime) / 1000,
+            },
+        }
+    }
+
+    // Entities name their package, so one package's can be picked out of
+    // the combined lists
+    private assignPackage(result: AnalysisResult, name: string): void {
+        const entities = [
+            ...result.routes,
+            ...result.controllers,
+            ...result.controllers.flatMap((controller) => controller.routes),
+            ...result.services,
+            ...result.types,
+            ...(result.operations ?? []),
+            ...(result.events ?? []),
+            ...(result.messages ?? []),
+        ]
+        entities.forEach((entity) => {
+            entity.package = name
+        })
+    }
+
+    private analyzeProject(projectPath: string): {
+        result: AnalysisResult
+        confidence: number
+    } {
+        const startTime = Date.now()
+
+        let project = this.projects.get(projectPath)
+        if (!project) {
+            project = ProjectUtils.createProject(projectPath)
+            this.projects.set(projectPath, project)
+        }
+
+        // Detect framework
+        let frameworkInfo = this.detections.get(projectPath)
+        if (!frameworkInfo) {
+            const detector = new FrameworkDetector(
+                projectPath,
+                this.registry,
+                project
+            )
+            frameworkInfo = detector.detectFramework()
+            this.detections.set(projectPath, frameworkInfo)
+        }
+
+        console.log(
+            `🔍 Detected framework: ${frameworkInfo.framework} (${frameworkInfo.confidence}% confidence)`
+        )
+
+        // Use generic extractor for all frameworks
+        const genericExtractor = new GenericExtractor(
+            projectPath,
+            this.options,
+            this.registry,
+            project
+        )
+        const {
+            routes,
+            controllers,
+            services,
+            types,
+            operations,
+            events,
+            messages,
+            schemas,
+            routeConflicts,
+            cache,
+        } = genericExtractor.extractAll()
+
+        const analysisTime = (Date.now() - startTime) / 1000
+
+        const operationSummary =
+            operations.length > 0
+                ? `, ${operations.length} GraphQL operations`
+                : ''
+        const eventSummary =
+            events.length > 0 ? `, ${events.length} WebSocket events` : ''
+        const messageSummary =
+            messages.length > 0
+                ? `, ${messages.length} message handlers and producers`
+                : ''
+        console.log(
+            `📊 Found: ${routes.length} routes, ${controllers.length} controllers, ${services.length} services, ${types.length} types${operationSummary}${eventSummary}${messageSummary}`
+        )
+        if (cache && cache.hits > 0) {
+            console.log(
+                `♻️ Reused ${cache.hits} of ${
+                    cache.hits + cache.misses
+                } files from the analysis cache`
+            )
+        }
+        if (routeConflicts.length > 0) {
+            console.warn(
+                `⚠️ ${routeConflicts.length} route conflicts, listed in routeConflicts`
+            )
+        }
+
+        return {
+            result: {
+                framework: frameworkInfo.framework,
+                routes,
+                controllers,
+                services,
+                types,
+                operations,
+                events,
+                messages,
+                schemas,
+                ...(routeConflicts.length > 0 ? { routeConflicts } : {}),
+                metadata: {
+                    totalRoutes: routes.length,
+                    totalControllers: controllers.length,
+                    totalServices: services.length,
+                    totalOperations: operations.length,
+                    totalEvents: events.length,
+                    totalMessages: messages.length,
+                    ...(cache ? { cache } : {}),
+                    analysisTime,
+                },
             },
+            confidence: frameworkInfo.confidence,
         }
     }
 }
@@ -0,0 +1,237 @@
+import { existsSync, readdirSync, readFileSync, statSync } from 'fs'
+import { basename, dirname, join, relative, resolve } from 'path'
+import { ts } from 'ts-morph'
+import { IGNORED_DIRECTORIES } from '../utils/project-utils'
+
+export interface WorkspacePackage {
+    // package.json or Nx project.json name, else the relative path
+    name: string
+    path: string
+    // From the workspace root, with forward slashes
+    relativePath: string
+}
+
+export interface Workspace {
+    root: string
+    // What declared the packages: 'npm workspaces', 'pnpm', 'nx', ...
+    tools: string[]
+    packages: WorkspacePackage[]
+}
+
+// Turborepo relies on the package manager's workspaces; these are its
+// conventional layout when none are declared
+const TURBO_DEFAULT_PATTERNS = ['apps/*', 'packages/*']
+
+// Nx projects are found by their project.json this deep below the root
+const MAX_NX_DEPTH = 4
+
+const MAX_GLOB_DEPTH = 6
+
+export class WorkspaceDiscovery {
+    private rootPath: string
+
+    constructor(rootPath: string) {
+        this.rootPath = resolve(rootPath)
+    }
+
+    // null when the path is not a monorepo root
+    discover(): Workspace | null {
+        const tools: string[] = []
+        const directories = new Set<string>()
+        const addAll = (tool: string, found: string[]) => {
+            if (found.length === 0) return
+            tools.push(tool)
+            found.forEach((directory) => directories.add(directory))
+        }
+
+        const packageJson = this.readJson(join(this.rootPath, 'package.json'))
+        // "workspaces": [...] (npm, yarn) or { "packages": [...] } (yarn 1)
+        const workspaces = Array.isArray(packageJson?.workspaces)
+            ? packageJson.workspaces
+            : packageJson?.workspaces?.packages
+        if (Array.isArray(workspaces)) {
+            addAll('npm workspaces', this.expandPatterns(workspaces))
+        }
+
+        const pnpmPatterns = this.readPnpmPatterns()
+        if (pnpmPatterns.length > 0) {
+            addAll('pnpm', this.expandPatterns(pnpmPatterns))
+        }
+
+        if (existsSync(join(this.rootPath, 'nx.json'))) {
+            addAll('nx', this.findNxProjects(this.rootPath, 0))
+        }
+
+        if (
+            existsSync(join(this.rootPath, 'turbo.json')) &&
+            tools.length === 0
+        ) {
+            addAll('turborepo', this.expandPatterns(TURBO_DEFAULT_PATTERNS))
+        }
+
+        addAll('tsconfig references', this.readProjectReferences())
+
+        directories.delete(this.rootPath)
+        if (directories.size === 0) return null
+
+        const packages = Array.from(directories)
+            .map((directory) => this.describePackage(directory))
+            .sort((a, b) => a.relativePath.localeCompare(b.relativePath))
+
+        return { root: this.rootPath, tools, packages }
+    }
+
+    private describePackage(directory: string): WorkspacePackage {
+        const relativePath = relative(this.rootPath, directory)
+            .split('\\')
+            .join('/')
+        const name =
+            this.readJson(join(directory, 'package.json'))?.name ??
+            this.readJson(join(directory, 'project.json'))?.name ??
+            relativePath
+        return { name, path: directory, relativePath }
+    }
+
+    // packages:
+    //   - 'packages/*'
+    //   - '!**/test/**'
+    private readPnpmPatterns(): string[] {
+        const filePath = join(this.rootPath, 'pnpm-workspace.yaml')
+        if (!existsSync(filePath)) return []
+
+        const patterns: string[] = []
+        let inPackages = false
+        for (const line of readFileSync(filePath, 'utf-8').split(/\r?\n/)) {
+            if (/^\S/.test(line)) {
+                inPackages = /^packages\s*:/.test(line)
+                continue
+            }
+            const item = line.match(/^\s*-\s*['"]?([^'"#]+?)['"]?\s*(#.*)?$/)
+            if (inPackages && item?.[1]) patterns.push(item[1])
+        }
+        return patterns
+    }
+
+    // "references": [{ "path": "./packages/api" }] in the root tsconfig
+    private readProjectReferences(): string[] {
+        const config = this.readJson(join(this.rootPath, 'tsconfig.json'))
+        const references: { path?: string }[] = Array.isArray(
+            config?.references
+        )
+            ? config.references
+            : []
+
+        return references.flatMap(({ path }) => {
+            if (!path) return []
+            const target = resolve(this.rootPath, path)
+            const directory =
+                existsSync(target) && statSync(target).isFile()
+                    ? dirname(target)
+                    : target
+            return existsSync(directory) ? [directory] : []
+        })
+    }
+
+    private findNxProjects(directory: string, depth: number): string[] {
+        if (depth > MAX_NX_DEPTH) return []
+
+        const projects = existsSync(join(directory, 'project.json'))
+            ? [directory]
+            : []
+        for (const child of this.getSubdirectories(directory)) {
+            projects.push(...this.findNxProjects(child, depth + 1))
+        }
+        return projects
+    }
+
+    // Workspace globs: 'packages/*', 'apps/**', 'services/api-*', with
+    // '!pattern' excluding; only directories with a package.json count
+    private expandPatterns(patterns: string[]): string[] {
+        const included = new Set<string>()
+        const excluded = new Set<string>()
+
+        for (const pattern of patterns) {
+            const negated = pattern.startsWith('!')
+            const segments = pattern
+                .replace(/^!/, '')
+                .replace(/^\.\//, '')
+                .split('/')
+                .filter((segment) => segment !== '' && segment !== '.')
+            for (const directory of this.expandSegments(
+                this.rootPath,
+                segments,
+                0
+            )) {
+                if (negated) excluded.add(directory)
+                else included.add(directory)
+            }
+        }
+
+        return Array.from(included).filter(
+            (directory) =>
+                !excluded.has(directory) &&
+                existsSync(join(directory, 'package.json'))
+        )
+    }
+
+    private expandSegments(
+        directory: string,
+        segments: string[],
+        depth: number
+    ): string[] {
+        const [segment, ...rest] = segments
+        if (segment === undefined) return [directory]
+        if (depth > MAX_GLOB_DEPTH) return []
+
+        if (segment === '**') {
+            return [
+                ...this.expandSegments(directory, rest, depth),
+                ...this.getSubdirectories(directory).flatMap((child) =>
+                    this.expandSegments(child, segments, depth + 1)
+                ),
+            ]
+        }
+
+        if (segment.includes('*')) {
+            const matcher = new RegExp(
+                `^${segment
+                    .split('*')
+                    .map((part) => part.replace(/[.+?^${}()|[\]\\]/g, '\\$&'))
+                    .join('.*')}$`
+            )
+            return this.getSubdirectories(directory)
+                .filter((child) => matcher.test(basename(child)))
+                .flatMap((child) => this.expandSegments(child, rest, depth + 1))
+        }
+
+        const child = join(directory, segment)
+        return existsSync(child) && statSync(child).isDirectory()
+            ? this.expandSegments(child, rest, depth + 1)
+            : []
+    }
+
+    private getSubdirectories(directory: string): string[] {
+        try {
+            return readdirSync(directory, { withFileTypes: true })
+                .filter(
+                    (entry) =>
+                        entry.isDirectory() &&
+                        !entry.name.startsWith('.') &&
+                        !IGNORED_DIRECTORIES.includes(entry.name)
+                )
+                .map((entry) => join(directory, entry.name))
+        } catch {
+            return []
+        }
+    }
+
+    // tsconfig files may hold comments and trailing commas
+    private readJson(filePath: string): any {
+        if (!existsSync(filePath)) return null
+        const { config, error } = ts.parseConfigFileTextToJson(
+            filePath,
+            readFileSync(filePath, 'utf-8')
+        )
+        return error ? null : config
+    }
+}
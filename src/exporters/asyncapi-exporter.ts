@@ -0,0 +1,314 @@
+import {
+    AnalysisResult,
+    JsonSchema,
+    UniversalEvent,
+} from '../types/universal-types'
+
+export type AsyncAPIVersion = '2.6.0' | '3.0.0'
+
+export interface AsyncAPIMessageObject {
+    name: string
+    title?: string
+    summary?: string
+    description?: string
+    deprecated?: boolean
+    payload: JsonSchema
+}
+
+// AsyncAPI 2.x: publish is what clients send to the application,
+// subscribe what the application sends to clients
+export interface AsyncAPIChannelObject2 {
+    publish?: AsyncAPIOperationObject2
+    subscribe?: AsyncAPIOperationObject2
+}
+
+export interface AsyncAPIOperationObject2 {
+    operationId: string
+    message: { $ref: string } | { oneOf: { $ref: string }[] }
+}
+
+// AsyncAPI 3.0 separates channels from the operations using them
+export interface AsyncAPIChannelObject3 {
+    address: string
+    messages: Record<string, { $ref: string }>
+}
+
+export interface AsyncAPIOperationObject3 {
+    // From the application's point of view, like UniversalEvent.direction
+    action: 'send' | 'receive'
+    channel: { $ref: string }
+    messages: { $ref: string }[]
+}
+
+export interface AsyncAPIDocument {
+    asyncapi: AsyncAPIVersion
+    info: {
+        title: string
+        version: string
+        description?: string
+    }
+    servers?: Record<string, AsyncAPIServerObject>
+    defaultContentType: string
+    channels: Record<string, AsyncAPIChannelObject2 | AsyncAPIChannelObject3>
+    operations?: Record<string, AsyncAPIOperationObject3>
+    components: {
+        schemas: Record<string, JsonSchema>
+        messages: Record<string, AsyncAPIMessageObject>
+    }
+}
+
+export interface AsyncAPIServerObject {
+    // 2.x
+    url?: string
+    // 3.0
+    host?: string
+    pathname?: string
+    protocol: string
+}
+
+export interface AsyncAPIExportOptions {
+    title?: string | undefined
+    version?: string | undefined
+    description?: string | undefined
+    servers?: string[] | undefined
+    specVersion?: AsyncAPIVersion | undefined
+}
+
+export class AsyncAPIExporter {
+    private options: AsyncAPIExportOptions
+    private messageNames = new Map<string, string>()
+
+    constructor(options: AsyncAPIExportOptions = {}) {
+        this.options = options
+    }
+
+    export(result: AnalysisResult): AsyncAPIDocument {
+        const specVersion = this.options.specVersion || '3.0.0'
+        const events = result.events ?? []
+        this.messageNames = new Map()
+
+        // Schemas share OpenAPI's #/components/schemas/ location, so $refs
+        // produced during analysis resolve unchanged
+        const schemas: Record<string, JsonSchema> = {}
+        for (const type of result.types) {
+            if (type.schema && !schemas[type.name]) {
+                schemas[type.name] = type.schema
+            }
+        }
+        Object.assign(schemas, result.schemas)
+
+        const messages: Record<string, AsyncAPIMessageObject> = {}
+        for (const event of events) {
+            const messageName = this.getMessageName(event)
+            if (!messages[messageName]) {
+                messages[messageName] = this.buildMessage(event)
+            }
+        }
+
+        const servers = this.buildServers(specVersion)
+        const document: AsyncAPIDocument = {
+            asyncapi: specVersion,
+            info: {
+                title: this.options.title || 'API Documentation',
+                version: this.options.version || '1.0.0',
+                ...(this.options.description
+                    ? { description: this.options.description }
+                    : {}),
+            },
+            ...(servers ? { servers } : {}),
+            defaultContentType: 'application/json',
+            channels: {},
+            components: { schemas, messages },
+        }
+
+        if (specVersion === '2.6.0') {
+            document.channels = this.buildChannels2(events)
+        } else {
+            const { channels, operations } = this.buildChannels3(events)
+            document.channels = channels
+            document.operations = operations
+        }
+
+        return document
+    }
+
+    // One channel per namespace; each direction lists its messages
+    private buildChannels2(
+        events: UniversalEvent[]
+    ): Record<string, AsyncAPIChannelObject2> {
+        const channels: Record<string, AsyncAPIChannelObject2> = {}
+
+        for (const [namespace, namespaceEvents] of this.groupByNamespace(
+            events
+        )) {
+            const channel: AsyncAPIChannelObject2 = {}
+            const received = namespaceEvents.filter(
+                (event) => event.direction === 'receive'
+            )
+            const sent = namespaceEvents.filter(
+                (event) => event.direction === 'send'
+            )
+
+            if (received.length > 0) {
+                channel.publish = {
+                    operationId: this.getOperationId('receive', namespace),
+                    message: this.toMessageReference2(received),
+                }
+            }
+            if (sent.length > 0) {
+                channel.subscribe = {
+                    operationId: this.getOperationId('send', namespace),
+                    message: this.toMessageReference2(sent),
+                }
+            }
+            channels[namespace] = channel
+        }
+
+        return channels
+    }
+
+    private buildChannels3(events: UniversalEvent[]): {
+        channels: Record<string, AsyncAPIChannelObject3>
+        operations: Record<string, AsyncAPIOperationObject3>
+    } {
+        const channels: Record<string, AsyncAPIChannelObject3> = {}
+        const operations: Record<string, AsyncAPIOperationObject3> = {}
+
+        for (const [namespace, namespaceEvents] of this.groupByNamespace(
+            events
+        )) {
+            const channelId = this.getChannelId(namespace)
+            const channel: AsyncAPIChannelObject3 = {
+                address: namespace,
+                messages: {},
+            }
+
+            for (const event of namespaceEvents) {
+                const messageName = this.getMessageName(event)
+                channel.messages[messageName] = {
+                    $ref: `#/components/messages/${messageName}`,
+                }
+
+                const operationId = this.getOperationId(
+                    event.direction,
+                    namespace,
+                    event.name
+                )
+                operations[operationId] = {
+                    action: event.direction,
+                    channel: { $ref: `#/channels/${channelId}` },
+                    messages: [
+                        {
+                            $ref: `#/channels/${channelId}/messages/${messageName}`,
+                        },
+                    ],
+                }
+            }
+            channels[channelId] = channel
+        }
+
+        return { channels, operations }
+    }
+
+    private buildMessage(event: UniversalEvent): AsyncAPIMessageObject {
+        // A doc comment's first line is the summary, the rest its description
+        const [firstLine, ...otherLines] = (event.docs?.summary ?? '').split(
+            '\n'
+        )
+        const description = otherLines.join('\n').trim()
+
+        return {
+            name: event.name,
+            title: event.name,
+            ...(firstLine ? { summary: firstLine } : {}),
+            ...(description ? { description } : {}),
+            ...(event.docs?.deprecated !== undefined
+                ? { deprecated: true }
+                : {}),
+            payload: event.payload ?? {},
+        }
+    }
+
+    private buildServers(
+        specVersion: AsyncAPIVersion
+    ): Record<string, AsyncAPIServerObject> | null {
+        if (!this.options.servers?.length) return null
+
+        const servers: Record<string, AsyncAPIServerObject> = {}
+        this.options.servers.forEach((url, index) => {
+            const name = index === 0 ? 'default' : `server${index + 1}`
+            const match = url.match(/^([a-z][a-z0-9+.-]*):\/\/([^/]+)(\/.*)?$/i)
+            const protocol = match?.[1] || 'ws'
+
+            servers[name] =
+                specVersion === '2.6.0' || !match
+                    ? { url, protocol }
+                    : {
+                          host: match[2]!,
+                          ...(match[3] ? { pathname: match[3] } : {}),
+                          protocol,
+                      }
+        })
+        return servers
+    }
+
+    private toMessageReference2(
+        events: UniversalEvent[]
+    ): AsyncAPIOperationObject2['message'] {
+        const references = Array.from(
+            new Set(events.map((event) => this.getMessageName(event)))
+        ).map((name) => ({ $ref: `#/components/messages/${name}` }))
+
+        return references.length === 1 ? references[0]! : { oneOf: references }
+    }
+
+    private groupByNamespace(
+        events: UniversalEvent[]
+    ): Map<string, UniversalEvent[]> {
+        const groups = new Map<string, UniversalEvent[]>()
+        for (const event of events) {
+            groups.set(event.namespace, [
+                ...(groups.get(event.namespace) ?? []),
+                event,
+            ])
+        }
+        return groups
+    }
+
+    // An event name can carry a different payload per namespace and
+    // direction, so each combination gets its own message
+    private getMessageName(event: UniversalEvent): string {
+        const key = `${event.namespace}:${event.direction}:${event.name}`
+        const existing = this.messageNames.get(key)
+        if (existing) return existing
+
+        const base = this.sanitize(event.name) || 'message'
+        const taken = new Set(this.messageNames.values())
+        let name = base
+        let counter = 2
+        while (taken.has(name)) {
+            name = `${base}_${counter++}`
+        }
+        this.messageNames.set(key, name)
+        return name
+    }
+
+    private getChannelId(namespace: string): string {
+        return this.sanitize(namespace.replace(/^\//, '')) || 'root'
+    }
+
+    private getOperationId(
+        direction: UniversalEvent['direction'],
+        namespace: string,
+        eventName?: string
+    ): string {
+        return [direction, this.getChannelId(namespace), eventName]
+            .filter((part): part is string => !!part)
+            .map((part) => this.sanitize(part))
+            .join('_')
+    }
+
+    private sanitize(value: string): string {
+        return value.replace(/[^A-Za-z0-9_.-]/g, '_')
+    }
+}
@@ -0,0 +1,529 @@
+import {
+    AnalysisResult,
+    JsonSchema,
+    Parameter,
+    Property,
+    RouteResponse,
+    UniversalRoute,
+    UniversalType,
+} from '../types/universal-types'
+
+export type OpenAPISchemaObject = JsonSchema
+
+export interface OpenAPIParameterObject {
+    name: string
+    in: 'path' | 'query' | 'header' | 'cookie'
+    required: boolean
+    description?: string
+    example?: unknown
+    schema: OpenAPISchemaObject
+}
+
+export interface OpenAPIOperationObject {
+    operationId: string
+    summary?: string
+    description?: string
+    tags?: string[]
+    deprecated?: boolean
+    parameters?: OpenAPIParameterObject[]
+    requestBody?: {
+        description?: string
+        required: boolean
+        content: Record<string, OpenAPIMediaTypeObject>
+    }
+    responses: Record<string, OpenAPIResponseObject>
+}
+
+export interface OpenAPIResponseObject {
+    description: string
+    content?: Record<string, OpenAPIMediaTypeObject>
+}
+
+export interface OpenAPIMediaTypeObject {
+    schema: OpenAPISchemaObject
+    example?: unknown
+}
+
+export interface OpenAPIDocument {
+    openapi: string
+    info: {
+        title: string
+        version: string
+        description?: string
+    }
+    servers?: { url: string }[]
+    tags?: { name: string }[]
+    paths: Record<string, Record<string, OpenAPIOperationObject>>
+    components: {
+        schemas: Record<string, OpenAPISchemaObject>
+    }
+}
+
+export interface OpenAPIExportOptions {
+    title?: string | undefined
+    version?: string | undefined
+    description?: string | undefined
+    servers?: string[] | undefined
+}
+
+const STATUS_DESCRIPTIONS: Record<string, string> = {
+    '200': 'Successful response',
+    '201': 'Created',
+    '202': 'Accepted',
+    '204': 'No content',
+    '400': 'Bad request',
+    '401': 'Unauthorized',
+    '403': 'Forbidden',
+    '404': 'Not found',
+    '409': 'Conflict',
+    '422': 'Unprocessable entity',
+    '500': 'Internal server error',
+    default: 'Unexpected error',
+}
+
+const PRIMITIVE_TYPES = ['string', 'number', 'boolean', 'any']
+
+const OPENAPI_METHODS = [
+    'get',
+    'put',
+    'post',
+    'delete',
+    'options',
+    'head',
+    'patch',
+    'trace',
+]
+
+// Methods a catch-all (`ALL`) route is documented under
+const ALL_METHODS = ['get', 'post', 'put', 'patch', 'delete']
+
+export class OpenAPIExporter {
+    private options: OpenAPIExportOptions
+    private types = new Map<string, UniversalType>()
+    private components: Record<string, OpenAPISchemaObject> = {}
+    private operationIds = new Set<string>()
+
+    constructor(options: OpenAPIExportOptions = {}) {
+        this.options = options
+    }
+
+    export(result: AnalysisResult): OpenAPIDocument {
+        this.types = new Map(result.types.map((type) => [type.name, type]))
+        // Resolved definitions first, so legacy types can $ref them
+        this.components = { ...result.schemas }
+        this.components = {
+            ...this.buildSchemas(result.types),
+            ...this.components,
+        }
+        this.operationIds = new Set()
+
+        const paths: OpenAPIDocument['paths'] = {}
+        const tags = new Set<string>()
+
+        for (const route of result.routes) {
+            const path = this.toOpenAPIPath(route.path)
+            // Tags written in the source (@ApiTags) replace the controller name
+            const routeTags = route.tags?.length
+                ? route.tags
+                : [this.findControllerName(route, result)].filter(
+                      (tag): tag is string => !!tag
+                  )
+            routeTags.forEach((tag) => tags.add(tag))
+
+            for (const method of this.toOpenAPIMethods(route.method)) {
+                if (!paths[path]) paths[path] = {}
+                // The first extracted route for a path + method wins
+                if (paths[path]![method]) continue
+
+                paths[path]![method] = this.buildOperation(
+                    route,
+                    path,
+                    routeTags
+                )
+            }
+        }
+
+        const document: OpenAPIDocument = {
+            openapi: '3.1.0',
+            info: {
+                title: this.options.title || 'API Documentation',
+                version: this.options.version || '1.0.0',
+                ...(this.options.description
+                    ? { description: this.options.description }
+                    : {}),
+            },
+            paths,
+            components: {
+                schemas: this.components,
+            },
+        }
+
+        if (this.options.servers && this.options.servers.length > 0) {
+            document.servers = this.options.servers.map((url) => ({ url }))
+        }
+        if (tags.size > 0) {
+            document.tags = Array.from(tags).map((name) => ({ name }))
+        }
+
+        return document
+    }
+
+    private buildOperation(
+        route: UniversalRoute,
+        path: string,
+        tags: string[]
+    ): OpenAPIOperationObject {
+        const parameters = this.buildParameters(route, path)
+        const requestBody = this.buildRequestBody(route)
+
+        // A doc comment's first line is the summary, the rest its description
+        const [firstLine, ...otherLines] = (route.docs?.summary ?? '').split(
+            '\n'
+        )
+        const summary = route.summary || firstLine
+        const description = route.description || otherLines.join('\n').trim()
+        const deprecated =
+            route.deprecated || route.docs?.deprecated !== undefined
+
+        return {
+            operationId: this.uniqueOperationId(route.handler),
+            ...(summary ? { summary } : {}),
+            ...(description ? { description } : {}),
+            ...(tags.length > 0 ? { tags } : {}),
+            ...(deprecated ? { deprecated: true } : {}),
+            ...(parameters.length > 0 ? { parameters } : {}),
+            ...(requestBody ? { requestBody } : {}),
+            responses: this.buildResponses(route),
+        }
+    }
+
+    private buildRequestBody(
+        route: UniversalRoute
+    ): OpenAPIOperationObject['requestBody'] | null {
+        const bodyParameters = route.parameters.filter(
+            (param) =>
+                param.location === 'body' ||
+                (!param.location && param.decorator === 'Body')
+        )
+        if (bodyParameters.length === 0) return null
+
+        // @Body() dto: CreateUserDto or a typed req.body describes the whole
+        // body; individual fields (req.body.name) are assembled into an object
+        const [first] = bodyParameters
+        const wholeBody =
+            bodyParameters.length === 1 &&
+            first &&
+            (first.name === 'body' ||
+                (first.decorator === 'Body' &&
+                    !PRIMITIVE_TYPES.includes(first.type)))
+                ? first
+                : null
+
+        const schema: OpenAPISchemaObject = wholeBody
+            ? this.getParameterSchema(wholeBody)
+            : {
+                  type: 'object',
+                  properties: Object.fromEntries(
+                      bodyParameters.map((param) => [
+                          param.name,
+                          this.getParameterSchema(param),
+                      ])
+                  ),
+              }
+        const required = bodyParameters
+            .filter((param) => !param.optional)
+            .map((param) => param.name)
+        if (!wholeBody && required.length > 0) schema.required = required
+
+        const description = bodyParameters.find(
+            (param) => param.description
+        )?.description
+        const example = wholeBody?.example
+
+        return {
+            ...(description ? { description } : {}),
+            required: bodyParameters.some((param) => !param.optional),
+            content: {
+                'application/json': {
+                    schema,
+                    ...(example !== undefined ? { example } : {}),
+                },
+            },
+        }
+    }
+
+    private buildResponses(
+        route: UniversalRoute
+    ): Record<string, OpenAPIResponseObject> {
+        const responses: RouteResponse[] = route.responses?.length
+            ? route.responses
+            : [
+                  {
+                      statusCode:
+                          route.method.toUpperCase() === 'POST' ? '201' : '200',
+                      type: 'void',
+                  },
+              ]
+
+        const result: Record<string, OpenAPIResponseObject> = {}
+        for (const response of responses) {
+            const schema =
+                response.schema ??
+                (response.type === 'void'
+                    ? null
+                    : this.typeToSchema(response.type))
+
+            // @returns describes what a successful call sends back
+            const returns = response.statusCode.startsWith('2')
+                ? route.docs?.returns
+                : undefined
+
+            result[response.statusCode] = {
+                description:
+                    response.description ||
+                    returns ||
+                    STATUS_DESCRIPTIONS[response.statusCode] ||
+                    'Successful response',
+                ...(schema
+                    ? {
+                          content: {
+                              'application/json': {
+                                  schema,
+                                  ...(response.example !== undefined
+                                      ? { example: response.example }
+                                      : {}),
+                              },
+                          },
+                      }
+                    : {}),
+            }
+        }
+        return result
+    }
+
+    private buildParameters(
+        route: UniversalRoute,
+        path: string
+    ): OpenAPIParameterObject[] {
+        const parameters: OpenAPIParameterObject[] = []
+
+        for (const param of route.parameters) {
+            const location = this.getParameterLocation(param)
+            if (!location) continue
+
+            // A query DTO is expanded into one parameter per property
+            const schema = this.getParameterSchema(param)
+            const querySchema =
+                location === 'query' ? this.dereference(schema) : null
+            if (querySchema?.properties) {
+                for (const [name, propertySchema] of Object.entries(
+                    querySchema.properties
+                )) {
+                    parameters.push({
+                        name,
+                        in: 'query',
+                        required: !!querySchema.required?.includes(name),
+                        schema: propertySchema,
+                    })
+                }
+                continue
+            }
+
+            parameters.push({
+                name: param.name,
+                in: location,
+                required: location === 'path' || !param.optional,
+                ...(param.description
+                    ? { description: param.description }
+                    : {}),
+                ...(param.example !== undefined
+                    ? { example: param.example }
+                    : {}),
+                schema,
+            })
+        }
+
+        // OpenAPI requires every templated path segment to be declared
+        const templateNames = Array.from(path.matchAll(/\{([^}]+)\}/g)).map(
+            (match) => match[1] || ''
+        )
+        for (const name of templateNames) {
+            const declared = parameters.some(
+                (param) => param.in === 'path' && param.name === name
+            )
+            if (!declared) {
+                parameters.push({
+                    name,
+                    in: 'path',
+                    required: true,
+                    schema: { type: 'string' },
+                })
+            }
+        }
+
+        return parameters
+    }
+
+    private getParameterLocation(
+        param: Parameter
+    ): OpenAPIParameterObject['in'] | null {
+        if (param.location) {
+            return param.location === 'body' ? null : param.location
+        }
+
+        // Analyses saved before locations were recorded
+        switch (param.decorator) {
+            case 'Param':
+                return 'path'
+            case 'Query':
+                return 'query'
+            case 'Headers':
+                return 'header'
+            default:
+                return null
+        }
+    }
+
+    private getParameterSchema(param: Parameter): OpenAPISchemaObject {
+        return param.schema ?? this.typeToSchema(param.type)
+    }
+
+    // Follow a $ref into components.schemas
+    private dereference(schema: OpenAPISchemaObject): OpenAPISchemaObject {
+        const name = schema.$ref?.replace('#/components/schemas/', '')
+        return (name && this.components[name]) || schema
+    }
+
+    private buildSchemas(
+        types: UniversalType[]
+    ): Record<string, OpenAPISchemaObject> {
+        const schemas: Record<string, OpenAPISchemaObject> = {}
+
+        for (const type of types) {
+            if (schemas[type.name]) continue
+
+            if (type.schema) {
+                schemas[type.name] = type.schema
+                continue
+            }
+
+            // Analyses saved before schemas were resolved
+            if (type.type === 'enum') {
+                schemas[type.name] = {
+                    type: 'string',
+                    enum: type.properties.map((member) => member.name),
+                }
+                continue
+            }
+
+            schemas[type.name] = this.propertiesToSchema(type.properties)
+        }
+
+        return schemas
+    }
+
+    private propertiesToSchema(properties: Property[]): OpenAPISchemaObject {
+        const schema: OpenAPISchemaObject = { type: 'object', properties: {} }
+        const required: string[] = []
+
+        for (const property of properties) {
+            schema.properties![property.name] = {
+                ...this.typeToSchema(property.type),
+                ...property.constraints,
+            }
+            if (!property.optional) required.push(property.name)
+        }
+
+        if (required.length > 0) schema.required = required
+        return schema
+    }
+
+    private typeToSchema(typeText: string): OpenAPISchemaObject {
+        const type = typeText.trim()
+
+        const promiseMatch = type.match(/^(?:Promise|Observable)<(.+)>$/)
+        if (promiseMatch) return this.typeToSchema(promiseMatch[1] || 'any')
+
+        const arrayMatch =
+            type.match(/^(.+)\[\]$/) || type.match(/^Array<(.+)>$/)
+        if (arrayMatch) {
+            return {
+                type: 'array',
+                items: this.typeToSchema(arrayMatch[1] || 'any'),
+            }
+        }
+
+        const literals = type.split('|').map((part) => part.trim())
+        if (
+            literals.length > 1 &&
+            literals.every((part) => /^(['"]).*\1$/.test(part))
+        ) {
+            return {
+                type: 'string',
+                enum: literals.map((part) => part.slice(1, -1)),
+            }
+        }
+
+        switch (type) {
+            case 'string':
+                return { type: 'string' }
+            case 'number':
+                return { type: 'number' }
+            case 'boolean':
+                return { type: 'boolean' }
+            case 'Date':
+                return { type: 'string', format: 'date-time' }
+            case 'object':
+            case 'Record<string, any>':
+                return { type: 'object' }
+            case 'null':
+                return { type: 'null' }
+        }
+
+        if (this.types.has(type) || this.components[type]) {
+            return { $ref: `#/components/schemas/${type}` }
+        }
+
+        return {}
+    }
+
+    private toOpenAPIPath(path: string): string {
+        const normalized = `/${path}`.replace(/\/+/g, '/')
+        const withParams = normalized.replace(
+            /:([A-Za-z0-9_]+)\??/g,
+            (_match, name: string) => `{${name}}`
+        )
+        return withParams.length > 1 ? withParams.replace(/\/$/, '') : '/'
+    }
+
+    private toOpenAPIMethods(method: string): string[] {
+        const lower = method.toLowerCase()
+        if (lower === 'all') return ALL_METHODS
+        return OPENAPI_METHODS.includes(lower) ? [lower] : []
+    }
+
+    private findControllerName(
+        route: UniversalRoute,
+        result: AnalysisResult
+    ): string | undefined {
+        return result.controllers.find((controller) =>
+            controller.routes.some(
+                (candidate) =>
+                    candidate.path === route.path &&
+                    candidate.method === route.method &&
+                    candidate.handler === route.handler
+            )
+        )?.name
+    }
+
+    private uniqueOperationId(handler: string): string {
+        const base = handler.replace(/[^A-Za-z0-9_]/g, '_') || 'operation'
+        let operationId = base
+        let counter = 2
+        while (this.operationIds.has(operationId)) {
+            operationId = `${base}_${counter++}`
+        }
+        this.operationIds.add(operationId)
+        return operationId
+    }
+}
@@ -1,31 +1,45 @@
 import { Project, SourceFile } from 'ts-morph'
 import {
-    Parameter,
     UniversalController,
     UniversalRoute,
 } from '../../types/universal-types'
+import { ProjectUtils } from '../../utils/project-utils'
+import {
+    RouteCallExtractor,
+    RouteCallResult,
+} from '../generic/route-call-extractor'
+import { RouterMountResolver } from '../generic/router-mount-resolver'
 
 export class ExpressExtractor {
     private project: Project
+    private routeCallExtractor = new RouteCallExtractor()
+    private routerMountResolver = new RouterMountResolver()
 
     constructor(projectPath: string) {
-        this.project = new Project({
-            tsConfigFilePath: `${projectPath}/tsconfig.json`,
-        })
+        this.project = ProjectUtils.createProject(projectPath)
     }
 
     extractRoutes(): UniversalRoute[] {
-        const routes: UniversalRoute[] = []
+        const routeCalls: RouteCallResult = {
+            routes: [],
+            mounts: [],
+            middleware: [],
+            routerPrefixes: {},
+        }
         const sourceFiles = this.project.getSourceFiles()
 
         for (const sourceFile of sourceFiles) {
             if (this.shouldSkipFile(sourceFile)) continue
 
-            const expressRoutes = this.extractExpressRoutes(sourceFile)
-            routes.push(...expressRoutes)
+            const fileRouteCalls = this.routeCallExtractor.extract(sourceFile)
+            routeCalls.routes.push(...fileRouteCalls.routes)
+            routeCalls.mounts.push(...fileRouteCalls.mounts)
+            routeCalls.middleware.push(...fileRouteCalls.middleware)
         }
 
-        return routes
+        return this.routerMountResolver
+            .resolve(routeCalls)
+            .filter((route) => route.framework === 'express')
     }
 
     extractControllers(): UniversalController[] {
@@ -34,60 +48,6 @@ export class ExpressExtractor {
         return controllers
     }
 
-    private extractExpressRoutes(sourceFile: SourceFile): UniversalRoute[] {
-        const routes: UniversalRoute[] = []
-        const text = sourceFile.getFullText()
-
-        // Simple regex patterns for Express routes
-        const routePatterns = [
-            /app\.(get|post|put|delete|patch)\(['"`]([^'"`]+)['"`],\s*([^,)]+)/g,
-            /router\.(get|post|put|delete|patch)\(['"`]([^'"`]+)['"`],\s*([^,)]+)/g,
-        ]
-
-        for (const pattern of routePatterns) {
-            let match
-            while ((match = pattern.exec(text)) !== null) {
-                const method = match[1]?.toUpperCase() || 'GET'
-                const path = match[2] || '/'
-                const handler = this.extractHandlerName(match[3] || 'anonymous')
-
-                routes.push({
-                    path,
-                    method,
-                    handler,
-                    middleware: [],
-                    parameters: this.extractParameters(),
-                    framework: 'express',
-                })
-            }
-        }
-
-        return routes
-    }
-
-    private extractHandlerName(handlerCode: string): string {
-        // Extract function name from handler code
-        const arrowMatch = handlerCode.match(/(\w+)\s*=>/)
-        if (arrowMatch) return arrowMatch[1] || 'anonymous'
-
-        const functionMatch = handlerCode.match(/function\s+(\w+)/)
-        if (functionMatch) return functionMatch[1] || 'anonymous'
-
-        const asyncMatch = handlerCode.match(/async\s+(\w+)/)
-        if (asyncMatch) return asyncMatch[1] || 'anonymous'
-
-        return 'anonymous'
-    }
-
-    private extractParameters(): Parameter[] {
-        // Default Express parameters
-        return [
-            { name: 'req', type: 'Request', optional: false },
-            { name: 'res', type: 'Response', optional: false },
-            { name: 'next', type: 'NextFunction', optional: true },
-        ]
-    }
-
     private groupRoutesByFile(routes: UniversalRoute[]): UniversalController[] {
         const fileGroups = new Map<string, UniversalRoute[]>()
 
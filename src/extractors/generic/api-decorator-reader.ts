@@ -0,0 +1,336 @@
+import { ClassDeclaration, Decorator, MethodDeclaration, Node } from 'ts-morph'
+import {
+    JsonSchema,
+    Parameter,
+    ParameterLocation,
+    RouteResponse,
+} from '../../types/universal-types'
+import { AstUtils } from '../../utils/ast-utils'
+import { PropertyDecoratorReader } from './property-decorator-reader'
+import type { TypeSchemaResolver } from './type-schema-resolver'
+
+// What @nestjs/swagger decorators say about a controller method
+export interface ApiOperationMetadata {
+    summary?: string | undefined
+    description?: string | undefined
+    tags: string[]
+    deprecated: boolean
+    parameters: Parameter[]
+    responses: RouteResponse[]
+}
+
+// @ApiOkResponse() and friends with the status code they stand for
+const RESPONSE_DECORATORS: Record<string, string> = {
+    ApiOkResponse: '200',
+    ApiCreatedResponse: '201',
+    ApiAcceptedResponse: '202',
+    ApiNoContentResponse: '204',
+    ApiMovedPermanentlyResponse: '301',
+    ApiFoundResponse: '302',
+    ApiBadRequestResponse: '400',
+    ApiUnauthorizedResponse: '401',
+    ApiForbiddenResponse: '403',
+    ApiNotFoundResponse: '404',
+    ApiMethodNotAllowedResponse: '405',
+    ApiConflictResponse: '409',
+    ApiGoneResponse: '410',
+    ApiPayloadTooLargeResponse: '413',
+    ApiUnprocessableEntityResponse: '422',
+    ApiTooManyRequestsResponse: '429',
+    ApiInternalServerErrorResponse: '500',
+    ApiServiceUnavailableResponse: '503',
+    ApiDefaultResponse: 'default',
+}
+
+// Parameter decorators and the part of the request they document
+const PARAMETER_DECORATORS: Record<string, ParameterLocation> = {
+    ApiParam: 'path',
+    ApiQuery: 'query',
+    ApiHeader: 'header',
+    ApiBody: 'body',
+}
+
+export class ApiDecoratorReader {
+    private schemaResolver: TypeSchemaResolver
+    private propertyReader: PropertyDecoratorReader
+
+    constructor(schemaResolver: TypeSchemaResolver) {
+        this.schemaResolver = schemaResolver
+        this.propertyReader = new PropertyDecoratorReader(schemaResolver)
+    }
+
+    // Controller-level decorators apply to every method, method-level ones
+    // win where both describe the same thing
+    read(
+        method: MethodDeclaration,
+        classDecl: ClassDeclaration
+    ): ApiOperationMetadata {
+        const decorators = [
+            ...classDecl.getDecorators(),
+            ...method.getDecorators(),
+        ]
+        const metadata: ApiOperationMetadata = {
+            tags: [],
+            deprecated: false,
+            parameters: [],
+            responses: [],
+        }
+
+        for (const decorator of decorators) {
+            const name = decorator.getName()
+            const options = this.getOptions(decorator)
+
+            if (name === 'ApiTags') {
+                for (const arg of decorator.getArguments()) {
+                    const tag = AstUtils.resolveStringValue(arg)
+                    if (tag && !metadata.tags.includes(tag)) {
+                        metadata.tags.push(tag)
+                    }
+                }
+            } else if (name === 'ApiOperation' && options) {
+                if (typeof options['summary'] === 'string') {
+                    metadata.summary = options['summary']
+                }
+                if (typeof options['description'] === 'string') {
+                    metadata.description = options['description']
+                }
+                if (options['deprecated'] === true) metadata.deprecated = true
+            } else if (name === 'ApiResponse' || RESPONSE_DECORATORS[name]) {
+                const response = this.readResponse(decorator, options)
+                if (!response) continue
+                metadata.responses = [
+                    ...metadata.responses.filter(
+                        (existing) =>
+                            existing.statusCode !== response.statusCode
+                    ),
+                    response,
+                ]
+            } else if (PARAMETER_DECORATORS[name]) {
+                const parameter = this.readParameter(decorator, options)
+                if (!parameter) continue
+                metadata.parameters = [
+                    ...metadata.parameters.filter(
+                        (existing) => !this.isSameParameter(existing, parameter)
+                    ),
+                    parameter,
+                ]
+            }
+        }
+
+        return metadata
+    }
+
+    // Documented parameters refine the ones found in the signature; the
+    // rest (e.g. a query read through @Req()) are added
+    mergeParameters(
+        inferred: Parameter[],
+        documented: Parameter[]
+    ): Parameter[] {
+        const merged = inferred.map((param) => ({ ...param }))
+
+        for (const parameter of documented) {
+            // @ApiBody() describes whatever @Body() receives
+            const existing = merged.find((param) =>
+                parameter.location === 'body'
+                    ? param.location === 'body'
+                    : this.isSameParameter(param, parameter)
+            )
+            if (!existing) {
+                // Untyped @ApiParam/@ApiQuery/@ApiHeader default to strings
+                merged.push(
+                    parameter.schema || parameter.location === 'body'
+                        ? parameter
+                        : {
+                              ...parameter,
+                              type: 'string',
+                              schema: { type: 'string' },
+                          }
+                )
+                continue
+            }
+
+            if (parameter.description) {
+                existing.description = parameter.description
+            }
+            if (parameter.example !== undefined) {
+                existing.example = parameter.example
+            }
+            if (parameter.schema) {
+                existing.schema = parameter.schema
+                existing.type = parameter.type
+            }
+            if (parameter.location !== 'body') {
+                existing.optional = parameter.optional
+            }
+        }
+
+        return merged
+    }
+
+    // Documented status codes replace inferred ones, keeping the inferred
+    // schema when the decorator names no type
+    mergeResponses(
+        inferred: RouteResponse[],
+        documented: RouteResponse[]
+    ): RouteResponse[] {
+        if (documented.length === 0) return inferred
+
+        const merged = inferred.filter(
+            (response) =>
+                !documented.some(
+                    (candidate) => candidate.statusCode === response.statusCode
+                )
+        )
+        for (const response of documented) {
+            const previous = inferred.find(
+                (candidate) => candidate.statusCode === response.statusCode
+            )
+            merged.push(
+                !response.schema && previous?.schema
+                    ? {
+                          ...response,
+                          type: previous.type,
+                          schema: previous.schema,
+                      }
+                    : response
+            )
+        }
+
+        return merged.sort((a, b) => a.statusCode.localeCompare(b.statusCode))
+    }
+
+    // @ApiResponse({ status: 404, description, type: ErrorDto })
+    // @ApiOkResponse({ type: [User] })
+    private readResponse(
+        decorator: Decorator,
+        options: Record<string, unknown> | null
+    ): RouteResponse | null {
+        const status =
+            RESPONSE_DECORATORS[decorator.getName()] ??
+            (options && ['number', 'string'].includes(typeof options['status'])
+                ? String(options['status'])
+                : null)
+        if (!status) return null
+
+        const schema = this.getSchema(decorator)
+        const example = this.getExample(options)
+
+        return {
+            statusCode: status,
+            type: schema ? this.schemaResolver.describe(schema) : 'void',
+            ...(typeof options?.['description'] === 'string'
+                ? { description: options['description'] }
+                : {}),
+            ...(schema ? { schema } : {}),
+            ...(example !== undefined ? { example } : {}),
+        }
+    }
+
+    // @ApiParam({ name: 'id', description, example }), @ApiQuery(...),
+    // @ApiHeader(...), @ApiBody({ type: CreateUserDto })
+    private readParameter(
+        decorator: Decorator,
+        options: Record<string, unknown> | null
+    ): Parameter | null {
+        const location = PARAMETER_DECORATORS[decorator.getName()]!
+        const name =
+            location === 'body'
+                ? 'body'
+                : typeof options?.['name'] === 'string'
+                ? options['name']
+                : null
+        if (!name) return null
+
+        const schema = this.getSchema(decorator)
+        const example = this.getExample(options)
+        // Path parameters are always required, headers only when marked so
+        const optional =
+            location === 'path'
+                ? false
+                : location === 'header'
+                ? options?.['required'] !== true
+                : options?.['required'] === false
+
+        return {
+            name,
+            type: schema ? this.schemaResolver.describe(schema) : 'any',
+            optional,
+            decorator: decorator.getName(),
+            location,
+            ...(schema ? { schema } : {}),
+            ...(typeof options?.['description'] === 'string'
+                ? { description: options['description'] }
+                : {}),
+            ...(example !== undefined ? { example } : {}),
+        }
+    }
+
+    // type: User / type: [User] / type: () => User, isArray, enum or a
+    // literal JSON schema
+    private getSchema(decorator: Decorator): JsonSchema | null {
+        const [optionsNode] = decorator.getArguments()
+        const object = optionsNode
+            ? AstUtils.unwrapExpression(optionsNode)
+            : undefined
+        if (!object || !Node.isObjectLiteralExpression(object)) return null
+
+        const option = (name: string): Node | undefined => {
+            const property = object.getProperty(name)
+            return property && Node.isPropertyAssignment(property)
+                ? property.getInitializer()
+                : undefined
+        }
+
+        const typeNode = option('type')
+        const enumNode = option('enum')
+        const schemaNode = option('schema')
+        // type: 'string'
+        const typeName = typeNode ? AstUtils.resolveStringValue(typeNode) : null
+        let schema =
+            (typeName && { type: typeName }) ||
+            (typeNode && this.propertyReader.resolveTypeFactory(typeNode)) ||
+            (enumNode && this.propertyReader.resolveEnum(enumNode)) ||
+            null
+
+        if (!schema && schemaNode) {
+            const literal = AstUtils.resolveLiteralValue(schemaNode)
+            if (literal && typeof literal === 'object') {
+                schema = literal as JsonSchema
+            }
+        }
+
+        const isArray = option('isArray')
+        if (schema && isArray && isArray.getText() === 'true') {
+            schema = { type: 'array', items: schema }
+        }
+        return schema
+    }
+
+    // example: {...} or the first of examples: { name: { value } }
+    private getExample(options: Record<string, unknown> | null): unknown {
+        if (!options) return undefined
+        if (options['example'] !== undefined) return options['example']
+
+        const examples = options['examples']
+        if (!examples || typeof examples !== 'object') return undefined
+
+        const [first] = Object.values(examples as Record<string, unknown>)
+        return first && typeof first === 'object' && 'value' in first
+            ? (first as { value: unknown }).value
+            : undefined
+    }
+
+    private getOptions(decorator: Decorator): Record<string, unknown> | null {
+        const [optionsNode] = decorator.getArguments()
+        const options = optionsNode
+            ? AstUtils.resolveLiteralValue(optionsNode)
+            : undefined
+        return options && typeof options === 'object' && !Array.isArray(options)
+            ? (options as Record<string, unknown>)
+            : null
+    }
+
+    private isSameParameter(a: Parameter, b: Parameter): boolean {
+        return a.location === b.location && a.name === b.name
+    }
+}
@@ -0,0 +1,111 @@
+import { JSDoc, JSDocTag, Node, SyntaxKind } from 'ts-morph'
+import { DocComment } from '../../types/universal-types'
+
+// How far a function expression's comment can sit above it:
+// arrow -> declaration -> declaration list -> variable statement
+const MAX_HOST_DEPTH = 4
+
+export class DocCommentReader {
+    private enabled = true
+
+    // analysis.includeComments
+    setEnabled(enabled: boolean): void {
+        this.enabled = enabled
+    }
+
+    // The comment closest to a declaration; function expressions use the
+    // comment of the variable statement declaring them
+    read(node: Node): DocComment | undefined {
+        if (!this.enabled) return undefined
+
+        const jsDoc = this.findJsDoc(node)
+        return jsDoc ? this.parse(jsDoc) : undefined
+    }
+
+    // router.get('/users', listUsers) documented where the route is added
+    readStatement(node: Node): DocComment | undefined {
+        const statement = node.getFirstAncestorByKind(
+            SyntaxKind.ExpressionStatement
+        )
+        return statement ? this.read(statement) : undefined
+    }
+
+    // Summary only, used as a JSON Schema description
+    getDescription(node: Node): string | undefined {
+        return this.read(node)?.summary
+    }
+
+    private findJsDoc(node: Node): JSDoc | undefined {
+        let current: Node | undefined = node
+
+        for (let depth = 0; current && depth < MAX_HOST_DEPTH; depth++) {
+            if (Node.isJSDocable(current)) {
+                const jsDocs = current.getJsDocs()
+                if (jsDocs.length > 0) return jsDocs[jsDocs.length - 1]
+            }
+
+            const parent: Node | undefined = current.getParent()
+            if (
+                !parent ||
+                !(
+                    Node.isVariableDeclaration(parent) ||
+                    Node.isVariableDeclarationList(parent) ||
+                    Node.isVariableStatement(parent) ||
+                    Node.isExportAssignment(parent)
+                )
+            ) {
+                break
+            }
+            current = parent
+        }
+
+        return undefined
+    }
+
+    private parse(jsDoc: JSDoc): DocComment | undefined {
+        const doc: DocComment = {}
+        const summary = jsDoc.getDescription().trim()
+        if (summary) doc.summary = summary
+
+        for (const tag of jsDoc.getTags()) {
+            const text = this.getTagText(tag)
+
+            switch (tag.getTagName()) {
+                case 'param':
+                    if (Node.isJSDocParameterTag(tag) && text) {
+                        doc.params = { ...doc.params, [tag.getName()]: text }
+                    }
+                    break
+                case 'returns':
+                case 'return':
+                    if (text) doc.returns = text
+                    break
+                case 'throws':
+                case 'exception':
+                    if (text) doc.throws = [...(doc.throws ?? []), text]
+                    break
+                case 'deprecated':
+                    doc.deprecated = text
+                    break
+                case 'example':
+                    if (text) doc.examples = [...(doc.examples ?? []), text]
+                    break
+            }
+        }
+
+        return Object.keys(doc).length > 0 ? doc : undefined
+    }
+
+    // '@param id - The user id' -> 'The user id';
+    // '@throws {NotFoundException} when missing' keeps the type
+    private getTagText(tag: JSDocTag): string {
+        const comment = (tag.getCommentText() ?? '').trim().replace(/^-\s*/, '')
+        if (!Node.isJSDocThrowsTag(tag)) return comment
+
+        const typeExpression = tag.getTypeExpression()
+        const type = typeExpression
+            ? typeExpression.getText().replace(/^\{|\}$/g, '')
+            : ''
+        return [type, comment].filter(Boolean).join(' ')
+    }
+}
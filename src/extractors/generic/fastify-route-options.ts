@@ -0,0 +1,215 @@
+import { Node, ObjectLiteralExpression } from 'ts-morph'
+import {
+    JsonSchema,
+    ParameterLocation,
+    RouteResponse,
+} from '../../types/universal-types'
+import { AstUtils } from '../../utils/ast-utils'
+import { RequestSchema } from './request-parameter-inferrer'
+import { TypeSchemaResolver } from './type-schema-resolver'
+import { TypeBoxSchemaReader } from './typebox-schema-reader'
+import { ZodSchemaReader } from './zod-schema-reader'
+
+// fastify.route({ method, url, handler, ... })
+export interface FastifyRouteDefinition {
+    methods: string[]
+    paths: string[]
+    handler: Node | undefined
+}
+
+// Request parts a route schema can describe
+const SCHEMA_LOCATIONS: Record<string, ParameterLocation> = {
+    params: 'path',
+    querystring: 'query',
+    query: 'query',
+    headers: 'header',
+    body: 'body',
+}
+
+// Hooks that run before the handler, in the order fastify runs them
+const REQUEST_HOOKS = ['onRequest', 'preParsing', 'preValidation', 'preHandler']
+
+export class FastifyRouteOptions {
+    private schemaResolver: TypeSchemaResolver
+    private zodReader: ZodSchemaReader
+    private typeBoxReader: TypeBoxSchemaReader
+
+    constructor(schemaResolver: TypeSchemaResolver) {
+        this.schemaResolver = schemaResolver
+        this.zodReader = new ZodSchemaReader(schemaResolver)
+        this.typeBoxReader = new TypeBoxSchemaReader(schemaResolver)
+    }
+
+    isRequestHook(name: string): boolean {
+        return REQUEST_HOOKS.includes(name)
+    }
+
+    readRouteDefinition(options: Node): FastifyRouteDefinition | null {
+        const object = this.asObject(options)
+        if (!object) return null
+
+        const method = this.getOption(object, 'method')
+        const url =
+            this.getOption(object, 'url') ?? this.getOption(object, 'path')
+        const methods = method ? AstUtils.resolveLiteralValue(method) : null
+        const path = url ? AstUtils.resolveStringValue(url) : null
+        if (!methods || path === null) return null
+
+        return {
+            methods: (Array.isArray(methods) ? methods : [methods])
+                .filter((value): value is string => typeof value === 'string')
+                .map((value) => value.toUpperCase()),
+            paths: [path],
+            handler: this.getOption(object, 'handler'),
+        }
+    }
+
+    // fastify.get('/users', { handler }) keeps the handler in the options
+    getHandler(options: Node): Node | undefined {
+        const object = this.asObject(options)
+        return object ? this.getOption(object, 'handler') : undefined
+    }
+
+    // onRequest: auth, preHandler: [validate, audit]
+    getHooks(options: Node): Node[] {
+        const object = this.asObject(options)
+        if (!object) return []
+
+        return REQUEST_HOOKS.flatMap((hook) => {
+            const value = this.getOption(object, hook)
+            if (!value) return []
+
+            const expression = AstUtils.unwrapExpression(value)
+            return Node.isArrayLiteralExpression(expression)
+                ? expression.getElements()
+                : [expression]
+        })
+    }
+
+    // schema: { params, querystring, headers, body }
+    getRequestSchemas(options: Node): RequestSchema[] {
+        const schemaObject = this.getSchemaObject(options)
+        if (!schemaObject) return []
+
+        const schemas: RequestSchema[] = []
+        for (const [key, location] of Object.entries(SCHEMA_LOCATIONS)) {
+            const value = this.getOption(schemaObject, key)
+            if (!value) continue
+
+            const { schema, type } = this.convertSchema(value)
+            if (Object.keys(schema).length > 0) {
+                schemas.push({ location, schema, type })
+            }
+        }
+        return schemas
+    }
+
+    // schema: { response: { 200: { ... }, '4xx': ErrorSchema } }
+    getResponses(options: Node): RouteResponse[] {
+        const schemaObject = this.getSchemaObject(options)
+        const responseMap = schemaObject
+            ? this.getOption(schemaObject, 'response')
+            : undefined
+        const responseObject = responseMap ? this.asObject(responseMap) : null
+        if (!responseObject) return []
+
+        const responses: RouteResponse[] = []
+        for (const property of responseObject.getProperties()) {
+            if (!Node.isPropertyAssignment(property)) continue
+
+            const nameNode = property.getNameNode()
+            const statusCode =
+                Node.isStringLiteral(nameNode) ||
+                Node.isNumericLiteral(nameNode)
+                    ? String(nameNode.getLiteralValue())
+                    : nameNode.getText()
+            const initializer = property.getInitializer()
+            if (!initializer) continue
+
+            const { schema, type } = this.convertSchema(initializer)
+            responses.push({
+                statusCode,
+                type,
+                description:
+                    typeof schema.description === 'string'
+                        ? schema.description
+                        : undefined,
+                schema,
+            })
+        }
+
+        return responses
+    }
+
+    // Plain JSON Schema objects, TypeBox and zod (type providers)
+    private convertSchema(node: Node): { schema: JsonSchema; type: string } {
+        const expression = AstUtils.unwrapExpression(node)
+
+        const reader = this.zodReader.isSchema(expression)
+            ? this.zodReader
+            : this.typeBoxReader.isSchema(expression)
+            ? this.typeBoxReader
+            : null
+        if (reader) {
+            const { schema } = reader.convert(expression)
+            return { schema, type: this.schemaResolver.describe(schema) }
+        }
+
+        const resolved = AstUtils.resolveLiteralValue(expression)
+        const schema =
+            resolved && typeof resolved === 'object' && !Array.isArray(resolved)
+                ? (resolved as JsonSchema)
+                : {}
+
+        return {
+            schema,
+            // Named schemas keep their name; inline ones their JSON type
+            type: Node.isIdentifier(expression)
+                ? expression.getText()
+                : typeof schema.type === 'string'
+                ? schema.type
+                : 'any',
+        }
+    }
+
+    private getSchemaObject(options: Node): ObjectLiteralExpression | null {
+        const object = this.asObject(options)
+        const schema = object ? this.getOption(object, 'schema') : undefined
+        return schema ? this.asObject(schema) : null
+    }
+
+    private asObject(node: Node): ObjectLiteralExpression | null {
+        let expression = AstUtils.unwrapExpression(node)
+
+        // const routeOptions = { schema, handler }
+        if (Node.isIdentifier(expression)) {
+            const declaration = AstUtils.getDeclarations(expression).find(
+                (candidate) => Node.isVariableDeclaration(candidate)
+            )
+            const initializer =
+                declaration && Node.isVariableDeclaration(declaration)
+                    ? declaration.getInitializer()
+                    : undefined
+            if (initializer) expression = AstUtils.unwrapExpression(initializer)
+        }
+
+        return Node.isObjectLiteralExpression(expression) ? expression : null
+    }
+
+    private getOption(
+        object: ObjectLiteralExpression,
+        name: string
+    ): Node | undefined {
+        const property = object.getProperty(name)
+        if (property && Node.isPropertyAssignment(property)) {
+            return property.getInitializer()
+        }
+        // { handler, schema } shorthand
+        if (property && Node.isShorthandPropertyAssignment(property)) {
+            return property.getNameNode()
+        }
+        // { async handler(request, reply) { ... } }
+        if (property && Node.isMethodDeclaration(property)) return property
+        return undefined
+    }
+}
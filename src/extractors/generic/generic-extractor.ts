@@ -1,24 +1,199 @@
+import { relative } from 'path'
 import {
     ClassDeclaration,
+    Decorator,
     MethodDeclaration,
+    Node,
+    ParameterDeclaration,
     Project,
     SourceFile,
+    TypeAliasDeclaration,
+    VariableDeclaration,
 } from 'ts-morph'
+import type { AnalysisConfig } from '../../config/config'
+import { AnalysisCache } from '../../core/analysis-cache'
+import { FrameworkImportScanner } from '../../core/framework-import-scanner'
 import {
+    FrameworkRegistry,
+    FrameworkRouteExtractor,
+    frameworkRegistry,
+} from '../../core/framework-registry'
+import { RouteMerger } from '../../core/route-merger'
+import { SchemaMerger } from '../../core/schema-merger'
+import {
+    CacheStats,
+    DocComment,
+    JsonSchema,
     Parameter,
+    ParameterLocation,
+    Property,
+    RouteConflict,
+    RouteFramework,
+    RouteResponse,
     UniversalController,
+    UniversalEvent,
+    UniversalMessage,
+    UniversalOperation,
     UniversalRoute,
     UniversalService,
     UniversalType,
 } from '../../types/universal-types'
+import { AstUtils } from '../../utils/ast-utils'
+import { ProjectUtils } from '../../utils/project-utils'
+import { ApiDecoratorReader } from './api-decorator-reader'
+import { DocCommentReader } from './doc-comment-reader'
+import { GraphQLResolverExtractor } from './graphql-resolver-extractor'
+import { MessageHandlerExtractor } from './message-handler-extractor'
+import { NestRouteResolver } from './nest-route-resolver'
+import { NextRouteExtractor } from './next-route-extractor'
+import { PropertyDecoratorReader } from './property-decorator-reader'
+import { EXPRESS_RESPONSE_SHAPE, ResponseInferrer } from './response-inferrer'
+import { RouteCallExtractor, RouteCallResult } from './route-call-extractor'
+import { RouterMountResolver } from './router-mount-resolver'
+import { TrpcRouterExtractor } from './trpc-router-extractor'
+import { TypeSchemaResolver } from './type-schema-resolver'
+import { WebSocketEventExtractor } from './websocket-event-extractor'
+import { ZodSchemaReader } from './zod-schema-reader'
+
+// NestJS route decorators and the HTTP method they register
+const ROUTE_DECORATORS: Record<string, string> = {
+    Get: 'GET',
+    Post: 'POST',
+    Put: 'PUT',
+    Delete: 'DELETE',
+    Patch: 'PATCH',
+    Head: 'HEAD',
+    Options: 'OPTIONS',
+    Search: 'SEARCH',
+    All: 'ALL',
+    // Server-sent event streams are plain GET endpoints
+    Sse: 'GET',
+}
+
+// NestJS decorators that attach guards, interceptors and pipes to routes
+const ENHANCER_DECORATORS = ['UseGuards', 'UseInterceptors', 'UsePipes']
+
+// Class decorators that mark persistence or API models rather than providers
+const DATA_CLASS_DECORATORS = [
+    'Entity',
+    'Schema',
+    'ObjectType',
+    'InputType',
+    'ArgsType',
+    'Exclude',
+    'Expose',
+]
+
+// Naming conventions for classes that only carry data
+const DATA_CLASS_NAME =
+    /(Dto|DTO|Entity|Model|Input|Args|Payload|Request|Response|Query|Params|Body)$/
+
+// Calls and decorators configuring NestJS routes outside the controllers
+const NEST_ROUTING_SETUP =
+    /setGlobalPrefix|enableVersioning|RouterModule|@Module\(/
+
+// Cache entry for the extractors reading across files
+const PROJECT_CACHE_NAME = '#project'
+
+// What one file yields before mount prefixes are applied
+interface FileExtraction {
+    controllers: UniversalController[]
+    routes: UniversalRoute[]
+    routeCalls: RouteCallResult
+    operations: UniversalOperation[]
+    events: UniversalEvent[]
+    messages: UniversalMessage[]
+    services: UniversalService[]
+    types: UniversalType[]
+}
+
+interface ProjectExtraction {
+    routes: UniversalRoute[]
+}
+
+// A cached extraction with the schema definitions it refers to
+interface CachedExtraction<T> {
+    extraction: T
+    schemas: Record<string, JsonSchema>
+}
+
+// NestJS parameter decorators and the part of the request they read
+const PARAMETER_LOCATIONS: Record<string, ParameterLocation> = {
+    Param: 'path',
+    Query: 'query',
+    Body: 'body',
+    Headers: 'header',
+}
 
 export class GenericExtractor {
+    private projectPath: string
     private project: Project
-
-    constructor(projectPath: string) {
-        this.project = new Project({
-            tsConfigFilePath: `${projectPath}/tsconfig.json`,
-        })
+    private includeComments: boolean
+    private cacheEnabled: boolean
+    private pluginNames: string[]
+    private docReader = new DocCommentReader()
+    private schemaResolver = new TypeSchemaResolver(this.docReader)
+    private decoratorReader = new PropertyDecoratorReader(this.schemaResolver)
+    private zodReader = new ZodSchemaReader(this.schemaResolver)
+    private routeCallExtractor = new RouteCallExtractor(
+        this.schemaResolver,
+        this.docReader
+    )
+    private websocketExtractor = new WebSocketEventExtractor(
+        this.schemaResolver,
+        this.docReader
+    )
+    private messageExtractor = new MessageHandlerExtractor(
+        this.schemaResolver,
+        this.docReader
+    )
+    private nextRouteExtractor: NextRouteExtractor
+    private pluginExtractors: FrameworkRouteExtractor[]
+    private importScanner: FrameworkImportScanner
+    private trpcExtractor = new TrpcRouterExtractor(
+        this.schemaResolver,
+        this.docReader
+    )
+    private routerMountResolver = new RouterMountResolver()
+    private nestRouteResolver = new NestRouteResolver()
+    private apiDecoratorReader = new ApiDecoratorReader(this.schemaResolver)
+    private graphqlExtractor = new GraphQLResolverExtractor(
+        this.schemaResolver,
+        this.docReader
+    )
+    // @Res() hands NestJS handlers the underlying express response
+    private responseInferrer = new ResponseInferrer(
+        EXPRESS_RESPONSE_SHAPE,
+        this.schemaResolver
+    )
+
+    constructor(
+        projectPath: string,
+        options: Partial<AnalysisConfig> = {},
+        registry: FrameworkRegistry = frameworkRegistry,
+        // Passed in to reuse a project kept in memory
+        project: Project = ProjectUtils.createProject(projectPath)
+    ) {
+        this.projectPath = projectPath
+        this.project = project
+        this.includeComments = options.includeComments ?? true
+        this.docReader.setEnabled(this.includeComments)
+        this.cacheEnabled = options.cache ?? true
+        // Next.js derives paths from where route files sit in the project
+        this.nextRouteExtractor = new NextRouteExtractor(
+            projectPath,
+            this.schemaResolver,
+            this.docReader
+        )
+        this.importScanner = new FrameworkImportScanner(registry)
+        this.pluginNames = registry.getPlugins().map((plugin) => plugin.name)
+        this.pluginExtractors = registry.getPlugins().map((plugin) =>
+            plugin.createExtractor({
+                projectPath,
+                schemaResolver: this.schemaResolver,
+                docReader: this.docReader,
+            })
+        )
     }
 
     extractAll(): {
@@ -26,82 +201,243 @@ export class GenericExtractor {
         controllers: UniversalController[]
         services: UniversalService[]
         types: UniversalType[]
+        operations: UniversalOperation[]
+        events: UniversalEvent[]
+        messages: UniversalMessage[]
+        schemas: Record<string, JsonSchema>
+        routeConflicts: RouteConflict[]
+        cache?: CacheStats
     } {
         const sourceFiles = this.project.getSourceFiles()
-        const routes: UniversalRoute[] = []
-        const controllers: UniversalController[] = []
-        const services: UniversalService[] = []
-        const types: UniversalType[] = []
+        const projectFiles = sourceFiles.filter(
+            (sourceFile) => !this.shouldSkipFile(sourceFile)
+        )
 
-        for (const sourceFile of sourceFiles) {
-            if (this.shouldSkipFile(sourceFile)) continue
+        const cache = this.cacheEnabled
+            ? new AnalysisCache(
+                  this.projectPath,
+                  this.getCacheKeyParts(projectFiles)
+              )
+            : null
+        // Declaration files outside node_modules also shape the types read
+        const fileKeys = cache?.getFileKeys(
+            sourceFiles.filter(
+                (sourceFile) =>
+                    !sourceFile.getFilePath().includes('/node_modules/')
+            )
+        )
+        const getCached = <T>(name: string, key: string | undefined) =>
+            cache && key ? cache.get<CachedExtraction<T>>(name, key) : undefined
+
+        const cachedFiles = new Map<
+            SourceFile,
+            CachedExtraction<FileExtraction>
+        >()
+        for (const sourceFile of projectFiles) {
+            const cached = getCached<FileExtraction>(
+                this.getCacheName(sourceFile),
+                fileKeys?.get(sourceFile)
+            )
+            if (cached) cachedFiles.set(sourceFile, cached)
+        }
 
-            // Extract controllers (classes with methods) - this gives us the most accurate routes
-            const fileControllers = this.extractControllers(sourceFile)
-            controllers.push(...fileControllers)
+        // Global prefix, versioning and RouterModule paths shape every
+        // controller route, wherever they are configured
+        if (cachedFiles.size < projectFiles.length) {
+            this.nestRouteResolver.collect(projectFiles)
+        }
 
-            // Extract routes from controllers (more accurate than regex)
-            fileControllers.forEach((controller) => {
-                routes.push(...controller.routes)
-            })
+        // Definitions each extraction adds, stored with it even when
+        // nothing refers to them
+        const registered = new Map<SourceFile | string, string[]>()
+        const track = <T>(owner: SourceFile | string, extract: () => T) => {
+            if (!cache) return extract()
 
-            // Fallback: Extract routes from any pattern for non-controller routes
-            routes.push(...this.extractRoutes(sourceFile))
+            const before = new Set(
+                Object.keys(this.schemaResolver.getDefinitions())
+            )
+            const extraction = extract()
+            registered.set(
+                owner,
+                Object.keys(this.schemaResolver.getDefinitions()).filter(
+                    (name) => !before.has(name)
+                )
+            )
+            return extraction
+        }
 
-            // Extract services (classes with business logic)
-            services.push(...this.extractServices(sourceFile))
+        const extractions = projectFiles.map(
+            (sourceFile) =>
+                cachedFiles.get(sourceFile)?.extraction ??
+                track(sourceFile, () => this.extractFile(sourceFile))
+        )
 
-            // Extract types (interfaces, types, enums)
-            types.push(...this.extractTypes(sourceFile))
+        // tRPC routers and plugins read across files, so they are redone
+        // whenever any file changed
+        const projectKey = fileKeys
+            ? cache!.combineKeys(Array.from(fileKeys.values()))
+            : undefined
+        const cachedProject = getCached<ProjectExtraction>(
+            PROJECT_CACHE_NAME,
+            projectKey
+        )
+        const projectExtraction =
+            cachedProject?.extraction ??
+            track(PROJECT_CACHE_NAME, () => this.extractProject(projectFiles))
+
+        // Cached results carry the schemas they refer to, stored before
+        // merging renames any of them
+        const definitions = this.schemaResolver.getDefinitions()
+        const schemaMerger = new SchemaMerger()
+        if (cache) {
+            projectFiles.forEach((sourceFile, index) => {
+                if (cachedFiles.has(sourceFile)) return
+                const extraction = extractions[index]!
+                cache.set(
+                    this.getCacheName(sourceFile),
+                    fileKeys!.get(sourceFile)!,
+                    {
+                        extraction,
+                        schemas: schemaMerger.collectReferenced(
+                            extraction,
+                            definitions,
+                            registered.get(sourceFile)
+                        ),
+                    }
+                )
+            })
+            if (!cachedProject) {
+                cache.set(PROJECT_CACHE_NAME, projectKey!, {
+                    extraction: projectExtraction,
+                    schemas: schemaMerger.collectReferenced(
+                        projectExtraction,
+                        definitions,
+                        registered.get(PROJECT_CACHE_NAME)
+                    ),
+                })
+            }
+            cache.save()
         }
 
-        return { routes, controllers, services, types }
-    }
+        const schemas = { ...definitions }
+        for (const cached of [
+            ...cachedFiles.values(),
+            ...(cachedProject ? [cachedProject] : []),
+        ]) {
+            schemaMerger.merge(cached.schemas, schemas, cached.extraction)
+        }
 
-    private extractRoutes(sourceFile: SourceFile): UniversalRoute[] {
         const routes: UniversalRoute[] = []
-        const text = sourceFile.getFullText()
+        const routeCalls: RouteCallResult = {
+            routes: [],
+            mounts: [],
+            middleware: [],
+            routerPrefixes: {},
+        }
+        for (const extraction of extractions) {
+            // Controller routes come first, then Next.js route files
+            extraction.controllers.forEach((controller) => {
+                routes.push(...controller.routes)
+            })
+            routes.push(...extraction.routes)
+
+            routeCalls.routes.push(...extraction.routeCalls.routes)
+            routeCalls.mounts.push(...extraction.routeCalls.mounts)
+            routeCalls.middleware.push(...extraction.routeCalls.middleware)
+            Object.assign(
+                routeCalls.routerPrefixes,
+                extraction.routeCalls.routerPrefixes
+            )
+        }
 
-        // Generic route patterns that work across frameworks
-        const routePatterns = [
-            // Express patterns
-            /app\.(get|post|put|delete|patch)\(['"`]([^'"`]+)['"`],\s*([^,)]+)/g,
-            /router\.(get|post|put|delete|patch)\(['"`]([^'"`]+)['"`],\s*([^,)]+)/g,
+        // Mounts can live in other files, so prefixes are applied once all are known
+        routes.push(...this.routerMountResolver.resolve(routeCalls))
+        routes.push(...projectExtraction.routes)
 
-            // NestJS patterns
-            /@(Get|Post|Put|Delete|Patch)\(['"`]([^'"`]*)['"`]\)/g,
+        // Strategies can find the same registration more than once
+        const merged = new RouteMerger().merge(routes)
 
-            // Fastify patterns
-            /fastify\.(get|post|put|delete|patch)\(['"`]([^'"`]+)['"`],\s*([^,)]+)/g,
+        return {
+            routes: merged.routes,
+            controllers: extractions.flatMap(
+                (extraction) => extraction.controllers
+            ),
+            services: extractions.flatMap((extraction) => extraction.services),
+            types: extractions.flatMap((extraction) => extraction.types),
+            operations: extractions.flatMap(
+                (extraction) => extraction.operations
+            ),
+            events: extractions.flatMap((extraction) => extraction.events),
+            messages: extractions.flatMap((extraction) => extraction.messages),
+            schemas,
+            routeConflicts: merged.conflicts,
+            ...(cache
+                ? {
+                      cache: {
+                          hits: cachedFiles.size,
+                          misses: projectFiles.length - cachedFiles.size,
+                      },
+                  }
+                : {}),
+        }
+    }
 
-            // Koa patterns
-            /router\.(get|post|put|delete|patch)\(['"`]([^'"`]+)['"`],\s*([^,)]+)/g,
-        ]
+    private extractFile(sourceFile: SourceFile): FileExtraction {
+        return {
+            // Controllers (classes with methods) give the most accurate routes
+            controllers: this.extractControllers(sourceFile),
+            // Next.js API routes (pages/api, app/**/route.ts)
+            routes: this.nextRouteExtractor.extract(sourceFile),
+            // Routes registered through router calls (express, koa, fastify)
+            routeCalls: this.routeCallExtractor.extract(sourceFile),
+            // GraphQL queries, mutations and field resolvers
+            operations: this.graphqlExtractor.extract(sourceFile),
+            // WebSocket gateway and socket.io events
+            events: this.websocketExtractor.extract(sourceFile),
+            // Microservice message and queue job handlers and producers
+            messages: this.messageExtractor.extract(sourceFile),
+            // Classes with business logic
+            services: this.extractServices(sourceFile),
+            // Interfaces, types, enums and schemas
+            types: this.extractTypes(sourceFile),
+        }
+    }
 
-        for (const pattern of routePatterns) {
-            let match
-            while ((match = pattern.exec(text)) !== null) {
-                const method = this.extractMethod(match)
-                const path = this.extractPath(match)
-                const handler = this.extractHandler(match, text)
-
-                if (method && path) {
-                    routes.push({
-                        path,
-                        method,
-                        handler,
-                        middleware: this.extractMiddleware(
-                            text,
-                            match.index || 0
-                        ),
-                        parameters: this.extractRouteParameters(handler),
-                        framework: this.detectFrameworkFromPattern(pattern),
-                    })
-                }
-            }
+    private extractProject(projectFiles: SourceFile[]): ProjectExtraction {
+        return {
+            routes: [
+                // tRPC routers nest routers from other files
+                ...this.trpcExtractor.extract(projectFiles),
+                // Frameworks added through the plugin registry (hono, ...)
+                ...this.pluginExtractors.flatMap((extractor) =>
+                    extractor.extract(projectFiles)
+                ),
+            ],
         }
+    }
 
-        return routes
+    // Whatever changes every file's results: compiler and analysis options,
+    // plugins, and the files setting up NestJS routing for all controllers
+    private getCacheKeyParts(projectFiles: SourceFile[]): string[] {
+        return [
+            JSON.stringify(this.project.getCompilerOptions()),
+            JSON.stringify({ includeComments: this.includeComments }),
+            ...this.pluginNames,
+            ...projectFiles
+                .filter((sourceFile) =>
+                    NEST_ROUTING_SETUP.test(sourceFile.getFullText())
+                )
+                .map(
+                    (sourceFile) =>
+                        `${sourceFile.getFilePath()}\n${sourceFile.getFullText()}`
+                ),
+        ]
+    }
+
+    private getCacheName(sourceFile: SourceFile): string {
+        return relative(this.projectPath, sourceFile.getFilePath())
+            .split('\\')
+            .join('/')
     }
 
     private extractControllers(sourceFile: SourceFile): UniversalController[] {
@@ -115,11 +451,9 @@ export class GenericExtractor {
 
                 for (const method of methods) {
                     if (this.isRouteMethod(method)) {
-                        const route = this.extractRouteFromMethod(
-                            method,
-                            classDecl
+                        routes.push(
+                            ...this.extractRoutesFromMethod(method, classDecl)
                         )
-                        if (route) routes.push(route)
                     }
                 }
 
@@ -129,6 +463,8 @@ export class GenericExtractor {
                         routes,
                         framework: this.detectFrameworkFromClass(classDecl),
                         filePath: sourceFile.getFilePath(),
+                        location: AstUtils.getSourceLocation(classDecl),
+                        ...this.getDocs(classDecl),
                     })
                 }
             }
@@ -143,24 +479,36 @@ export class GenericExtractor {
 
         for (const classDecl of classes) {
             if (this.isServiceClass(classDecl)) {
-                const methods = classDecl.getMethods().map((method) => ({
-                    name: method.getName(),
-                    parameters: method.getParameters().map((param) => ({
-                        name: param.getName(),
-                        type: param.getTypeNode()?.getText() || 'any',
-                        optional: param.hasQuestionToken(),
-                    })),
-                    returnType: method.getReturnTypeNode()?.getText() || 'void',
-                    isPublic:
-                        !method.hasModifier('private') &&
-                        !method.hasModifier('protected'),
-                }))
+                const methods = classDecl.getMethods().map((method) => {
+                    const docs = this.docReader.read(method)
+                    return {
+                        name: method.getName(),
+                        parameters: method.getParameters().map((param) => {
+                            const description = docs?.params?.[param.getName()]
+                            return {
+                                name: param.getName(),
+                                type: param.getTypeNode()?.getText() || 'any',
+                                optional: param.hasQuestionToken(),
+                                ...(description ? { description } : {}),
+                            }
+                        }),
+                        returnType:
+                            method.getReturnTypeNode()?.getText() || 'void',
+                        isPublic:
+                            !method.hasModifier('private') &&
+                            !method.hasModifier('protected'),
+                        location: AstUtils.getSourceLocation(method),
+                        ...(docs ? { docs } : {}),
+                    }
+                })
 
                 services.push({
                     name: classDecl.getName() || 'AnonymousService',
                     methods,
                     filePath: sourceFile.getFilePath(),
+                    location: AstUtils.getSourceLocation(classDecl),
                     framework: this.detectFrameworkFromClass(classDecl),
+                    ...this.getDocs(classDecl),
                 })
             }
         }
@@ -178,25 +526,80 @@ export class GenericExtractor {
                 name: interfaceDecl.getName(),
                 type: 'interface',
                 filePath: sourceFile.getFilePath(),
+                location: AstUtils.getSourceLocation(interfaceDecl),
                 properties: interfaceDecl.getProperties().map((prop) => ({
                     name: prop.getName(),
                     type: prop.getTypeNode()?.getText() || 'any',
                     optional: prop.hasQuestionToken(),
+                    location: AstUtils.getSourceLocation(prop),
+                    ...this.getDocs(prop),
                 })),
+                schema: this.schemaResolver.resolveDeclaration(interfaceDecl),
+                ...this.getDocs(interfaceDecl),
+            })
+        }
+
+        // Extract DTO and entity classes
+        for (const classDecl of sourceFile.getClasses()) {
+            if (!this.isDataClass(classDecl)) continue
+
+            types.push({
+                name: classDecl.getName() || 'AnonymousClass',
+                type: 'class',
+                filePath: sourceFile.getFilePath(),
+                location: AstUtils.getSourceLocation(classDecl),
+                properties: this.extractClassProperties(classDecl),
+                schema: this.schemaResolver.resolveDeclaration(classDecl),
+                ...this.getDocs(classDecl),
             })
         }
 
         // Extract type aliases
         const typeAliases = sourceFile.getTypeAliases()
         for (const typeAlias of typeAliases) {
+            // type User = z.infer<typeof UserSchema> documents the schema
+            const zodVariable = this.zodReader.getInferredVariable(typeAlias)
+            if (zodVariable) {
+                // Already listed under the schema's own name
+                if (
+                    this.zodReader.getDefinitionName(zodVariable) !==
+                    typeAlias.getName()
+                ) {
+                    types.push(
+                        this.extractZodType(typeAlias.getName(), zodVariable)
+                    )
+                }
+                continue
+            }
+
             types.push({
                 name: typeAlias.getName(),
                 type: 'type',
                 filePath: sourceFile.getFilePath(),
-                properties: [], // Type aliases don't have properties
+                location: AstUtils.getSourceLocation(typeAlias),
+                properties: this.extractAliasProperties(typeAlias),
+                schema: this.schemaResolver.resolveDeclaration(typeAlias),
+                ...this.getDocs(typeAlias),
             })
         }
 
+        // Extract zod schemas declared at module level
+        for (const statement of sourceFile.getVariableStatements()) {
+            for (const variable of statement.getDeclarations()) {
+                const initializer = variable.getInitializer()
+                if (!initializer || !this.zodReader.isSchema(initializer)) {
+                    continue
+                }
+
+                types.push(
+                    this.extractZodType(
+                        this.zodReader.getDefinitionName(variable),
+                        variable
+                    )
+                )
+            }
+        }
+
         // Extract enums
         const enums = sourceFile.getEnums()
         for (const enumDecl of enums) {
@@ -204,74 +607,117 @@ export class GenericExtractor {
                 name: enumDecl.getName(),
                 type: 'enum',
                 filePath: sourceFile.getFilePath(),
+                location: AstUtils.getSourceLocation(enumDecl),
                 properties: enumDecl.getMembers().map((member) => ({
                     name: member.getName(),
                     type: 'string',
                     optional: false,
+                    location: AstUtils.getSourceLocation(member),
+                    ...this.getDocs(member),
                 })),
+                schema: this.schemaResolver.resolveDeclaration(enumDecl),
+                ...this.getDocs(enumDecl),
             })
         }
 
         return types
     }
 
-    // Helper methods
-    private extractMethod(match: RegExpExecArray): string {
-        const method = match[1]?.toUpperCase()
-        return method || 'GET'
-    }
-
-    private extractPath(match: RegExpExecArray): string {
-        return match[2] || '/'
-    }
-
-    private extractHandler(match: RegExpExecArray, text: string): string {
-        if (match[3]) return this.extractHandlerName(match[3])
+    private extractZodType(
+        name: string,
+        variable: VariableDeclaration
+    ): UniversalType {
+        const schema = this.schemaResolver.dereference(
+            this.zodReader.convert(variable.getNameNode()).schema
+        )
 
-        // For decorator patterns, find the method name
-        const decoratorIndex = match.index || 0
-        const afterDecorator = text.substring(decoratorIndex + match[0].length)
-        const methodMatch = afterDecorator.match(/(\w+)\s*\(/)
-        return methodMatch ? methodMatch[1] || 'anonymous' : 'anonymous'
+        return {
+            name,
+            type: 'type',
+            filePath: variable.getSourceFile().getFilePath(),
+            location: AstUtils.getSourceLocation(variable),
+            properties: this.schemaResolver.getProperties(schema),
+            schema,
+            ...this.getDocs(variable),
+        }
     }
 
-    private extractHandlerName(handlerCode: string): string {
-        const arrowMatch = handlerCode.match(/(\w+)\s*=>/)
-        if (arrowMatch) return arrowMatch[1] || 'anonymous'
-
-        const functionMatch = handlerCode.match(/function\s+(\w+)/)
-        if (functionMatch) return functionMatch[1] || 'anonymous'
-
-        const asyncMatch = handlerCode.match(/async\s+(\w+)/)
-        if (asyncMatch) return asyncMatch[1] || 'anonymous'
+    // Includes inherited properties, e.g. extends PartialType(CreateUserDto)
+    private extractClassProperties(classDecl: ClassDeclaration): Property[] {
+        return classDecl
+            .getType()
+            .getProperties()
+            .flatMap((property): Property[] => {
+                const declaration = property.getValueDeclaration()
+                if (
+                    !declaration ||
+                    !(
+                        Node.isPropertyDeclaration(declaration) ||
+                        Node.isPropertySignature(declaration) ||
+                        Node.isParameterDeclaration(declaration)
+                    )
+                ) {
+                    return []
+                }
 
-        return 'anonymous'
-    }
+                const rules = Node.isPropertyDeclaration(declaration)
+                    ? this.decoratorReader.read(declaration)
+                    : null
+                if (rules?.excluded) return []
 
-    private extractMiddleware(_text: string, _index: number): string[] {
-        // Simple middleware extraction - can be enhanced
-        return []
-    }
+                const constraints: JsonSchema = { ...rules?.constraints }
+                if (Object.keys(rules?.itemConstraints ?? {}).length > 0) {
+                    constraints.items = rules!.itemConstraints
+                }
 
-    private extractRouteParameters(_handler: string): Parameter[] {
-        // Default parameters based on common patterns
-        return [
-            { name: 'req', type: 'Request', optional: false },
-            { name: 'res', type: 'Response', optional: false },
-            { name: 'next', type: 'NextFunction', optional: true },
-        ]
+                return [
+                    {
+                        name: rules?.serializedName ?? property.getName(),
+                        type:
+                            declaration.getTypeNode()?.getText() ||
+                            AstUtils.getTypeText(
+                                property.getTypeAtLocation(classDecl),
+                                classDecl
+                            ),
+                        optional: property.isOptional() || !!rules?.optional,
+                        ...(Object.keys(constraints).length > 0
+                            ? { constraints }
+                            : {}),
+                        location: AstUtils.getSourceLocation(declaration),
+                        ...this.getDocs(declaration),
+                    },
+                ]
+            })
     }
 
-    private detectFrameworkFromPattern(
-        pattern: RegExp
-    ): 'express' | 'nestjs' | 'fastify' | 'koa' {
-        const patternStr = pattern.toString()
-        if (patternStr.includes('@(Get|Post')) return 'nestjs'
-        if (patternStr.includes('fastify')) return 'fastify'
-        if (patternStr.includes('router')) return 'koa'
-        return 'express'
+    // Object-shaped aliases (type User = { ... }, Partial<Dto>, A & B)
+    private extractAliasProperties(
+        typeAlias: TypeAliasDeclaration
+    ): Property[] {
+        const type = typeAlias.getType()
+        if (!type.isObject() && !type.isIntersection()) return []
+        if (type.isArray() || type.getCallSignatures().length > 0) return []
+
+        return type.getProperties().map((property) => {
+            const declaration = property.getValueDeclaration()
+            return {
+                name: property.getName(),
+                type: AstUtils.getTypeText(
+                    property.getTypeAtLocation(typeAlias),
+                    typeAlias
+                ),
+                optional: property.isOptional(),
+                ...(declaration
+                    ? {
+                          location: AstUtils.getSourceLocation(declaration),
+                          ...this.getDocs(declaration),
+                      }
+                    : {}),
+            }
+        })
     }
 
+    // Helper methods
     private isControllerClass(classDecl: ClassDeclaration): boolean {
         const decorators = classDecl.getDecorators()
         const name = classDecl.getName()?.toLowerCase() || ''
@@ -284,64 +730,175 @@ export class GenericExtractor {
     }
 
     private isRouteMethod(method: MethodDeclaration): boolean {
-        const decorators = method.getDecorators()
-        return decorators.some((d) =>
-            ['Get', 'Post', 'Put', 'Delete', 'Patch', 'All'].includes(
-                d.getName()
-            )
-        )
+        return !!this.getRouteDecorator(method)
+    }
+
+    private getRouteDecorator(
+        method: MethodDeclaration
+    ): Decorator | undefined {
+        return method
+            .getDecorators()
+            .find((d) => Object.keys(ROUTE_DECORATORS).includes(d.getName()))
     }
 
-    private extractRouteFromMethod(
+    // One route per URL: path arrays, versions and RouterModule paths can
+    // each serve the same handler at several places
+    private extractRoutesFromMethod(
         method: MethodDeclaration,
         classDecl: ClassDeclaration
-    ): UniversalRoute | null {
-        const decorators = method.getDecorators()
-        const routeDecorator = decorators.find((d) =>
-            ['Get', 'Post', 'Put', 'Delete', 'Patch', 'All'].includes(
-                d.getName()
+    ): UniversalRoute[] {
+        const routeDecorator = this.getRouteDecorator(method)
+        if (!routeDecorator) return []
+
+        const methodName = ROUTE_DECORATORS[routeDecorator.getName()]!
+        const paths = this.nestRouteResolver.getRoutePaths(
+            method,
+            routeDecorator,
+            classDecl,
+            methodName
+        )
+        const host = this.nestRouteResolver.getHost(classDecl)
+        // @nestjs/swagger metadata is written by people and wins over
+        // anything inferred
+        const api = this.apiDecoratorReader.read(method, classDecl)
+        const docs = this.docReader.read(method)
+        const route: Omit<UniversalRoute, 'path'> = {
+            method: methodName,
+            handler: method.getName(),
+            middleware: this.extractEnhancers(method, classDecl),
+            parameters: this.apiDecoratorReader.mergeParameters(
+                method
+                    .getParameters()
+                    .map((param) => this.extractMethodParameter(param, docs)),
+                api.parameters
+            ),
+            responses: this.apiDecoratorReader.mergeResponses(
+                this.extractResponses(method, methodName),
+                api.responses
+            ),
+            framework: this.detectFrameworkFromClass(classDecl),
+            filePath: method.getSourceFile().getFilePath(),
+            location: AstUtils.getSourceLocation(method),
+            ...(host ? { host } : {}),
+            ...(api.summary ? { summary: api.summary } : {}),
+            ...(api.description ? { description: api.description } : {}),
+            ...(api.tags.length > 0 ? { tags: api.tags } : {}),
+            ...(api.deprecated ? { deprecated: true } : {}),
+            ...(docs ? { docs } : {}),
+        }
+
+        return paths.map((path) => ({ ...route, path }))
+    }
+
+    private extractMethodParameter(
+        param: ParameterDeclaration,
+        docs?: DocComment
+    ): Parameter {
+        const decorator = this.getParameterDecorator(param)
+        // @Param('id') id: string documents the request field, not the variable
+        const [keyArg] = param.getDecorators()[0]?.getArguments() ?? []
+        const key = keyArg ? AstUtils.resolveStringValue(keyArg) : null
+        // @param id - The user id
+        const description = docs?.params?.[param.getName()]
+
+        return {
+            name: key ?? param.getName(),
+            type: param.getTypeNode()?.getText() || 'any',
+            optional: param.hasQuestionToken(),
+            decorator: decorator || undefined,
+            location: decorator ? PARAMETER_LOCATIONS[decorator] : undefined,
+            schema: this.schemaResolver.resolve(param.getType(), param),
+            ...(description ? { description } : {}),
+        }
+    }
+
+    private extractResponses(
+        method: MethodDeclaration,
+        httpMethod: string
+    ): RouteResponse[] {
+        // Handlers that inject @Res() send the response themselves
+        const responseParam = method
+            .getParameters()
+            .find((param) =>
+                ['Res', 'Response'].includes(
+                    this.getParameterDecorator(param) || ''
+                )
             )
+        if (responseParam) {
+            const sent = this.responseInferrer.infer(method, responseParam)
+            if (sent.length > 0) return sent
+        }
+
+        const [statusArg] =
+            method.getDecorator('HttpCode')?.getArguments() ?? []
+        const statusCode =
+            (statusArg && this.responseInferrer.resolveStatusCode(statusArg)) ||
+            (httpMethod === 'POST' ? '201' : '200')
+
+        const returnType = this.responseInferrer.unwrapAsyncType(
+            method.getReturnType()
         )
+        const returnTypeNode = method.getReturnTypeNode()
+        const type = returnTypeNode
+            ? this.unwrapAsyncTypeText(returnTypeNode.getText())
+            : AstUtils.getTypeText(returnType, method)
 
-        if (!routeDecorator) return null
+        return [
+            {
+                statusCode,
+                type,
+                ...(returnType.isVoid()
+                    ? {}
+                    : {
+                          schema: this.schemaResolver.resolve(
+                              returnType,
+                              method
+                          ),
+                      }),
+            },
+        ]
+    }
 
-        const methodName = routeDecorator.getName().toUpperCase()
-        const args = routeDecorator.getArguments()
-        const routePath =
-            args.length > 0
-                ? args[0]?.getText().replace(/['"]/g, '') || '/'
-                : '/'
+    // Promise<User[]> / Observable<User> -> the emitted value's type
+    private unwrapAsyncTypeText(typeText: string): string {
+        const match = typeText.trim().match(/^(?:Promise|Observable)<(.+)>$/s)
+        return match ? this.unwrapAsyncTypeText(match[1]!) : typeText.trim()
+    }
 
-        // Get controller base path
-        const controllerDecorator = classDecl
-            .getDecorators()
-            .find((d) => d.getName() === 'Controller')
-        const controllerArgs = controllerDecorator?.getArguments()
-        const basePath =
-            controllerArgs && controllerArgs.length > 0
-                ? controllerArgs[0]?.getText().replace(/['"]/g, '') || ''
-                : ''
-
-        // Combine base path with route path
-        const fullPath = basePath
-            ? `/${basePath}${
-                  routePath === '/' ? '' : '/' + routePath.replace(/^\//, '')
-              }`
-            : routePath
+    // Guards, interceptors and pipes in the order NestJS runs them,
+    // controller-level before method-level for each kind
+    private extractEnhancers(
+        method: MethodDeclaration,
+        classDecl: ClassDeclaration
+    ): string[] {
+        const enhancers: string[] = []
 
-        return {
-            path: fullPath,
-            method: methodName,
-            handler: method.getName(),
-            middleware: [],
-            parameters: method.getParameters().map((param) => ({
-                name: param.getName(),
-                type: param.getTypeNode()?.getText() || 'any',
-                optional: param.hasQuestionToken(),
-                decorator: this.getParameterDecorator(param) || undefined,
-            })),
-            framework: 'nestjs',
+        for (const decoratorName of ENHANCER_DECORATORS) {
+            for (const target of [classDecl, method]) {
+                const decorator = target.getDecorator(decoratorName)
+                if (!decorator) continue
+
+                for (const arg of decorator.getArguments()) {
+                    const name = this.getEnhancerName(arg)
+                    if (!enhancers.includes(name)) enhancers.push(name)
+                }
+            }
         }
+
+        return enhancers
+    }
+
+    private getEnhancerName(arg: Node): string {
+        // new ValidationPipe({ whitelist: true }) -> ValidationPipe
+        if (Node.isNewExpression(arg)) return arg.getExpression().getText()
+        // AuthGuard('jwt') keeps its strategy argument
+        return arg.getText().replace(/\s+/g, ' ')
+    }
+
+    // Spread into extracted items: { ...this.getDocs(node) }
+    private getDocs(node: Node): { docs?: DocComment } {
+        const docs = this.docReader.read(node)
+        return docs ? { docs } : {}
     }
 
     private getParameterDecorator(param: any): string | undefined {
@@ -349,6 +906,34 @@ export class GenericExtractor {
         return decorators.length > 0 ? decorators[0].getName() : undefined
     }
 
+    private isDataClass(classDecl: ClassDeclaration): boolean {
+        if (
+            this.isControllerClass(classDecl) ||
+            this.isServiceClass(classDecl)
+        ) {
+            return false
+        }
+
+        // Modules, guards, filters, gateways, ...
+        const decorators = classDecl.getDecorators()
+        if (
+            decorators.some((d) => !DATA_CLASS_DECORATORS.includes(d.getName()))
+        ) {
+            return false
+        }
+
+        const name = classDecl.getName() || ''
+        const properties = classDecl.getProperties()
+        return (
+            DATA_CLASS_NAME.test(name) ||
+            decorators.length > 0 ||
+            properties.some(
+                (property) => property.getDecorators().length > 0
+            ) ||
+            (properties.length > 0 && classDecl.getMethods().length === 0)
+        )
+    }
+
     private isServiceClass(classDecl: ClassDeclaration): boolean {
         const decorators = classDecl.getDecorators()
         const name = classDecl.getName()?.toLowerCase() || ''
@@ -360,10 +945,28 @@ export class GenericExtractor {
         )
     }
 
+    // The framework a class's decorators come from, else the one its file
+    // imports, so express and NestJS code in one project are told apart
     private detectFrameworkFromClass(
         classDecl: ClassDeclaration
-    ): 'express' | 'nestjs' | 'fastify' | 'koa' {
+    ): RouteFramework {
         const decorators = classDecl.getDecorators()
+        for (const decorator of decorators) {
+            const name = decorator.getCallExpression()?.getExpression()
+            const specifier =
+                name && Node.isIdentifier(name)
+                    ? AstUtils.getImportModuleSpecifier(name)
+                    : null
+            const framework =
+                specifier && this.importScanner.getModuleFramework(specifier)
+            if (framework) return framework
+        }
+
+        const [imported] = this.importScanner.getFileFrameworks(
+            classDecl.getSourceFile()
+        )
+        if (imported) return imported
+
         if (
             decorators.some((d) =>
                 ['Controller', 'Injectable'].includes(d.getName())
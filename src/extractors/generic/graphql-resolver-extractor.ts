@@ -0,0 +1,278 @@
+import {
+    ClassDeclaration,
+    Decorator,
+    MethodDeclaration,
+    Node,
+    ParameterDeclaration,
+    SourceFile,
+    Type,
+} from 'ts-morph'
+import {
+    JsonSchema,
+    Parameter,
+    UniversalOperation,
+} from '../../types/universal-types'
+import { AstUtils } from '../../utils/ast-utils'
+import { DocCommentReader } from './doc-comment-reader'
+import { PropertyDecoratorReader } from './property-decorator-reader'
+import { TypeSchemaResolver } from './type-schema-resolver'
+
+// Method decorators and the operation kind they declare; FieldResolver is
+// type-graphql's name for ResolveField
+const OPERATION_DECORATORS: Record<string, UniversalOperation['kind']> = {
+    Query: 'query',
+    Mutation: 'mutation',
+    Subscription: 'subscription',
+    ResolveField: 'field',
+    ResolveProperty: 'field',
+    FieldResolver: 'field',
+}
+
+const ROOT_TYPES: Record<string, string> = {
+    query: 'Query',
+    mutation: 'Mutation',
+    subscription: 'Subscription',
+}
+
+// Modules the decorators come from, and the framework each stands for
+const GRAPHQL_MODULES: Record<string, UniversalOperation['framework']> = {
+    '@nestjs/graphql': 'nestjs',
+    'type-graphql': 'type-graphql',
+}
+
+// Argument decorators: @Args() in NestJS, @Arg() / @Args() in type-graphql
+const ARGUMENT_DECORATORS = ['Args', 'Arg']
+
+// Resolvers return promises or observables of the GraphQL type
+const ASYNC_WRAPPERS = ['Promise', 'Observable', 'AsyncIterator']
+
+export class GraphQLResolverExtractor {
+    private schemaResolver: TypeSchemaResolver
+    private propertyReader: PropertyDecoratorReader
+    private docReader: DocCommentReader
+
+    constructor(
+        schemaResolver: TypeSchemaResolver,
+        docReader = new DocCommentReader()
+    ) {
+        this.schemaResolver = schemaResolver
+        this.propertyReader = new PropertyDecoratorReader(schemaResolver)
+        this.docReader = docReader
+    }
+
+    extract(sourceFile: SourceFile): UniversalOperation[] {
+        const operations: UniversalOperation[] = []
+
+        for (const classDecl of sourceFile.getClasses()) {
+            const resolverDecorator = classDecl.getDecorator('Resolver')
+            const framework = resolverDecorator
+                ? this.getFramework(resolverDecorator)
+                : null
+            if (!resolverDecorator || !framework) continue
+
+            for (const method of classDecl.getMethods()) {
+                const operation = this.extractOperation(
+                    method,
+                    classDecl,
+                    resolverDecorator,
+                    framework
+                )
+                if (operation) operations.push(operation)
+            }
+        }
+
+        return operations
+    }
+
+    private extractOperation(
+        method: MethodDeclaration,
+        classDecl: ClassDeclaration,
+        resolverDecorator: Decorator,
+        framework: UniversalOperation['framework']
+    ): UniversalOperation | null {
+        const decorator = method
+            .getDecorators()
+            .find((candidate) => OPERATION_DECORATORS[candidate.getName()])
+        if (!decorator) return null
+
+        const kind = OPERATION_DECORATORS[decorator.getName()]!
+        const args = decorator.getArguments()
+        // @ResolveField('posts', () => [Post]) names the field first
+        const nameArg = args.find(
+            (arg) => AstUtils.resolveStringValue(arg) !== null
+        )
+        const typeFunction = args.find((arg) =>
+            Node.isArrowFunction(AstUtils.unwrapExpression(arg))
+        )
+        const options = this.getOptions(args)
+        const docs = this.docReader.read(method)
+
+        const { returnType, schema } = this.getReturnType(method, typeFunction)
+        const description =
+            typeof options['description'] === 'string'
+                ? options['description']
+                : undefined
+
+        return {
+            kind,
+            name:
+                (typeof options['name'] === 'string' && options['name']) ||
+                (nameArg && AstUtils.resolveStringValue(nameArg)) ||
+                method.getName(),
+            parentType:
+                ROOT_TYPES[kind] ??
+                this.getParentType(method, resolverDecorator) ??
+                'unknown',
+            handler: method.getName(),
+            resolver: classDecl.getName() || 'AnonymousResolver',
+            arguments: method
+                .getParameters()
+                .flatMap((param) => this.extractArgument(param, docs)),
+            returnType,
+            ...(schema ? { schema } : {}),
+            nullable: options['nullable'] === true,
+            ...(description ? { description } : {}),
+            ...(options['deprecationReason'] !== undefined
+                ? { deprecated: true }
+                : {}),
+            framework,
+            filePath: classDecl.getSourceFile().getFilePath(),
+            location: AstUtils.getSourceLocation(method),
+            ...(docs ? { docs } : {}),
+        }
+    }
+
+    // @Args('id', { type: () => ID }) id: string, @Args() filter: UsersArgs,
+    // @Arg('id', () => ID) id: string
+    private extractArgument(
+        param: ParameterDeclaration,
+        docs: UniversalOperation['docs']
+    ): Parameter[] {
+        const decorator = param
+            .getDecorators()
+            .find((candidate) =>
+                ARGUMENT_DECORATORS.includes(candidate.getName())
+            )
+        if (!decorator) return []
+
+        const args = decorator.getArguments()
+        const [first] = args
+        const key = first ? AstUtils.resolveStringValue(first) : null
+        const options = this.getOptions(args)
+
+        const typeNode =
+            args.find((arg) =>
+                Node.isArrowFunction(AstUtils.unwrapExpression(arg))
+            ) ?? this.getOptionNode(args, 'type')
+        const schema =
+            (typeNode && this.propertyReader.resolveTypeFactory(typeNode)) ||
+            this.schemaResolver.resolve(param.getType(), param)
+        const description =
+            typeof options['description'] === 'string'
+                ? options['description']
+                : docs?.params?.[param.getName()]
+
+        return [
+            {
+                name: key ?? param.getName(),
+                type: param.getTypeNode()?.getText() || 'any',
+                optional:
+                    param.hasQuestionToken() || options['nullable'] === true,
+                decorator: decorator.getName(),
+                schema,
+                ...(description ? { description } : {}),
+                ...(options['defaultValue'] !== undefined
+                    ? { example: options['defaultValue'] }
+                    : {}),
+            },
+        ]
+    }
+
+    // The decorator's type function wins: TypeScript cannot tell Int from
+    // Float, and resolvers often return entities mapped to GraphQL types
+    private getReturnType(
+        method: MethodDeclaration,
+        typeFunction: Node | undefined
+    ): { returnType: string; schema: JsonSchema | null } {
+        const declared =
+            typeFunction && this.propertyReader.resolveTypeFactory(typeFunction)
+        if (declared) {
+            return {
+                returnType: this.schemaResolver.describe(declared),
+                schema: declared,
+            }
+        }
+
+        const type = this.unwrapAsyncType(method.getReturnType())
+        return {
+            returnType: AstUtils.getTypeText(type, method),
+            schema: type.isVoid()
+                ? null
+                : this.schemaResolver.resolve(type, method),
+        }
+    }
+
+    // @Resolver(() => User) / @Resolver(of => User), or the @Parent() /
+    // @Root() argument's type
+    private getParentType(
+        method: MethodDeclaration,
+        resolverDecorator: Decorator
+    ): string | null {
+        const [target] = resolverDecorator.getArguments()
+        const expression = target ? AstUtils.unwrapExpression(target) : null
+        if (expression && Node.isArrowFunction(expression)) {
+            return AstUtils.unwrapExpression(expression.getBody()).getText()
+        }
+        if (expression) {
+            const name = AstUtils.resolveStringValue(expression)
+            if (name) return name
+            if (Node.isIdentifier(expression)) return expression.getText()
+        }
+
+        const parent = method
+            .getParameters()
+            .find(
+                (param) =>
+                    param.getDecorator('Parent') || param.getDecorator('Root')
+            )
+        return parent?.getTypeNode()?.getText() ?? null
+    }
+
+    private getFramework(
+        decorator: Decorator
+    ): UniversalOperation['framework'] | null {
+        const expression = decorator.getCallExpression()?.getExpression()
+        if (!expression || !Node.isIdentifier(expression)) return null
+
+        const specifier = AstUtils.getImportModuleSpecifier(expression)
+        return (specifier && GRAPHQL_MODULES[specifier]) || null
+    }
+
+    private unwrapAsyncType(type: Type): Type {
+        const name = type.getSymbol()?.getName()
+        const [inner] = type.getTypeArguments()
+        return name && ASYNC_WRAPPERS.includes(name) && inner
+            ? this.unwrapAsyncType(inner)
+            : type
+    }
+
+    // Options objects come after the name and type function
+    private getOptions(args: Node[]): Record<string, unknown> {
+        const last = args[args.length - 1]
+        const value = last ? AstUtils.resolveLiteralValue(last) : undefined
+        return value && typeof value === 'object' && !Array.isArray(value)
+            ? (value as Record<string, unknown>)
+            : {}
+    }
+
+    private getOptionNode(args: Node[], name: string): Node | undefined {
+        const last = args[args.length - 1]
+        const object = last ? AstUtils.unwrapExpression(last) : undefined
+        if (!object || !Node.isObjectLiteralExpression(object)) return undefined
+
+        const property = object.getProperty(name)
+        return property && Node.isPropertyAssignment(property)
+            ? property.getInitializer()
+            : undefined
+    }
+}
@@ -0,0 +1,412 @@
+import {
+    CallExpression,
+    ClassDeclaration,
+    Decorator,
+    MethodDeclaration,
+    Node,
+    ParameterDeclaration,
+    SourceFile,
+    SyntaxKind,
+    Type,
+} from 'ts-morph'
+import { UniversalMessage } from '../../types/universal-types'
+import { AstUtils } from '../../utils/ast-utils'
+import { DocCommentReader } from './doc-comment-reader'
+import { TypeSchemaResolver } from './type-schema-resolver'
+
+// @nestjs/microservices handler decorators
+const PATTERN_DECORATORS: Record<string, UniversalMessage['kind']> = {
+    MessagePattern: 'message',
+    EventPattern: 'event',
+}
+
+// ClientProxy methods and what they produce
+const CLIENT_METHODS: Record<string, UniversalMessage['kind']> = {
+    send: 'message',
+    emit: 'event',
+}
+
+// Modules @Processor() comes from
+const QUEUE_MODULES: Record<string, 'bull' | 'bullmq'> = {
+    '@nestjs/bull': 'bull',
+    '@nestjs/bullmq': 'bullmq',
+    bull: 'bull',
+    bullmq: 'bullmq',
+}
+
+// Microservice clients: ClientProxy and the transport-specific subclasses
+const CLIENT_TYPE_NAMES =
+    /^Client(Proxy|Kafka|Grpc(Proxy)?|RMQ|Redis|Nats|Mqtt|TCP)$/
+
+const QUEUE_TYPE_NAMES = /^Queue$/
+
+// Jobs match every name when none is given
+const ANY_JOB = '*'
+
+// Handlers return promises or observables of their reply
+const ASYNC_WRAPPERS = ['Promise', 'Observable']
+
+export class MessageHandlerExtractor {
+    private schemaResolver: TypeSchemaResolver
+    private docReader: DocCommentReader
+
+    constructor(
+        schemaResolver: TypeSchemaResolver,
+        docReader = new DocCommentReader()
+    ) {
+        this.schemaResolver = schemaResolver
+        this.docReader = docReader
+    }
+
+    extract(sourceFile: SourceFile): UniversalMessage[] {
+        const messages: UniversalMessage[] = []
+
+        for (const classDecl of sourceFile.getClasses()) {
+            messages.push(...this.extractPatternHandlers(classDecl))
+            messages.push(...this.extractProcessor(classDecl))
+        }
+
+        for (const call of sourceFile.getDescendantsOfKind(
+            SyntaxKind.CallExpression
+        )) {
+            const producer = this.extractProducer(call)
+            if (producer) messages.push(producer)
+        }
+
+        return messages
+    }
+
+    // @MessagePattern('sum') / @MessagePattern({ cmd: 'sum' }) and
+    // @EventPattern('user_created')
+    private extractPatternHandlers(
+        classDecl: ClassDeclaration
+    ): UniversalMessage[] {
+        const messages: UniversalMessage[] = []
+
+        for (const method of classDecl.getMethods()) {
+            for (const decorator of method.getDecorators()) {
+                const kind = PATTERN_DECORATORS[decorator.getName()]
+                const [patternArg] = decorator.getArguments()
+                const pattern = patternArg && this.resolvePattern(patternArg)
+                if (!kind || !pattern) continue
+
+                const payload =
+                    method
+                        .getParameters()
+                        .find((param) => param.getDecorator('Payload')) ??
+                    method.getParameters()[0]
+
+                messages.push({
+                    pattern,
+                    kind,
+                    role: 'consumer',
+                    transport: 'microservice',
+                    ...this.describeHandler(method, classDecl),
+                    ...this.describePayload(payload?.getType(), method),
+                    // Events get no reply
+                    ...(kind === 'message'
+                        ? this.describeResponse(method)
+                        : {}),
+                })
+            }
+        }
+
+        return messages
+    }
+
+    // @Processor('emails') with @Process('welcome') methods (Bull), or a
+    // WorkerHost subclass implementing process(job) (BullMQ)
+    private extractProcessor(classDecl: ClassDeclaration): UniversalMessage[] {
+        const processor = classDecl.getDecorator('Processor')
+        if (!processor) return []
+
+        const queue = this.getDecoratorName(processor)
+        const transport = this.getQueueTransport(processor)
+        const messages: UniversalMessage[] = []
+
+        for (const method of classDecl.getMethods()) {
+            const process = method.getDecorator('Process')
+            const isWorkerProcess =
+                !process &&
+                transport === 'bullmq' &&
+                method.getName() === 'process'
+            if (!process && !isWorkerProcess) continue
+
+            const [job] = method.getParameters()
+            messages.push({
+                pattern: (process && this.getDecoratorName(process)) || ANY_JOB,
+                kind: 'job',
+                role: 'consumer',
+                transport,
+                ...(queue ? { queue } : {}),
+                ...this.describeHandler(method, classDecl),
+                ...this.describePayload(
+                    job && this.getJobDataType(job),
+                    method
+                ),
+                ...this.describeResponse(method),
+            })
+        }
+
+        return messages
+    }
+
+    // client.send('sum', data), client.emit('user_created', user) and
+    // queue.add('welcome', data)
+    private extractProducer(call: CallExpression): UniversalMessage | null {
+        const callee = call.getExpression()
+        if (!Node.isPropertyAccessExpression(callee)) return null
+
+        const method = callee.getName()
+        const receiver = callee.getExpression()
+        const args = call.getArguments()
+
+        if (CLIENT_METHODS[method] && args.length > 0) {
+            if (!this.hasType(receiver, CLIENT_TYPE_NAMES)) return null
+
+            const pattern = this.resolvePattern(args[0]!)
+            if (!pattern) return null
+
+            // client.send<number>(...) names the reply when the typings
+            // cannot infer it
+            const kind = CLIENT_METHODS[method]!
+            const [replyArgument] = call.getTypeArguments()
+            const replyType =
+                kind !== 'message'
+                    ? undefined
+                    : replyArgument
+                    ? replyArgument.getType()
+                    : this.unwrapAsyncType(call.getType())
+
+            return {
+                pattern,
+                kind,
+                role: 'producer',
+                transport: 'microservice',
+                ...this.describeProducer(call),
+                ...this.describePayload(this.getValueType(args[1]), call),
+                ...(replyType && !replyType.isAny() && !replyType.isUnknown()
+                    ? {
+                          responseType: AstUtils.getTypeText(replyType, call),
+                          response: this.schemaResolver.resolve(
+                              replyType,
+                              call
+                          ),
+                      }
+                    : {}),
+            }
+        }
+
+        if (method === 'add' && args.length > 0) {
+            if (!this.hasType(receiver, QUEUE_TYPE_NAMES)) return null
+
+            // Bull's queue.add(data, options) uses the default job name
+            const name = AstUtils.resolveStringValue(args[0]!)
+            const data = name ? args[1] : args[0]
+            const queue = this.getInjectedQueueName(receiver)
+
+            return {
+                pattern: name || ANY_JOB,
+                kind: 'job',
+                role: 'producer',
+                transport: this.getReceiverTransport(receiver),
+                ...(queue ? { queue } : {}),
+                ...this.describeProducer(call),
+                ...this.describePayload(this.getValueType(data), call),
+            }
+        }
+
+        return null
+    }
+
+    private describeHandler(
+        method: MethodDeclaration,
+        classDecl: ClassDeclaration
+    ): Pick<
+        UniversalMessage,
+        'handler' | 'owner' | 'filePath' | 'location' | 'docs'
+    > {
+        const docs = this.docReader.read(method)
+        return {
+            handler: method.getName(),
+            owner: classDecl.getName() || 'AnonymousClass',
+            filePath: classDecl.getSourceFile().getFilePath(),
+            location: AstUtils.getSourceLocation(method),
+            ...(docs ? { docs } : {}),
+        }
+    }
+
+    // The method or function making the call, inside its class or file
+    private describeProducer(
+        call: CallExpression
+    ): Pick<
+        UniversalMessage,
+        'handler' | 'owner' | 'filePath' | 'location' | 'docs'
+    > {
+        const sourceFile = call.getSourceFile()
+        const classDecl = call.getFirstAncestorByKind(
+            SyntaxKind.ClassDeclaration
+        )
+        const method = call.getFirstAncestorByKind(SyntaxKind.MethodDeclaration)
+        const fn = call.getFirstAncestorByKind(SyntaxKind.FunctionDeclaration)
+        const docs = this.docReader.readStatement(call)
+
+        return {
+            handler: method?.getName() || fn?.getName() || 'anonymous',
+            owner:
+                classDecl?.getName() ||
+                sourceFile.getBaseName().split('.')[0] ||
+                'anonymous',
+            filePath: sourceFile.getFilePath(),
+            location: AstUtils.getSourceLocation(call),
+            ...(docs ? { docs } : {}),
+        }
+    }
+
+    private describePayload(
+        type: Type | undefined,
+        node: Node
+    ): Pick<UniversalMessage, 'payloadType' | 'payload'> {
+        if (!type || type.isAny() || type.isUnknown()) {
+            return { payloadType: 'any' }
+        }
+
+        return {
+            payloadType: AstUtils.getTypeText(type, node),
+            payload: this.schemaResolver.resolve(type, node),
+        }
+    }
+
+    private describeResponse(
+        method: MethodDeclaration
+    ): Pick<UniversalMessage, 'responseType' | 'response'> {
+        const type = this.unwrapAsyncType(method.getReturnType())
+        if (type.isVoid() || type.isAny() || type.isUndefined()) return {}
+
+        return {
+            responseType: AstUtils.getTypeText(type, method),
+            response: this.schemaResolver.resolve(type, method),
+        }
+    }
+
+    // 'sum', { cmd: 'sum' } (kept as JSON, the way the transport matches it)
+    private resolvePattern(node: Node): string | null {
+        const text = AstUtils.resolveStringValue(node)
+        if (text) return text
+
+        const value = AstUtils.resolveLiteralValue(node)
+        return value && typeof value === 'object' ? JSON.stringify(value) : null
+    }
+
+    // @Processor('emails') / @Processor({ name: 'emails' }), and the same
+    // for @Process(); @Process() without a name handles every job
+    private getDecoratorName(decorator: Decorator): string | null {
+        const [arg] = decorator.getArguments()
+        if (!arg) return null
+
+        const value = AstUtils.resolveLiteralValue(arg)
+        if (typeof value === 'string') return value
+        return value &&
+            typeof value === 'object' &&
+            typeof (value as Record<string, unknown>)['name'] === 'string'
+            ? ((value as Record<string, unknown>)['name'] as string)
+            : null
+    }
+
+    private getQueueTransport(decorator: Decorator): 'bull' | 'bullmq' {
+        const expression = decorator.getCallExpression()?.getExpression()
+        const specifier =
+            expression && Node.isIdentifier(expression)
+                ? AstUtils.getImportModuleSpecifier(expression)
+                : null
+        return (specifier && QUEUE_MODULES[specifier]) || 'bull'
+    }
+
+    private getReceiverTransport(receiver: Node): 'bull' | 'bullmq' {
+        const typeNode = this.getDeclaredTypeNode(receiver)
+        const typeName =
+            typeNode && Node.isTypeReference(typeNode)
+                ? typeNode.getTypeName()
+                : undefined
+        const specifier =
+            typeName && Node.isIdentifier(typeName)
+                ? AstUtils.getImportModuleSpecifier(typeName)
+                : null
+        return (specifier && QUEUE_MODULES[specifier]) || 'bull'
+    }
+
+    // @InjectQueue('emails') private queue: Queue
+    private getInjectedQueueName(receiver: Node): string | null {
+        const declaration = this.getDeclaration(receiver)
+        const decorator =
+            declaration &&
+            (Node.isPropertyDeclaration(declaration) ||
+                Node.isParameterDeclaration(declaration))
+                ? declaration.getDecorator('InjectQueue')
+                : undefined
+        return decorator ? this.getDecoratorName(decorator) : null
+    }
+
+    // Job<EmailData> -> EmailData, read from the written type argument when
+    // the queue typings are not installed
+    private getJobDataType(job: ParameterDeclaration): Type | undefined {
+        const type = job.getType()
+        const [data] = type.getTypeArguments()
+        if (data) return data
+
+        const typeNode = job.getTypeNode()
+        const [argument] =
+            typeNode && Node.isTypeReference(typeNode)
+                ? typeNode.getTypeArguments()
+                : []
+        return argument?.getType()
+    }
+
+    // By the resolved type when the typings are installed, otherwise by the
+    // type written on the property or parameter
+    private hasType(receiver: Node, names: RegExp): boolean {
+        const type = receiver.getType()
+        const symbolName = (
+            type.getSymbol() ?? type.getAliasSymbol()
+        )?.getName()
+        if (symbolName && names.test(symbolName)) return true
+
+        const typeNode = this.getDeclaredTypeNode(receiver)
+        const typeName =
+            typeNode && Node.isTypeReference(typeNode)
+                ? typeNode.getTypeName().getText().split('.').pop()
+                : undefined
+        return !!typeName && names.test(typeName)
+    }
+
+    private getDeclaredTypeNode(receiver: Node): Node | undefined {
+        const declaration = this.getDeclaration(receiver)
+        return declaration &&
+            (Node.isPropertyDeclaration(declaration) ||
+                Node.isParameterDeclaration(declaration) ||
+                Node.isVariableDeclaration(declaration))
+            ? declaration.getTypeNode()
+            : undefined
+    }
+
+    private getDeclaration(receiver: Node): Node | undefined {
+        const expression = AstUtils.unwrapExpression(receiver)
+        const target = Node.isPropertyAccessExpression(expression)
+            ? expression.getNameNode()
+            : expression
+        return AstUtils.getDeclarations(target)[0]
+    }
+
+    // emit('user_created', 42) sends a number, not the literal 42
+    private getValueType(node: Node | undefined): Type | undefined {
+        return node?.getType().getBaseTypeOfLiteralType()
+    }
+
+    private unwrapAsyncType(type: Type): Type {
+        const name = type.getSymbol()?.getName()
+        const [inner] = type.getTypeArguments()
+        return name && ASYNC_WRAPPERS.includes(name) && inner
+            ? this.unwrapAsyncType(inner)
+            : type
+    }
+}
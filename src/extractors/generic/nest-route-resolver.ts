@@ -0,0 +1,383 @@
+import {
+    ClassDeclaration,
+    Decorator,
+    MethodDeclaration,
+    Node,
+    SourceFile,
+    SyntaxKind,
+} from 'ts-morph'
+import { AstUtils } from '../../utils/ast-utils'
+import { PathUtils } from '../../utils/path-utils'
+
+// setGlobalPrefix('api', { exclude: ['health', { path: 'x', method }] })
+interface PrefixExclusion {
+    pattern: RegExp
+    method: string | null
+}
+
+// enableVersioning({ type, prefix, defaultVersion })
+interface VersioningOptions {
+    uri: boolean
+    prefix: string
+    // null stands for VERSION_NEUTRAL
+    defaultVersions: (string | null)[]
+}
+
+// Marker for routes served without a version segment
+const VERSION_NEUTRAL = 'VERSION_NEUTRAL'
+
+// Guards against RouterModule trees that reference themselves
+const MAX_ROUTE_TREE_DEPTH = 10
+
+export class NestRouteResolver {
+    private globalPrefix = ''
+    private prefixExclusions: PrefixExclusion[] = []
+    private versioning: VersioningOptions = this.defaultVersioning()
+    private modulePaths = new Map<ClassDeclaration, string[]>()
+    private controllerModules = new Map<ClassDeclaration, ClassDeclaration[]>()
+
+    // Application-wide routing setup lives outside the controllers: main.ts
+    // configures the prefix and versioning, modules register RouterModule paths
+    collect(sourceFiles: SourceFile[]): void {
+        this.globalPrefix = ''
+        this.prefixExclusions = []
+        this.versioning = this.defaultVersioning()
+        this.modulePaths = new Map()
+        this.controllerModules = new Map()
+
+        for (const sourceFile of sourceFiles) {
+            for (const call of sourceFile.getDescendantsOfKind(
+                SyntaxKind.CallExpression
+            )) {
+                const callee = call.getExpression()
+                if (!Node.isPropertyAccessExpression(callee)) continue
+
+                const args = call.getArguments()
+                switch (callee.getName()) {
+                    case 'setGlobalPrefix':
+                        this.readGlobalPrefix(args)
+                        break
+                    case 'enableVersioning':
+                        this.readVersioning(args[0])
+                        break
+                    case 'register':
+                    case 'forRoutes':
+                        if (
+                            callee.getExpression().getText() === 'RouterModule'
+                        ) {
+                            this.readRouteTree(args[0], '', 0)
+                        }
+                        break
+                }
+            }
+
+            for (const classDecl of sourceFile.getClasses()) {
+                this.readModuleControllers(classDecl)
+            }
+        }
+    }
+
+    // Every URL a controller method is served at:
+    // prefix / version / module path / controller path / method path
+    getRoutePaths(
+        method: MethodDeclaration,
+        routeDecorator: Decorator,
+        classDecl: ClassDeclaration,
+        httpMethod: string
+    ): string[] {
+        const controllerOptions = this.getControllerOptions(classDecl)
+        const methodPaths = this.getPathList(routeDecorator.getArguments()[0])
+        const versionSegments = this.getVersions(
+            method,
+            controllerOptions.version
+        ).map((version) =>
+            version === null ? '' : `${this.versioning.prefix}${version}`
+        )
+
+        const paths: string[] = []
+        for (const version of versionSegments) {
+            for (const modulePath of this.getModulePaths(classDecl)) {
+                for (const controllerPath of controllerOptions.paths) {
+                    for (const methodPath of methodPaths) {
+                        const path = PathUtils.joinRoutePaths(
+                            modulePath,
+                            controllerPath,
+                            methodPath
+                        )
+                        paths.push(
+                            this.isExcludedFromPrefix(path, httpMethod)
+                                ? PathUtils.joinRoutePaths(version, path)
+                                : PathUtils.joinRoutePaths(
+                                      this.globalPrefix,
+                                      version,
+                                      path
+                                  )
+                        )
+                    }
+                }
+            }
+        }
+
+        return Array.from(new Set(paths))
+    }
+
+    // @Controller({ host: ':account.example.com' })
+    getHost(classDecl: ClassDeclaration): string | undefined {
+        return this.getControllerOptions(classDecl).host
+    }
+
+    private getControllerOptions(classDecl: ClassDeclaration): {
+        paths: string[]
+        version: Node | undefined
+        host: string | undefined
+    } {
+        const [options] =
+            classDecl.getDecorator('Controller')?.getArguments() ?? []
+        const object = options ? AstUtils.unwrapExpression(options) : undefined
+
+        if (!object || !Node.isObjectLiteralExpression(object)) {
+            return {
+                paths: this.getPathList(options),
+                version: undefined,
+                host: undefined,
+            }
+        }
+
+        const host = this.getProperty(object, 'host')
+        return {
+            paths: this.getPathList(this.getProperty(object, 'path')),
+            version: this.getProperty(object, 'version'),
+            host: host
+                ? AstUtils.resolveStringValue(host) ?? undefined
+                : undefined,
+        }
+    }
+
+    // @Version() on the method wins over the controller's, which wins over
+    // the application default
+    private getVersions(
+        method: MethodDeclaration,
+        controllerVersion: Node | undefined
+    ): (string | null)[] {
+        if (!this.versioning.uri) return [null]
+
+        const [methodVersion] =
+            method.getDecorator('Version')?.getArguments() ?? []
+        const declared = methodVersion ?? controllerVersion
+        if (declared) return this.getVersionList(declared)
+
+        return this.versioning.defaultVersions.length > 0
+            ? this.versioning.defaultVersions
+            : [null]
+    }
+
+    private getVersionList(node: Node): (string | null)[] {
+        const expression = AstUtils.unwrapExpression(node)
+        const elements = Node.isArrayLiteralExpression(expression)
+            ? expression.getElements()
+            : [expression]
+
+        return elements.flatMap((element) => {
+            if (element.getText().endsWith(VERSION_NEUTRAL)) return [null]
+            const version = AstUtils.resolveStringValue(element)
+            return version === null ? [] : [version]
+        })
+    }
+
+    // 'users', ['users', 'members'] or nothing (the controller root)
+    private getPathList(node: Node | undefined): string[] {
+        const value = node ? AstUtils.resolveLiteralValue(node) : undefined
+        const paths = (Array.isArray(value) ? value : [value]).filter(
+            (path): path is string => typeof path === 'string'
+        )
+        return paths.length > 0 ? paths : ['']
+    }
+
+    private getModulePaths(classDecl: ClassDeclaration): string[] {
+        const paths = (this.controllerModules.get(classDecl) ?? []).flatMap(
+            (module) => this.modulePaths.get(module) ?? []
+        )
+        return paths.length > 0 ? Array.from(new Set(paths)) : ['']
+    }
+
+    // Exclusions are matched against the path without prefix and version
+    private isExcludedFromPrefix(path: string, httpMethod: string): boolean {
+        return this.prefixExclusions.some(
+            (exclusion) =>
+                exclusion.pattern.test(path) &&
+                (!exclusion.method ||
+                    exclusion.method === 'ALL' ||
+                    exclusion.method === httpMethod)
+        )
+    }
+
+    private readGlobalPrefix(args: Node[]): void {
+        const [prefix, options] = args
+        const value = prefix ? AstUtils.resolveStringValue(prefix) : null
+        if (value === null) return
+
+        this.globalPrefix = value
+        this.prefixExclusions = []
+
+        const object = options ? AstUtils.unwrapExpression(options) : undefined
+        const exclude =
+            object && Node.isObjectLiteralExpression(object)
+                ? this.getProperty(object, 'exclude')
+                : undefined
+        const list = exclude ? AstUtils.unwrapExpression(exclude) : undefined
+        if (!list || !Node.isArrayLiteralExpression(list)) return
+
+        for (const element of list.getElements()) {
+            const entry = AstUtils.unwrapExpression(element)
+            const path = Node.isObjectLiteralExpression(entry)
+                ? this.getProperty(entry, 'path')
+                : entry
+            const method = Node.isObjectLiteralExpression(entry)
+                ? this.getProperty(entry, 'method')
+                : undefined
+            const pathValue = path ? AstUtils.resolveStringValue(path) : null
+            if (pathValue === null) continue
+
+            this.prefixExclusions.push({
+                pattern: this.toPathPattern(pathValue),
+                // RequestMethod.GET
+                method: method
+                    ? method.getText().split('.').pop()!.toUpperCase()
+                    : null,
+            })
+        }
+    }
+
+    // 'health', 'users/:id' and 'docs/(.*)' style exclusion paths
+    private toPathPattern(path: string): RegExp {
+        const source = PathUtils.joinRoutePaths(path)
+            .replace(/[.+?^${}[\]\\|]/g, '\\$&')
+            .replace(/\(\.\*\)|\*/g, '.*')
+            .replace(/:[A-Za-z0-9_]+/g, '[^/]+')
+        return new RegExp(`^${source}$`)
+    }
+
+    private readVersioning(options: Node | undefined): void {
+        const versioning = this.defaultVersioning()
+        const object = options ? AstUtils.unwrapExpression(options) : undefined
+        if (object && Node.isObjectLiteralExpression(object)) {
+            const type = this.getProperty(object, 'type')
+            const prefix = this.getProperty(object, 'prefix')
+            const defaultVersion = this.getProperty(object, 'defaultVersion')
+
+            // VersioningType.URI is the default; header and media type
+            // versioning leave the URL alone
+            versioning.uri = !type || /URI$/.test(type.getText())
+            if (prefix) {
+                const value = AstUtils.resolveLiteralValue(prefix)
+                versioning.prefix = typeof value === 'string' ? value : ''
+            }
+            if (defaultVersion) {
+                versioning.defaultVersions = this.getVersionList(defaultVersion)
+            }
+        }
+
+        this.versioning = versioning
+    }
+
+    // RouterModule.register([{ path: 'admin', module: AdminModule,
+    // children: [{ path: 'users', module: UsersModule }, ReportsModule] }])
+    private readRouteTree(
+        node: Node | undefined,
+        parentPath: string,
+        depth: number
+    ): void {
+        if (!node || depth > MAX_ROUTE_TREE_DEPTH) return
+
+        const list = AstUtils.unwrapExpression(node)
+        if (!Node.isArrayLiteralExpression(list)) return
+
+        for (const element of list.getElements()) {
+            const entry = AstUtils.unwrapExpression(element)
+
+            // A bare module in children inherits the parent path
+            if (!Node.isObjectLiteralExpression(entry)) {
+                this.addModulePath(entry, parentPath)
+                continue
+            }
+
+            const pathNode = this.getProperty(entry, 'path')
+            const path = PathUtils.joinRoutePaths(
+                parentPath,
+                (pathNode && AstUtils.resolveStringValue(pathNode)) || ''
+            )
+            const module = this.getProperty(entry, 'module')
+            if (module) this.addModulePath(module, path)
+
+            this.readRouteTree(
+                this.getProperty(entry, 'children'),
+                path,
+                depth + 1
+            )
+        }
+    }
+
+    private addModulePath(node: Node, path: string): void {
+        const module = this.getClass(node)
+        if (!module) return
+
+        const paths = this.modulePaths.get(module) ?? []
+        if (!paths.includes(path)) paths.push(path)
+        this.modulePaths.set(module, paths)
+    }
+
+    // @Module({ controllers: [UsersController] })
+    private readModuleControllers(classDecl: ClassDeclaration): void {
+        const [metadata] =
+            classDecl.getDecorator('Module')?.getArguments() ?? []
+        const object = metadata
+            ? AstUtils.unwrapExpression(metadata)
+            : undefined
+        if (!object || !Node.isObjectLiteralExpression(object)) return
+
+        const controllers = this.getProperty(object, 'controllers')
+        const list = controllers
+            ? AstUtils.unwrapExpression(controllers)
+            : undefined
+        if (!list || !Node.isArrayLiteralExpression(list)) return
+
+        for (const element of list.getElements()) {
+            const controller = this.getClass(element)
+            if (!controller) continue
+
+            const modules = this.controllerModules.get(controller) ?? []
+            modules.push(classDecl)
+            this.controllerModules.set(controller, modules)
+        }
+    }
+
+    private getClass(node: Node): ClassDeclaration | undefined {
+        return AstUtils.getDeclarations(AstUtils.unwrapExpression(node)).find(
+            (declaration): declaration is ClassDeclaration =>
+                Node.isClassDeclaration(declaration)
+        )
+    }
+
+    private getProperty(object: Node, name: string): Node | undefined {
+        if (!Node.isObjectLiteralExpression(object)) return undefined
+
+        const property = object.getProperty(name)
+        if (property && Node.isPropertyAssignment(property)) {
+            return property.getInitializer()
+        }
+        if (property && Node.isShorthandPropertyAssignment(property)) {
+            return property.getNameNode()
+        }
+        return undefined
+    }
+
+    // Without an enableVersioning() call in the analyzed sources, explicit
+    // @Version() metadata is still assumed to be URI versioning
+    private defaultVersioning(): VersioningOptions {
+        return {
+            uri: true,
+            prefix: 'v',
+            defaultVersions: [],
+        }
+    }
+}
@@ -0,0 +1,481 @@
+import { relative, sep } from 'path'
+import { Node, SourceFile, SyntaxKind } from 'ts-morph'
+import {
+    Parameter,
+    RouteResponse,
+    UniversalRoute,
+} from '../../types/universal-types'
+import { AstUtils, FunctionNode } from '../../utils/ast-utils'
+import { PathUtils } from '../../utils/path-utils'
+import { DocCommentReader } from './doc-comment-reader'
+import {
+    RequestParameterInferrer,
+    RequestShape,
+} from './request-parameter-inferrer'
+import { EXPRESS_RESPONSE_SHAPE, ResponseInferrer } from './response-inferrer'
+import { TypeSchemaResolver } from './type-schema-resolver'
+import { ZodSchemaReader } from './zod-schema-reader'
+
+// pages/api handlers get a NextApiRequest; dynamic segments show up in
+// req.query next to the query string
+export const NEXT_PAGES_REQUEST_SHAPE: RequestShape = {
+    sources: [
+        { accessPath: ['query'], location: 'query' },
+        { accessPath: ['body'], location: 'body' },
+        { accessPath: ['headers'], location: 'header' },
+    ],
+    headerMethods: [],
+    fieldMethods: [],
+}
+
+// Route handlers in app/**/route.ts export one function per method
+const APP_ROUTE_METHODS = [
+    'GET',
+    'POST',
+    'PUT',
+    'PATCH',
+    'DELETE',
+    'HEAD',
+    'OPTIONS',
+]
+
+// Where the routers live, relative to the project (or its src/ directory)
+const PAGES_API_DIR = ['pages', 'api']
+const APP_DIR = ['app']
+
+const ROUTE_FILE = /^route\.(ts|js|mts|mjs)$/
+const PAGE_EXTENSION = /\.(tsx?|jsx?|mts|mjs)$/
+
+// Adapters that serve a tRPC router from a pages/api route; the router's
+// procedures are documented instead of the catch-all route
+const TRPC_ADAPTERS = ['createNextApiHandler', 'fetchRequestHandler']
+
+// NextResponse.json(data, { status }), Response.json(...)
+const RESPONSE_CLASSES = ['NextResponse', 'Response']
+
+export class NextRouteExtractor {
+    private projectPath: string
+    private schemaResolver: TypeSchemaResolver
+    private docReader: DocCommentReader
+    private zodReader: ZodSchemaReader
+    private pagesParameterInferrer: RequestParameterInferrer
+    private pagesResponseInferrer: ResponseInferrer
+
+    constructor(
+        projectPath: string,
+        schemaResolver: TypeSchemaResolver,
+        docReader = new DocCommentReader()
+    ) {
+        this.projectPath = projectPath
+        this.schemaResolver = schemaResolver
+        this.docReader = docReader
+        this.zodReader = new ZodSchemaReader(schemaResolver)
+        this.pagesParameterInferrer = new RequestParameterInferrer(
+            NEXT_PAGES_REQUEST_SHAPE,
+            schemaResolver
+        )
+        // NextApiResponse has express' res.status(201).json(...)
+        this.pagesResponseInferrer = new ResponseInferrer(
+            EXPRESS_RESPONSE_SHAPE,
+            schemaResolver
+        )
+    }
+
+    extract(sourceFile: SourceFile): UniversalRoute[] {
+        const segments = this.getProjectSegments(sourceFile)
+
+        const pagesPath = this.matchDirectory(segments, PAGES_API_DIR)
+        if (pagesPath) {
+            return this.extractPagesRoute(sourceFile, ['api', ...pagesPath])
+        }
+
+        const appPath = this.matchDirectory(segments, APP_DIR)
+        if (appPath && ROUTE_FILE.test(appPath[appPath.length - 1] ?? '')) {
+            return this.extractAppRoutes(sourceFile, appPath.slice(0, -1))
+        }
+
+        return []
+    }
+
+    // pages/api/users/[id].ts: the default export handles every method the
+    // handler checks req.method against
+    private extractPagesRoute(
+        sourceFile: SourceFile,
+        segments: string[]
+    ): UniversalRoute[] {
+        const exported = sourceFile.getDefaultExportSymbol()
+        const declaration = exported?.getDeclarations()[0]
+        const handlerNode =
+            declaration && Node.isExportAssignment(declaration)
+                ? declaration.getExpression()
+                : declaration
+        if (!handlerNode || this.servesTrpc(handlerNode)) return []
+
+        const handler = AstUtils.resolveFunction(handlerNode)
+        if (!handler) return []
+
+        const fileName = segments.pop()!.replace(PAGE_EXTENSION, '')
+        const path = this.toRoutePath(
+            fileName === 'index' ? segments : [...segments, fileName]
+        )
+        if (path === null) return []
+
+        const pathNames = PathUtils.getPathParameters(path).map(
+            (segment) => segment.name
+        )
+        const parameters = this.pagesParameterInferrer
+            .infer(handler, path)
+            // Dynamic segments are read through req.query too
+            .filter(
+                (param) =>
+                    param.location !== 'query' ||
+                    !pathNames.includes(param.name)
+            )
+        const responses = this.pagesResponseInferrer.infer(handler)
+        const docs = this.docReader.read(handler)
+
+        return this.getCheckedMethods(handler).map((method) => ({
+            path,
+            method,
+            handler: this.getHandlerName(handler),
+            middleware: [],
+            parameters,
+            responses,
+            framework: 'nextjs',
+            filePath: sourceFile.getFilePath(),
+            location: AstUtils.getSourceLocation(handlerNode),
+            ...(docs ? { docs } : {}),
+        }))
+    }
+
+    // app/users/[id]/route.ts: export async function GET(request, { params })
+    private extractAppRoutes(
+        sourceFile: SourceFile,
+        segments: string[]
+    ): UniversalRoute[] {
+        const path = this.toRoutePath(segments)
+        if (path === null) return []
+
+        const routes: UniversalRoute[] = []
+        for (const [
+            name,
+            declarations,
+        ] of sourceFile.getExportedDeclarations()) {
+            if (!APP_ROUTE_METHODS.includes(name)) continue
+
+            const [declaration] = declarations
+            const handler = declaration && AstUtils.resolveFunction(declaration)
+            if (!handler) continue
+
+            const docs = this.docReader.read(declaration)
+            routes.push({
+                path,
+                method: name,
+                handler: name,
+                middleware: [],
+                parameters: this.inferAppParameters(handler, path),
+                responses: this.inferAppResponses(handler),
+                framework: 'nextjs',
+                filePath: sourceFile.getFilePath(),
+                location: AstUtils.getSourceLocation(declaration),
+                ...(docs ? { docs } : {}),
+            })
+        }
+        return routes
+    }
+
+    // params from the path, searchParams.get('q'), headers.get('x-id') and
+    // the body read with request.json()
+    private inferAppParameters(
+        handler: FunctionNode,
+        path: string
+    ): Parameter[] {
+        const parameters = new Map<string, Parameter>()
+        const add = (parameter: Parameter) => {
+            const key = `${parameter.location}:${parameter.name}`
+            if (!parameters.has(key)) parameters.set(key, parameter)
+        }
+
+        for (const segment of PathUtils.getPathParameters(path)) {
+            add({
+                name: segment.name,
+                type: 'string',
+                optional: segment.optional,
+                location: 'path',
+            })
+        }
+
+        for (const call of handler.getDescendantsOfKind(
+            SyntaxKind.CallExpression
+        )) {
+            const callee = call.getExpression()
+            if (!Node.isPropertyAccessExpression(callee)) continue
+
+            const receiver = callee.getExpression().getText()
+            const [nameArg] = call.getArguments()
+            const name = nameArg ? AstUtils.resolveStringValue(nameArg) : null
+
+            if (['get', 'getAll', 'has'].includes(callee.getName()) && name) {
+                if (/searchParams$/.test(receiver)) {
+                    add({
+                        name,
+                        type:
+                            callee.getName() === 'getAll'
+                                ? 'string[]'
+                                : 'string',
+                        optional: true,
+                        location: 'query',
+                    })
+                } else if (/headers(\(\))?$/.test(receiver)) {
+                    add({
+                        name,
+                        type: 'string',
+                        optional: true,
+                        location: 'header',
+                    })
+                }
+            }
+
+            if (
+                callee.getName() === 'json' &&
+                call.getArguments().length === 0
+            ) {
+                const body = this.describeJsonBody(call, handler)
+                if (body) add(body)
+            }
+        }
+
+        return Array.from(parameters.values())
+    }
+
+    // CreateUser.parse(await request.json()), await request.json() as
+    // CreateUser, const body: CreateUser = await request.json()
+    private describeJsonBody(
+        call: Node,
+        handler: FunctionNode
+    ): Parameter | null {
+        const [request] = handler.getParameters()
+        const callee = call.getChildAtIndex(0)
+        if (
+            !request ||
+            !Node.isPropertyAccessExpression(callee) ||
+            callee.getExpression().getText() !== request.getName()
+        ) {
+            return null
+        }
+
+        let node: Node = call
+        let parent = node.getParent()
+        while (
+            parent &&
+            (Node.isAwaitExpression(parent) ||
+                Node.isParenthesizedExpression(parent))
+        ) {
+            node = parent
+            parent = node.getParent()
+        }
+
+        if (parent && Node.isCallExpression(parent)) {
+            const parser = parent.getExpression()
+            if (
+                Node.isPropertyAccessExpression(parser) &&
+                this.zodReader.isSchema(parser.getExpression())
+            ) {
+                const { schema } = this.zodReader.convert(
+                    parser.getExpression()
+                )
+                return {
+                    name: 'body',
+                    type: this.schemaResolver.describe(schema),
+                    optional: false,
+                    location: 'body',
+                    schema,
+                }
+            }
+        }
+
+        const typed =
+            parent &&
+            (Node.isAsExpression(parent) || Node.isVariableDeclaration(parent))
+                ? parent.getTypeNode()
+                : undefined
+        const type = typed?.getType()
+        if (type && !type.isAny() && !type.isUnknown()) {
+            return {
+                name: 'body',
+                type: typed!.getText(),
+                optional: false,
+                location: 'body',
+                schema: this.schemaResolver.resolve(type, typed!),
+            }
+        }
+
+        return { name: 'body', type: 'any', optional: false, location: 'body' }
+    }
+
+    private inferAppResponses(handler: FunctionNode): RouteResponse[] {
+        const responses: RouteResponse[] = []
+
+        for (const returned of AstUtils.getReturnedExpressions(handler)) {
+            const expression = AstUtils.unwrapExpression(returned)
+            const isJson =
+                Node.isCallExpression(expression) &&
+                Node.isPropertyAccessExpression(expression.getExpression()) &&
+                expression.getExpression().getText().endsWith('.json') &&
+                RESPONSE_CLASSES.includes(
+                    expression.getExpression().getChildAtIndex(0).getText()
+                )
+            const isConstructed =
+                Node.isNewExpression(expression) &&
+                RESPONSE_CLASSES.includes(expression.getExpression().getText())
+            if (!isJson && !isConstructed) continue
+
+            const [body, init] = (
+                expression as Node & { getArguments(): Node[] }
+            ).getArguments()
+            const statusCode = (init && this.getInitStatus(init)) || '200'
+            const hasBody =
+                !!body && !['null', 'undefined'].includes(body.getText())
+
+            responses.push({
+                statusCode,
+                ...(hasBody && isJson
+                    ? this.pagesResponseInferrer.describeValue(body!)
+                    : { type: hasBody ? 'string' : 'void' }),
+            })
+        }
+
+        return this.pagesResponseInferrer.merge(responses)
+    }
+
+    // { status: 201 }
+    private getInitStatus(init: Node): string | null {
+        const expression = AstUtils.unwrapExpression(init)
+        if (!Node.isObjectLiteralExpression(expression)) return null
+
+        const status = expression.getProperty('status')
+        return status && Node.isPropertyAssignment(status)
+            ? this.pagesResponseInferrer.resolveStatusCode(
+                  status.getInitializerOrThrow()
+              )
+            : null
+    }
+
+    // req.method === 'POST', switch (req.method) { case 'GET': },
+    // ['GET', 'HEAD'].includes(req.method); ALL when nothing is checked
+    private getCheckedMethods(handler: FunctionNode): string[] {
+        const [request] = handler.getParameters()
+        const methodAccess = request ? `${request.getName()}.method` : null
+        const methods = new Set<string>()
+        const addLiteral = (node: Node | undefined) => {
+            const value = node && AstUtils.resolveStringValue(node)
+            if (value && APP_ROUTE_METHODS.includes(value.toUpperCase())) {
+                methods.add(value.toUpperCase())
+            }
+        }
+
+        if (!methodAccess) return ['ALL']
+
+        for (const comparison of handler.getDescendantsOfKind(
+            SyntaxKind.BinaryExpression
+        )) {
+            const left = comparison.getLeft().getText()
+            const right = comparison.getRight().getText()
+            if (left === methodAccess) addLiteral(comparison.getRight())
+            if (right === methodAccess) addLiteral(comparison.getLeft())
+        }
+
+        for (const switchStatement of handler.getDescendantsOfKind(
+            SyntaxKind.SwitchStatement
+        )) {
+            if (switchStatement.getExpression().getText() !== methodAccess) {
+                continue
+            }
+            for (const clause of switchStatement.getClauses()) {
+                if (Node.isCaseClause(clause))
+                    addLiteral(clause.getExpression())
+            }
+        }
+
+        for (const call of handler.getDescendantsOfKind(
+            SyntaxKind.CallExpression
+        )) {
+            const callee = call.getExpression()
+            const [argument] = call.getArguments()
+            const list =
+                Node.isPropertyAccessExpression(callee) &&
+                callee.getName() === 'includes' &&
+                argument?.getText() === methodAccess
+                    ? AstUtils.unwrapExpression(callee.getExpression())
+                    : null
+            if (list && Node.isArrayLiteralExpression(list)) {
+                list.getElements().forEach(addLiteral)
+            }
+        }
+
+        return methods.size > 0 ? Array.from(methods) : ['ALL']
+    }
+
+    // [id] -> :id, [...slug] -> :slug, [[...slug]] -> :slug?; route groups
+    // (marketing) and parallel slots @modal add nothing; _private folders
+    // are not routable
+    private toRoutePath(segments: string[]): string | null {
+        const parts: string[] = []
+
+        for (const segment of segments) {
+            if (segment.startsWith('_')) return null
+            if (/^\(.*\)$/.test(segment) || segment.startsWith('@')) continue
+
+            const optionalCatchAll = segment.match(/^\[\[\.\.\.(.+)\]\]$/)
+            const dynamic = segment.match(/^\[(?:\.\.\.)?(.+)\]$/)
+            if (optionalCatchAll) parts.push(`:${optionalCatchAll[1]}?`)
+            else if (dynamic) parts.push(`:${dynamic[1]}`)
+            else parts.push(segment)
+        }
+
+        return PathUtils.joinRoutePaths(...parts)
+    }
+
+    // The rest of the file path once inside pages/api or app, at the project
+    // root or in src/
+    private matchDirectory(
+        segments: string[],
+        directory: string[]
+    ): string[] | null {
+        for (const base of [[], ['src']]) {
+            const prefix = [...base, ...directory]
+            if (prefix.every((segment, index) => segments[index] === segment)) {
+                return segments.slice(prefix.length)
+            }
+        }
+        return null
+    }
+
+    private getProjectSegments(sourceFile: SourceFile): string[] {
+        return relative(this.projectPath, sourceFile.getFilePath()).split(sep)
+    }
+
+    // export default createNextApiHandler({ router: appRouter })
+    private servesTrpc(handlerNode: Node): boolean {
+        const expression = AstUtils.unwrapExpression(handlerNode)
+        return (
+            Node.isCallExpression(expression) &&
+            TRPC_ADAPTERS.some((adapter) =>
+                expression.getExpression().getText().endsWith(adapter)
+            )
+        )
+    }
+
+    private getHandlerName(handler: FunctionNode): string {
+        if (
+            Node.isFunctionDeclaration(handler) ||
+            Node.isFunctionExpression(handler)
+        ) {
+            return handler.getName() || 'handler'
+        }
+        const variable = handler.getFirstAncestorByKind(
+            SyntaxKind.VariableDeclaration
+        )
+        return variable?.getName() || 'handler'
+    }
+}
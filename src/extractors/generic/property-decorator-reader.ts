@@ -0,0 +1,363 @@
+import { Decorator, Node, PropertyDeclaration } from 'ts-morph'
+import { JsonSchema } from '../../types/universal-types'
+import { AstUtils } from '../../utils/ast-utils'
+import type { TypeSchemaResolver } from './type-schema-resolver'
+
+// What class-validator, class-transformer and @nestjs/swagger decorators
+// say about a DTO property
+export interface PropertyRules {
+    // JSON Schema keywords to merge into the property's schema
+    constraints: JsonSchema
+    // Validators applied to each array element ({ each: true })
+    itemConstraints: JsonSchema
+    // Replaces the schema derived from the TypeScript type (@Type(() => X))
+    schemaOverride?: JsonSchema | undefined
+    optional: boolean
+    // @Exclude() / @ApiHideProperty(): not part of the payload
+    excluded: boolean
+    // @Expose({ name: 'user_name' })
+    serializedName?: string | undefined
+}
+
+// Validators that imply a string format
+const FORMAT_DECORATORS: Record<string, string> = {
+    IsEmail: 'email',
+    IsUrl: 'uri',
+    IsUUID: 'uuid',
+    IsDateString: 'date-time',
+    IsISO8601: 'date-time',
+    IsIP: 'ip',
+}
+
+// Validators that pin down the JSON type
+const TYPE_DECORATORS: Record<string, string> = {
+    IsString: 'string',
+    IsNumber: 'number',
+    IsInt: 'integer',
+    IsBoolean: 'boolean',
+    IsArray: 'array',
+    IsObject: 'object',
+}
+
+// Validators whose first argument is a JSON Schema limit
+const LIMIT_DECORATORS: Record<string, string> = {
+    MinLength: 'minLength',
+    MaxLength: 'maxLength',
+    Min: 'minimum',
+    Max: 'maximum',
+    ArrayMinSize: 'minItems',
+    ArrayMaxSize: 'maxItems',
+}
+
+// @ApiProperty() options copied over as-is
+const API_PROPERTY_KEYWORDS = [
+    'description',
+    'format',
+    'default',
+    'minimum',
+    'maximum',
+    'exclusiveMinimum',
+    'exclusiveMaximum',
+    'minLength',
+    'maxLength',
+    'pattern',
+    'minItems',
+    'maxItems',
+    'uniqueItems',
+    'deprecated',
+    'readOnly',
+    'writeOnly',
+]
+
+// @Type(() => String) and friends describe primitives
+const CONSTRUCTOR_SCHEMAS: Record<string, JsonSchema> = {
+    String: { type: 'string' },
+    Number: { type: 'number' },
+    Boolean: { type: 'boolean' },
+    Date: { type: 'string', format: 'date-time' },
+    // GraphQL scalars (@Field(() => Int))
+    Int: { type: 'integer' },
+    Float: { type: 'number' },
+    ID: { type: 'string' },
+    GraphQLISODateTime: { type: 'string', format: 'date-time' },
+    GraphQLTimestamp: { type: 'integer' },
+}
+
+export class PropertyDecoratorReader {
+    private schemaResolver: TypeSchemaResolver
+
+    constructor(schemaResolver: TypeSchemaResolver) {
+        this.schemaResolver = schemaResolver
+    }
+
+    read(property: PropertyDeclaration): PropertyRules {
+        const rules: PropertyRules = {
+            constraints: {},
+            itemConstraints: {},
+            optional: false,
+            excluded: false,
+        }
+
+        for (const decorator of property.getDecorators()) {
+            const name = decorator.getName()
+            const args = decorator.getArguments()
+            const target = this.appliesToEach(args)
+                ? rules.itemConstraints
+                : rules.constraints
+
+            if (FORMAT_DECORATORS[name]) {
+                target.format = FORMAT_DECORATORS[name]
+            } else if (TYPE_DECORATORS[name]) {
+                target.type = TYPE_DECORATORS[name]
+            } else if (LIMIT_DECORATORS[name]) {
+                const limit = args[0] && AstUtils.resolveLiteralValue(args[0])
+                if (typeof limit === 'number') {
+                    target[LIMIT_DECORATORS[name]!] = limit
+                }
+            } else {
+                this.applyDecorator(decorator, property, rules, target)
+            }
+        }
+
+        return rules
+    }
+
+    // Property schema derived from the TypeScript type, refined by the rules
+    applyRules(schema: JsonSchema, rules: PropertyRules): JsonSchema {
+        let result = schema
+        if (rules.schemaOverride) {
+            // @Type(() => Item) on an Item[] property describes the elements
+            result =
+                schema.type === 'array' && rules.schemaOverride.type !== 'array'
+                    ? { type: 'array', items: rules.schemaOverride }
+                    : { ...rules.schemaOverride }
+        }
+
+        result = { ...result, ...rules.constraints }
+        if (Object.keys(rules.itemConstraints).length > 0 && result.items) {
+            result.items = { ...result.items, ...rules.itemConstraints }
+        }
+        return result
+    }
+
+    private applyDecorator(
+        decorator: Decorator,
+        property: PropertyDeclaration,
+        rules: PropertyRules,
+        target: JsonSchema
+    ): void {
+        const args = decorator.getArguments()
+        const [first, second] = args.map((arg) =>
+            AstUtils.resolveLiteralValue(arg)
+        )
+
+        switch (decorator.getName()) {
+            case 'Length':
+                if (typeof first === 'number') target.minLength = first
+                if (typeof second === 'number') target.maxLength = second
+                break
+            case 'IsPositive':
+                target.exclusiveMinimum = 0
+                break
+            case 'IsNegative':
+                target.exclusiveMaximum = 0
+                break
+            case 'IsNotEmpty':
+                if (property.getType().isString()) target.minLength = 1
+                break
+            case 'ArrayNotEmpty':
+                target.minItems = 1
+                break
+            case 'ArrayUnique':
+                target.uniqueItems = true
+                break
+            case 'Matches': {
+                const pattern = args[0] && this.resolvePattern(args[0])
+                if (pattern) target.pattern = pattern
+                break
+            }
+            case 'IsIn':
+                if (Array.isArray(first)) target.enum = first
+                break
+            case 'IsEnum': {
+                const schema = args[0] && this.resolveEnum(args[0])
+                if (schema) Object.assign(target, schema)
+                break
+            }
+            case 'IsOptional':
+                rules.optional = true
+                break
+            case 'Type': {
+                // class-transformer: @Type(() => AddressDto)
+                const schema = args[0] && this.resolveTypeFactory(args[0])
+                if (schema) rules.schemaOverride = schema
+                break
+            }
+            case 'Exclude':
+            case 'ApiHideProperty':
+                rules.excluded = true
+                break
+            case 'Expose':
+                if (this.isRecord(first) && typeof first['name'] === 'string') {
+                    rules.serializedName = first['name']
+                }
+                break
+            case 'ApiPropertyOptional':
+                rules.optional = true
+                this.applyApiProperty(args[0], rules)
+                break
+            case 'ApiProperty':
+                this.applyApiProperty(args[0], rules)
+                break
+            case 'Field':
+                this.applyField(args, rules)
+                break
+        }
+    }
+
+    private applyApiProperty(
+        optionsNode: Node | undefined,
+        rules: PropertyRules
+    ): void {
+        const optionsObject = optionsNode
+            ? AstUtils.unwrapExpression(optionsNode)
+            : undefined
+        if (!optionsObject || !Node.isObjectLiteralExpression(optionsObject)) {
+            return
+        }
+
+        const options = AstUtils.resolveLiteralValue(optionsObject)
+        if (!this.isRecord(options)) return
+
+        for (const keyword of API_PROPERTY_KEYWORDS) {
+            if (options[keyword] !== undefined) {
+                rules.constraints[keyword] = options[keyword]
+            }
+        }
+        if (options['example'] !== undefined) {
+            rules.constraints['examples'] = [options['example']]
+        }
+        if (options['required'] === false) rules.optional = true
+
+        // enum: Role / enum: ['a', 'b'], type: () => User / type: [User]
+        const enumNode = this.getOption(optionsObject, 'enum')
+        const enumSchema = enumNode && this.resolveEnum(enumNode)
+        if (enumSchema) Object.assign(rules.constraints, enumSchema)
+
+        const typeNode = this.getOption(optionsObject, 'type')
+        const typeSchema = typeNode && this.resolveTypeFactory(typeNode)
+        if (typeSchema) {
+            rules.schemaOverride =
+                options['isArray'] === true
+                    ? { type: 'array', items: typeSchema }
+                    : typeSchema
+        }
+    }
+
+    // @nestjs/graphql and type-graphql: @Field(() => [Int], { nullable })
+    private applyField(args: Node[], rules: PropertyRules): void {
+        const [typeNode] = args.filter((arg) =>
+            Node.isArrowFunction(AstUtils.unwrapExpression(arg))
+        )
+        const typeSchema = typeNode && this.resolveTypeFactory(typeNode)
+        if (typeSchema) rules.schemaOverride = typeSchema
+
+        const options = args.length
+            ? AstUtils.resolveLiteralValue(args[args.length - 1]!)
+            : undefined
+        if (!this.isRecord(options)) return
+
+        if (options['nullable'] === true) rules.optional = true
+        if (typeof options['description'] === 'string') {
+            rules.constraints.description = options['description']
+        }
+        if (options['deprecationReason'] !== undefined) {
+            rules.constraints['deprecated'] = true
+        }
+        if (options['defaultValue'] !== undefined) {
+            rules.constraints['default'] = options['defaultValue']
+        }
+    }
+
+    // class-validator options ({ each: true }) come last
+    private appliesToEach(args: Node[]): boolean {
+        const options = args.length
+            ? AstUtils.resolveLiteralValue(args[args.length - 1]!)
+            : undefined
+        return this.isRecord(options) && options['each'] === true
+    }
+
+    // IsEnum(Role), IsEnum(['a', 'b']), IsEnum(ROLES) with a const object
+    resolveEnum(node: Node): JsonSchema | null {
+        const expression = AstUtils.unwrapExpression(node)
+        const enumDeclaration = AstUtils.getDeclarations(expression).find(
+            (declaration) => Node.isEnumDeclaration(declaration)
+        )
+        if (enumDeclaration) {
+            return this.schemaResolver.resolve(
+                enumDeclaration.getType(),
+                enumDeclaration
+            )
+        }
+
+        const value = AstUtils.resolveLiteralValue(expression)
+        const values = Array.isArray(value)
+            ? value
+            : this.isRecord(value)
+            ? Object.values(value)
+            : null
+        if (!values?.length) return null
+
+        const types = Array.from(new Set(values.map((item) => typeof item)))
+        return {
+            type: types.length === 1 ? types[0]! : types,
+            enum: values as (string | number)[],
+        }
+    }
+
+    // () => AddressDto, AddressDto, [AddressDto]
+    resolveTypeFactory(node: Node): JsonSchema | null {
+        let expression = AstUtils.unwrapExpression(node)
+        if (Node.isArrowFunction(expression)) {
+            expression = AstUtils.unwrapExpression(expression.getBody())
+        }
+
+        if (Node.isArrayLiteralExpression(expression)) {
+            const [element] = expression.getElements()
+            const items = element ? this.resolveTypeFactory(element) : null
+            return items ? { type: 'array', items } : null
+        }
+
+        const constructorSchema = CONSTRUCTOR_SCHEMAS[expression.getText()]
+        if (constructorSchema) return { ...constructorSchema }
+
+        const declaration = AstUtils.getDeclarations(expression).find(
+            (candidate) =>
+                Node.isClassDeclaration(candidate) ||
+                Node.isEnumDeclaration(candidate)
+        )
+        return declaration
+            ? this.schemaResolver.resolve(declaration.getType(), declaration)
+            : null
+    }
+
+    private resolvePattern(node: Node): string | null {
+        const expression = AstUtils.unwrapExpression(node)
+        if (Node.isRegularExpressionLiteral(expression)) {
+            return expression.getLiteralValue().source
+        }
+        return AstUtils.resolveStringValue(expression)
+    }
+
+    private getOption(optionsObject: Node, name: string): Node | undefined {
+        if (!Node.isObjectLiteralExpression(optionsObject)) return undefined
+        const property = optionsObject.getProperty(name)
+        return property && Node.isPropertyAssignment(property)
+            ? property.getInitializer()
+            : undefined
+    }
+
+    private isRecord(value: unknown): value is Record<string, unknown> {
+        return !!value && typeof value === 'object' && !Array.isArray(value)
+    }
+}
@@ -0,0 +1,613 @@
+import {
+    Node,
+    ObjectBindingPattern,
+    Symbol as MorphSymbol,
+    SyntaxKind,
+    Type,
+} from 'ts-morph'
+import {
+    JsonSchema,
+    Parameter,
+    ParameterLocation,
+} from '../../types/universal-types'
+import { AstUtils, FunctionNode } from '../../utils/ast-utils'
+import { PathUtils } from '../../utils/path-utils'
+import { TypeSchemaResolver } from './type-schema-resolver'
+import { ZodSchemaReader } from './zod-schema-reader'
+
+// Where request data lives relative to the handler's first argument
+export interface RequestSource {
+    accessPath: string[]
+    location: ParameterLocation
+}
+
+// A method reading one named field: c.req.param('id'), c.req.query('page')
+export interface RequestFieldMethod {
+    // Where the method lives relative to the handler's first argument
+    receiverPath: string[]
+    method: string
+    location: ParameterLocation
+}
+
+export interface RequestShape {
+    sources: RequestSource[]
+    // Methods on the request that read one header: req.get('x-api-key')
+    headerMethods: string[]
+    fieldMethods: RequestFieldMethod[]
+}
+
+// A schema a route declares for one part of the request (fastify `schema`)
+export interface RequestSchema {
+    location: ParameterLocation
+    schema: JsonSchema
+    // Name to document a whole body under, e.g. the schema's variable
+    type?: string | undefined
+}
+
+export const EXPRESS_REQUEST_SHAPE: RequestShape = {
+    sources: [
+        { accessPath: ['params'], location: 'path' },
+        { accessPath: ['query'], location: 'query' },
+        { accessPath: ['body'], location: 'body' },
+        { accessPath: ['headers'], location: 'header' },
+    ],
+    headerMethods: ['get', 'header'],
+    fieldMethods: [],
+}
+
+export const FASTIFY_REQUEST_SHAPE: RequestShape = {
+    sources: EXPRESS_REQUEST_SHAPE.sources,
+    headerMethods: [],
+    fieldMethods: [],
+}
+
+// koa handlers read the request through ctx, which also delegates common
+// request fields (ctx.query is ctx.request.query)
+export const KOA_REQUEST_SHAPE: RequestShape = {
+    sources: [
+        { accessPath: ['params'], location: 'path' },
+        { accessPath: ['query'], location: 'query' },
+        { accessPath: ['request', 'query'], location: 'query' },
+        { accessPath: ['request', 'body'], location: 'body' },
+        { accessPath: ['headers'], location: 'header' },
+        { accessPath: ['request', 'headers'], location: 'header' },
+    ],
+    headerMethods: ['get'],
+    fieldMethods: [],
+}
+
+// Container types that say nothing about individual fields
+const UNTYPED_CONTAINERS = [
+    'ParamsDictionary',
+    'ParsedQs',
+    'ParsedUrlQuery',
+    'IncomingHttpHeaders',
+]
+
+const NUMBER_CONVERSIONS = ['Number', 'parseInt', 'parseFloat']
+
+// What a validation middleware checks: validate({ query: ListQuery }),
+// zValidator('json', CreateUser)
+const VALIDATION_TARGETS: Record<string, ParameterLocation> = {
+    body: 'body',
+    json: 'body',
+    form: 'body',
+    query: 'query',
+    querystring: 'query',
+    params: 'path',
+    param: 'path',
+    headers: 'header',
+    header: 'header',
+}
+
+const PARSE_METHODS = ['parse', 'safeParse', 'parseAsync', 'safeParseAsync']
+
+export class RequestParameterInferrer {
+    private shape: RequestShape
+    private schemaResolver: TypeSchemaResolver
+    private zodReader: ZodSchemaReader
+
+    constructor(shape: RequestShape, schemaResolver: TypeSchemaResolver) {
+        this.shape = shape
+        this.schemaResolver = schemaResolver
+        this.zodReader = new ZodSchemaReader(schemaResolver)
+    }
+
+    infer(
+        handler: Node,
+        routePath: string,
+        middleware: Node[] = [],
+        declaredSchemas: RequestSchema[] = []
+    ): Parameter[] {
+        const parameters = new Map<string, Parameter>()
+        const add = (parameter: Parameter) => {
+            const key = `${parameter.location}:${parameter.name}`
+            if (!parameters.has(key)) parameters.set(key, parameter)
+        }
+
+        const fn = AstUtils.resolveFunction(handler)
+
+        // Schemas the request is declared or validated against are the most
+        // precise
+        declaredSchemas
+            .flatMap((declared) => this.describeSchema(declared))
+            .forEach(add)
+        this.inferFromValidation(middleware, fn).forEach(add)
+
+        if (fn) {
+            // Typed generics (Request<Params, ResBody, ReqBody, Query>) win
+            // over what can be guessed from usage
+            this.inferFromDeclaredTypes(fn).forEach(add)
+            this.inferFromUsage(fn).forEach(add)
+        }
+
+        // Path segments are parameters even when the handler ignores them
+        for (const segment of PathUtils.getPathParameters(routePath)) {
+            add({
+                name: segment.name,
+                type: 'string',
+                optional: segment.optional,
+                location: 'path',
+            })
+        }
+
+        // A body documented as a whole already covers the fields read from it
+        const wholeBody = parameters.get('body:body')?.schema
+        return Array.from(parameters.values()).filter(
+            (parameter) =>
+                !wholeBody ||
+                parameter.location !== 'body' ||
+                parameter.name === 'body'
+        )
+    }
+
+    private inferFromDeclaredTypes(fn: FunctionNode): Parameter[] {
+        const [request] = fn.getParameters()
+        if (!request) return []
+
+        const parameters: Parameter[] = []
+        for (const source of this.shape.sources) {
+            let containerType: Type | undefined = request.getType()
+            for (const segment of source.accessPath) {
+                containerType = containerType
+                    .getProperty(segment)
+                    ?.getTypeAtLocation(fn)
+                if (!containerType) break
+            }
+            if (!containerType) continue
+
+            const symbolName = (
+                containerType.getAliasSymbol() ?? containerType.getSymbol()
+            )?.getName()
+            if (
+                containerType.isAny() ||
+                containerType.isUnknown() ||
+                containerType.getProperties().length === 0 ||
+                (symbolName && UNTYPED_CONTAINERS.includes(symbolName))
+            ) {
+                continue
+            }
+
+            // A typed body is documented as a whole rather than field by field
+            if (source.location === 'body') {
+                parameters.push({
+                    name: 'body',
+                    type: AstUtils.getTypeText(containerType, fn),
+                    optional: false,
+                    location: 'body',
+                    schema: this.schemaResolver.resolve(containerType, fn),
+                })
+                continue
+            }
+
+            for (const property of containerType.getProperties()) {
+                parameters.push({
+                    name: property.getName(),
+                    type: this.getPropertyTypeText(property, fn),
+                    optional: property.isOptional(),
+                    location: source.location,
+                    schema: this.schemaResolver.resolve(
+                        property.getTypeAtLocation(fn),
+                        fn
+                    ),
+                })
+            }
+        }
+
+        return parameters
+    }
+
+    private inferFromValidation(
+        middleware: Node[],
+        fn: FunctionNode | null
+    ): Parameter[] {
+        const parameters: Parameter[] = []
+
+        // validate(CreateUserSchema), validate({ query: ListQuerySchema }),
+        // zValidator('json', CreateUserSchema)
+        for (const node of middleware) {
+            const call = AstUtils.unwrapExpression(node)
+            if (!Node.isCallExpression(call)) continue
+
+            const [first] = call.getArguments()
+            const target = first ? AstUtils.resolveStringValue(first) : null
+
+            for (const arg of call.getArguments()) {
+                const expression = AstUtils.unwrapExpression(arg)
+                if (this.zodReader.isSchema(expression)) {
+                    const location =
+                        (target && VALIDATION_TARGETS[target]) ||
+                        this.getValidatorLocation(call.getExpression())
+                    parameters.push(
+                        ...this.describeValidated(expression, location)
+                    )
+                    continue
+                }
+
+                if (!Node.isObjectLiteralExpression(expression)) continue
+                for (const property of expression.getProperties()) {
+                    if (!Node.isPropertyAssignment(property)) continue
+
+                    const location = VALIDATION_TARGETS[property.getName()]
+                    const value = property.getInitializer()
+                    if (location && value && this.zodReader.isSchema(value)) {
+                        parameters.push(
+                            ...this.describeValidated(value, location)
+                        )
+                    }
+                }
+            }
+        }
+
+        // CreateUserSchema.parse(req.body), ListQuery.safeParse(req.query)
+        const body = fn?.getBody()
+        if (!fn || !body) return parameters
+
+        const aliases = this.collectAliases(fn, body, [])
+        for (const call of body.getDescendantsOfKind(
+            SyntaxKind.CallExpression
+        )) {
+            const callee = call.getExpression()
+            const [input] = call.getArguments()
+            if (
+                !input ||
+                !Node.isPropertyAccessExpression(callee) ||
+                !PARSE_METHODS.includes(callee.getName()) ||
+                !this.zodReader.isSchema(callee.getExpression())
+            ) {
+                continue
+            }
+
+            const path = this.getAccessPath(input, aliases)
+            const source = this.shape.sources.find(
+                (candidate) =>
+                    path?.length === candidate.accessPath.length &&
+                    candidate.accessPath.every(
+                        (segment, i) => path[i] === segment
+                    )
+            )
+            if (source) {
+                parameters.push(
+                    ...this.describeValidated(
+                        callee.getExpression(),
+                        source.location
+                    )
+                )
+            }
+        }
+
+        return parameters
+    }
+
+    private describeValidated(
+        schemaNode: Node,
+        location: ParameterLocation
+    ): Parameter[] {
+        const { schema } = this.zodReader.convert(schemaNode)
+        return this.describeSchema({ location, schema })
+    }
+
+    // A body schema stays whole; other locations are listed field by field
+    private describeSchema({
+        location,
+        schema,
+        type,
+    }: RequestSchema): Parameter[] {
+        if (location === 'body') {
+            return [
+                {
+                    name: 'body',
+                    type: type ?? this.schemaResolver.describe(schema),
+                    optional: false,
+                    location,
+                    schema,
+                },
+            ]
+        }
+
+        const fields = this.schemaResolver.dereference(schema).properties ?? {}
+        return this.schemaResolver.getProperties(schema).map((property) => ({
+            name: property.name,
+            type: property.type,
+            optional: location !== 'path' && property.optional,
+            location,
+            schema: fields[property.name],
+        }))
+    }
+
+    // validateQuery(schema), validateParams(schema), validateBody(schema)
+    private getValidatorLocation(callee: Node): ParameterLocation {
+        const name = callee.getText().toLowerCase()
+        if (name.includes('query')) return 'query'
+        if (name.includes('param')) return 'path'
+        if (name.includes('header')) return 'header'
+        return 'body'
+    }
+
+    private inferFromUsage(fn: FunctionNode): Parameter[] {
+        const body = fn.getBody()
+        if (!body) return []
+
+        const parameters: Parameter[] = []
+        const aliases = this.collectAliases(fn, body, parameters)
+
+        // req.params.id, req.query['page'], params.id
+        for (const access of [
+            ...body.getDescendantsOfKind(SyntaxKind.PropertyAccessExpression),
+            ...body.getDescendantsOfKind(SyntaxKind.ElementAccessExpression),
+        ]) {
+            const path = this.getAccessPath(access, aliases)
+            const field = path ? this.matchSourceField(path) : null
+            if (!field) continue
+
+            parameters.push({
+                name: field.name,
+                type: this.inferUsageType(access, field.location),
+                optional: this.isOptionalUsage(access, field.location),
+                location: field.location,
+            })
+        }
+
+        // req.get('x-api-key'), req.header('authorization'),
+        // c.req.param('id')
+        const fieldMethods: RequestFieldMethod[] = [
+            ...this.shape.headerMethods.map((method) => ({
+                receiverPath: [],
+                method,
+                location: 'header' as const,
+            })),
+            ...this.shape.fieldMethods,
+        ]
+        for (const call of body.getDescendantsOfKind(
+            SyntaxKind.CallExpression
+        )) {
+            const callee = call.getExpression()
+            if (!Node.isPropertyAccessExpression(callee)) continue
+
+            const receiverPath = this.getAccessPath(
+                callee.getExpression(),
+                aliases
+            )
+            const fieldMethod = fieldMethods.find(
+                (candidate) =>
+                    candidate.method === callee.getName() &&
+                    receiverPath?.length === candidate.receiverPath.length &&
+                    candidate.receiverPath.every(
+                        (segment, i) => receiverPath[i] === segment
+                    )
+            )
+            const [nameArg] = call.getArguments()
+            const name = nameArg ? AstUtils.resolveStringValue(nameArg) : null
+            if (!fieldMethod || name === null) continue
+
+            parameters.push({
+                name,
+                type: this.inferUsageType(call, fieldMethod.location),
+                optional: fieldMethod.location !== 'path',
+                location: fieldMethod.location,
+            })
+        }
+
+        return parameters
+    }
+
+    // Local names bound to the request or part of it, with their path;
+    // fields bound along the way are added to parameters
+    private collectAliases(
+        fn: FunctionNode,
+        body: Node,
+        parameters: Parameter[]
+    ): Map<string, string[]> {
+        const [request] = fn.getParameters()
+        const aliases = new Map<string, string[]>()
+        if (!request) return aliases
+
+        const requestName = request.getNameNode()
+        if (Node.isIdentifier(requestName)) {
+            aliases.set(requestName.getText(), [])
+        } else if (Node.isObjectBindingPattern(requestName)) {
+            // ({ params, body }, res) => ...
+            this.collectBindings(requestName, [], aliases, parameters)
+        }
+
+        // const { id } = req.params / const query = req.query
+        for (const declaration of body.getDescendantsOfKind(
+            SyntaxKind.VariableDeclaration
+        )) {
+            const initializer = declaration.getInitializer()
+            const path = initializer
+                ? this.getAccessPath(initializer, aliases)
+                : null
+            if (!path) continue
+
+            const nameNode = declaration.getNameNode()
+            if (Node.isObjectBindingPattern(nameNode)) {
+                this.collectBindings(nameNode, path, aliases, parameters)
+            } else if (Node.isIdentifier(nameNode)) {
+                this.bindPath(
+                    nameNode.getText(),
+                    path,
+                    false,
+                    nameNode,
+                    aliases,
+                    parameters
+                )
+            }
+        }
+
+        return aliases
+    }
+
+    private collectBindings(
+        pattern: ObjectBindingPattern,
+        basePath: string[],
+        aliases: Map<string, string[]>,
+        parameters: Parameter[]
+    ): void {
+        for (const element of pattern.getElements()) {
+            if (element.getDotDotDotToken()) continue
+
+            const nameNode = element.getNameNode()
+            const propertyName =
+                element.getPropertyNameNode()?.getText() ?? nameNode.getText()
+            const path = [...basePath, propertyName]
+
+            if (Node.isObjectBindingPattern(nameNode)) {
+                this.collectBindings(nameNode, path, aliases, parameters)
+                continue
+            }
+
+            this.bindPath(
+                nameNode.getText(),
+                path,
+                !!element.getInitializer(),
+                element,
+                aliases,
+                parameters
+            )
+        }
+    }
+
+    // A bound name is either a source field (a parameter) or an alias for
+    // the request/one of its sources
+    private bindPath(
+        localName: string,
+        path: string[],
+        hasDefault: boolean,
+        node: Node,
+        aliases: Map<string, string[]>,
+        parameters: Parameter[]
+    ): void {
+        const field = this.matchSourceField(path)
+        if (field) {
+            parameters.push({
+                name: field.name,
+                type: this.inferUsageType(node, field.location),
+                optional:
+                    hasDefault ||
+                    field.location === 'query' ||
+                    field.location === 'header',
+                location: field.location,
+            })
+            return
+        }
+
+        const leadsToSource = [
+            ...this.shape.sources.map((source) => source.accessPath),
+            ...this.shape.fieldMethods.map((method) => method.receiverPath),
+        ].some((accessPath) =>
+            path.every((segment, index) => accessPath[index] === segment)
+        )
+        if (leadsToSource) aliases.set(localName, path)
+    }
+
+    private getAccessPath(
+        node: Node,
+        aliases: Map<string, string[]>
+    ): string[] | null {
+        const expression = AstUtils.unwrapExpression(node)
+
+        if (Node.isIdentifier(expression)) {
+            return aliases.get(expression.getText()) ?? null
+        }
+
+        if (Node.isPropertyAccessExpression(expression)) {
+            const base = this.getAccessPath(expression.getExpression(), aliases)
+            return base ? [...base, expression.getName()] : null
+        }
+
+        if (Node.isElementAccessExpression(expression)) {
+            const argument = expression.getArgumentExpression()
+            const key = argument ? AstUtils.resolveStringValue(argument) : null
+            const base = this.getAccessPath(expression.getExpression(), aliases)
+            return base && key !== null ? [...base, key] : null
+        }
+
+        return null
+    }
+
+    // ['params', 'id'] -> { name: 'id', location: 'path' }
+    private matchSourceField(
+        path: string[]
+    ): { name: string; location: ParameterLocation } | null {
+        for (const source of this.shape.sources) {
+            const length = source.accessPath.length
+            if (
+                path.length === length + 1 &&
+                source.accessPath.every((segment, i) => path[i] === segment)
+            ) {
+                return { name: path[length]!, location: source.location }
+            }
+        }
+        return null
+    }
+
+    private inferUsageType(node: Node, location: ParameterLocation): string {
+        const parent = node.getParent()
+
+        // Number(req.query.page), parseInt(req.params.id), +req.query.limit
+        if (
+            (Node.isCallExpression(parent) &&
+                NUMBER_CONVERSIONS.includes(
+                    parent.getExpression().getText()
+                )) ||
+            (Node.isPrefixUnaryExpression(parent) &&
+                parent.getOperatorToken() === SyntaxKind.PlusToken)
+        ) {
+            return 'number'
+        }
+
+        return location === 'body' ? 'any' : 'string'
+    }
+
+    private isOptionalUsage(node: Node, location: ParameterLocation): boolean {
+        if (location === 'path') return false
+
+        // req.body.role ?? 'user'
+        const parent = node.getParent()
+        if (
+            Node.isBinaryExpression(parent) &&
+            parent.getLeft() === node &&
+            ['||', '??'].includes(parent.getOperatorToken().getText())
+        ) {
+            return true
+        }
+
+        return location !== 'body'
+    }
+
+    private getPropertyTypeText(property: MorphSymbol, fn: FunctionNode) {
+        const declaration = property.getValueDeclaration()
+        const typeNode =
+            declaration &&
+            (Node.isPropertySignature(declaration) ||
+                Node.isPropertyDeclaration(declaration))
+                ? declaration.getTypeNode()
+                : undefined
+
+        return (
+            typeNode?.getText() ??
+            AstUtils.getTypeText(property.getTypeAtLocation(fn), fn)
+        )
+    }
+}
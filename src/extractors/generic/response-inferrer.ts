@@ -0,0 +1,385 @@
+import {
+    BinaryExpression,
+    Node,
+    ParameterDeclaration,
+    SyntaxKind,
+    Type,
+} from 'ts-morph'
+import { RouteResponse } from '../../types/universal-types'
+import { AstUtils, FunctionNode } from '../../utils/ast-utils'
+import { TypeSchemaResolver } from './type-schema-resolver'
+
+// How a framework's response object sends data
+export interface ResponseShape {
+    // Which handler parameter is the response object (koa: the context)
+    responseParameterIndex: number
+    // res.status(201), reply.code(201)
+    statusMethods: string[]
+    // res.json(user), reply.send(user)
+    sendMethods: string[]
+    // res.sendStatus(204)
+    statusOnlyMethods: string[]
+    // c.json(user, 201) takes the status after the body
+    statusArgument: boolean
+    // ctx.status = 201 / ctx.body = user
+    statusProperties: string[]
+    bodyProperties: string[]
+    // ctx.throw(404, 'Not found')
+    errorMethods: string[]
+    // Whether a value returned from the handler becomes the response body
+    returnsBody: boolean
+}
+
+export const EXPRESS_RESPONSE_SHAPE: ResponseShape = {
+    responseParameterIndex: 1,
+    statusMethods: ['status'],
+    sendMethods: ['json', 'jsonp', 'send', 'end'],
+    statusOnlyMethods: ['sendStatus'],
+    statusArgument: false,
+    statusProperties: [],
+    bodyProperties: [],
+    errorMethods: [],
+    returnsBody: false,
+}
+
+export const FASTIFY_RESPONSE_SHAPE: ResponseShape = {
+    responseParameterIndex: 1,
+    statusMethods: ['code', 'status'],
+    sendMethods: ['send'],
+    statusOnlyMethods: [],
+    statusArgument: false,
+    statusProperties: [],
+    bodyProperties: [],
+    errorMethods: [],
+    returnsBody: true,
+}
+
+export const KOA_RESPONSE_SHAPE: ResponseShape = {
+    responseParameterIndex: 0,
+    statusMethods: [],
+    sendMethods: [],
+    statusOnlyMethods: [],
+    statusArgument: false,
+    statusProperties: ['status'],
+    bodyProperties: ['body'],
+    errorMethods: ['throw'],
+    returnsBody: false,
+}
+
+// Wrappers whose type argument is what actually gets sent
+const ASYNC_WRAPPERS = ['Promise', 'Observable']
+
+export class ResponseInferrer {
+    private shape: ResponseShape
+    private schemaResolver: TypeSchemaResolver
+
+    constructor(shape: ResponseShape, schemaResolver: TypeSchemaResolver) {
+        this.shape = shape
+        this.schemaResolver = schemaResolver
+    }
+
+    // Responses sent through the response object (the handler's second
+    // parameter unless given) and, where supported, returned values
+    infer(
+        handler: Node,
+        responseParameter?: ParameterDeclaration
+    ): RouteResponse[] {
+        const fn = AstUtils.resolveFunction(handler)
+        if (!fn) return []
+
+        const response =
+            responseParameter ??
+            fn.getParameters()[this.shape.responseParameterIndex]
+        const responseName = response?.getNameNode()
+        const responses: RouteResponse[] = []
+
+        if (responseName && Node.isIdentifier(responseName)) {
+            responses.push(
+                ...this.inferFromResponseCalls(fn, responseName.getText()),
+                ...this.inferFromAssignments(fn, responseName.getText())
+            )
+        }
+
+        if (this.shape.returnsBody) {
+            const sentName =
+                responseName && Node.isIdentifier(responseName)
+                    ? responseName.getText()
+                    : null
+            for (const returned of AstUtils.getReturnedExpressions(fn)) {
+                // return reply.code(201).send(user) is already covered
+                if (sentName && this.isResponseCall(returned, sentName)) {
+                    continue
+                }
+
+                const sent = this.describeValue(returned)
+                if (sent.type === 'void' || sent.type === 'undefined') continue
+                responses.push({ statusCode: '200', ...sent })
+            }
+        }
+
+        return this.merge(responses)
+    }
+
+    // Numeric status from a literal, a constant or an enum member
+    resolveStatusCode(node: Node): string | null {
+        const expression = AstUtils.unwrapExpression(node)
+        if (Node.isNumericLiteral(expression)) {
+            return String(expression.getLiteralValue())
+        }
+
+        const type = expression.getType()
+        return type.isNumberLiteral() ? String(type.getLiteralValue()) : null
+    }
+
+    // Type (and schema) a value is sent as, with Promise/Observable unwrapped
+    describeValue(node: Node): Pick<RouteResponse, 'type' | 'schema'> {
+        const expression = AstUtils.unwrapExpression(node)
+        const target = Node.isAwaitExpression(expression)
+            ? expression.getExpression()
+            : expression
+
+        let type = this.unwrapAsyncType(target.getType())
+        if (type.isAny() || type.isUnknown()) return { type: 'any' }
+        // res.send('pong') documents a string, not the literal "pong"
+        if (type.isLiteral()) type = type.getBaseTypeOfLiteralType()
+
+        return {
+            // res.json([]) is typed never[]
+            type: AstUtils.getTypeText(type, target).replace(
+                /^never\[\]$/,
+                'any[]'
+            ),
+            schema: this.schemaResolver.resolve(type, target),
+        }
+    }
+
+    unwrapAsyncType(type: Type): Type {
+        const name = type.getSymbol()?.getName()
+        const [inner] = type.getTypeArguments()
+        return name && ASYNC_WRAPPERS.includes(name) && inner
+            ? this.unwrapAsyncType(inner)
+            : type
+    }
+
+    // One entry per status code, in status order; earlier groups (declared
+    // schemas) win over later ones (inferred from the handler)
+    merge(...groups: RouteResponse[][]): RouteResponse[] {
+        const byStatus = new Map<string, RouteResponse>()
+        for (const response of groups.flat()) {
+            if (!byStatus.has(response.statusCode)) {
+                byStatus.set(response.statusCode, response)
+            }
+        }
+
+        return Array.from(byStatus.values()).sort((a, b) =>
+            a.statusCode.localeCompare(b.statusCode)
+        )
+    }
+
+    private inferFromResponseCalls(
+        fn: FunctionNode,
+        responseName: string
+    ): RouteResponse[] {
+        const responses: RouteResponse[] = []
+
+        for (const call of fn.getDescendantsOfKind(SyntaxKind.CallExpression)) {
+            const callee = call.getExpression()
+            if (!Node.isPropertyAccessExpression(callee)) continue
+
+            const method = callee.getName()
+            const isSend = this.shape.sendMethods.includes(method)
+            const isStatusOnly = this.shape.statusOnlyMethods.includes(method)
+            if (!isSend && !isStatusOnly) continue
+
+            const chain = this.resolveChain(
+                callee.getExpression(),
+                responseName
+            )
+            if (!chain) continue
+
+            const [arg, statusArg] = call.getArguments()
+
+            // res.sendStatus(204)
+            if (isStatusOnly) {
+                const statusCode = arg ? this.resolveStatusCode(arg) : null
+                if (statusCode) responses.push({ statusCode, type: 'void' })
+                continue
+            }
+
+            const argumentStatus =
+                this.shape.statusArgument && statusArg
+                    ? this.resolveStatusCode(statusArg)
+                    : null
+            responses.push({
+                statusCode: argumentStatus ?? chain.statusCode ?? '200',
+                ...(arg ? this.describeValue(arg) : { type: 'void' }),
+            })
+        }
+
+        return responses
+    }
+
+    // koa: ctx.status = 201; ctx.body = user; ctx.throw(404, 'Not found')
+    private inferFromAssignments(
+        fn: FunctionNode,
+        responseName: string
+    ): RouteResponse[] {
+        if (
+            this.shape.bodyProperties.length === 0 &&
+            this.shape.errorMethods.length === 0
+        ) {
+            return []
+        }
+
+        const responses: RouteResponse[] = []
+        // A body goes out with the last status set before it in the same or
+        // an enclosing block
+        const statusAssignments: { node: Node; statusCode: string }[] = []
+        const bodyAssignments: BinaryExpression[] = []
+
+        for (const assignment of fn.getDescendantsOfKind(
+            SyntaxKind.BinaryExpression
+        )) {
+            if (
+                assignment.getOperatorToken().getKind() !==
+                SyntaxKind.EqualsToken
+            ) {
+                continue
+            }
+
+            const target = assignment.getLeft()
+            if (
+                !Node.isPropertyAccessExpression(target) ||
+                !this.isResponseObject(target.getExpression(), responseName)
+            ) {
+                continue
+            }
+
+            const property = target.getName()
+            if (this.shape.statusProperties.includes(property)) {
+                const statusCode = this.resolveStatusCode(assignment.getRight())
+                if (statusCode) {
+                    statusAssignments.push({ node: assignment, statusCode })
+                }
+            } else if (this.shape.bodyProperties.includes(property)) {
+                bodyAssignments.push(assignment)
+            }
+        }
+
+        for (const assignment of bodyAssignments) {
+            const status = statusAssignments
+                .filter(({ node }) => {
+                    const scope =
+                        node.getFirstAncestorByKind(SyntaxKind.Block) ?? fn
+                    return (
+                        node.getStart() < assignment.getStart() &&
+                        scope.getStart() <= assignment.getStart() &&
+                        assignment.getEnd() <= scope.getEnd()
+                    )
+                })
+                .pop()
+            responses.push({
+                statusCode: status?.statusCode ?? '200',
+                ...this.describeValue(assignment.getRight()),
+            })
+        }
+
+        // ctx.status = 204 without a body
+        for (const { statusCode } of statusAssignments) {
+            responses.push({ statusCode, type: 'void' })
+        }
+
+        for (const call of fn.getDescendantsOfKind(SyntaxKind.CallExpression)) {
+            const callee = call.getExpression()
+            if (
+                !Node.isPropertyAccessExpression(callee) ||
+                !this.shape.errorMethods.includes(callee.getName()) ||
+                !this.isResponseObject(callee.getExpression(), responseName)
+            ) {
+                continue
+            }
+
+            // ctx.throw(404), ctx.throw(400, 'Invalid id'), ctx.throw('Oops', 500)
+            const args = call.getArguments()
+            const statusCode = args
+                .map((arg) => this.resolveStatusCode(arg))
+                .find((code) => code !== null)
+            const message = args
+                .map((arg) => AstUtils.resolveStringValue(arg))
+                .find((text) => text !== null)
+            responses.push({
+                statusCode: statusCode ?? '500',
+                type: 'void',
+                description: message ?? undefined,
+            })
+        }
+
+        return responses
+    }
+
+    // ctx or ctx.response
+    private isResponseObject(node: Node, responseName: string): boolean {
+        const expression = AstUtils.unwrapExpression(node)
+        if (Node.isIdentifier(expression)) {
+            return expression.getText() === responseName
+        }
+        return (
+            Node.isPropertyAccessExpression(expression) &&
+            expression.getName() === 'response' &&
+            this.isResponseObject(expression.getExpression(), responseName)
+        )
+    }
+
+    // Walk res.status(404).set(...) back to the response object, picking up
+    // the status code on the way; null when the chain starts elsewhere
+    private resolveChain(
+        node: Node,
+        responseName: string
+    ): { statusCode: string | null } | null {
+        const expression = AstUtils.unwrapExpression(node)
+
+        if (Node.isIdentifier(expression)) {
+            return expression.getText() === responseName
+                ? { statusCode: null }
+                : null
+        }
+
+        if (Node.isCallExpression(expression)) {
+            const callee = expression.getExpression()
+            if (!Node.isPropertyAccessExpression(callee)) return null
+
+            const inner = this.resolveChain(
+                callee.getExpression(),
+                responseName
+            )
+            if (!inner) return null
+
+            if (this.shape.statusMethods.includes(callee.getName())) {
+                const [arg] = expression.getArguments()
+                const statusCode = arg ? this.resolveStatusCode(arg) : null
+                return { statusCode: statusCode ?? inner.statusCode }
+            }
+
+            // Header/cookie setters return the response itself
+            if (!this.shape.sendMethods.includes(callee.getName())) {
+                return inner
+            }
+        }
+
+        return null
+    }
+
+    private isResponseCall(node: Node, responseName: string): boolean {
+        const expression = AstUtils.unwrapExpression(node)
+        const callee = Node.isCallExpression(expression)
+            ? expression.getExpression()
+            : null
+
+        return (
+            !!this.resolveChain(expression, responseName) ||
+            (!!callee &&
+                Node.isPropertyAccessExpression(callee) &&
+                !!this.resolveChain(callee.getExpression(), responseName))
+        )
+    }
+}
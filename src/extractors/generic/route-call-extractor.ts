@@ -0,0 +1,577 @@
+import { CallExpression, Node, SourceFile, SyntaxKind } from 'ts-morph'
+import { UniversalRoute } from '../../types/universal-types'
+import { AstUtils } from '../../utils/ast-utils'
+import { DocCommentReader } from './doc-comment-reader'
+import { FastifyRouteOptions } from './fastify-route-options'
+import {
+    EXPRESS_REQUEST_SHAPE,
+    FASTIFY_REQUEST_SHAPE,
+    KOA_REQUEST_SHAPE,
+    RequestParameterInferrer,
+} from './request-parameter-inferrer'
+import {
+    EXPRESS_RESPONSE_SHAPE,
+    FASTIFY_RESPONSE_SHAPE,
+    KOA_RESPONSE_SHAPE,
+    ResponseInferrer,
+} from './response-inferrer'
+import { RouterKind, RouterResolver } from './router-resolver'
+import { TypeSchemaResolver } from './type-schema-resolver'
+
+// Router methods that register a route, mapped to their HTTP method
+const ROUTE_METHODS: Record<string, string> = {
+    get: 'GET',
+    post: 'POST',
+    put: 'PUT',
+    delete: 'DELETE',
+    del: 'DELETE',
+    patch: 'PATCH',
+    head: 'HEAD',
+    options: 'OPTIONS',
+    all: 'ALL',
+}
+
+interface RouteTarget {
+    kind: RouterKind
+    // The router/application the call chain starts from
+    receiver: Node
+    // Set when the call hangs off express `router.route(path)`
+    routePath?: string | undefined
+}
+
+// Where a call was made, used to order use() calls against routes and mounts
+export interface CallSite {
+    filePath: string
+    position: number
+}
+
+// A route as registered on its router, before mount prefixes are applied
+export interface RouterRoute extends CallSite {
+    route: UniversalRoute
+    routerKey: string | null
+}
+
+// app.use('/prefix', router), router.use(child.routes()), fastify.register()
+export interface RouterMount extends CallSite {
+    parentKey: string
+    childKey: string
+    prefix: string
+    // Middleware passed alongside the router: app.use('/api', auth, router)
+    middleware: string[]
+}
+
+// Router-level middleware: router.use(auth), app.use('/admin', requireAdmin)
+export interface RouterMiddleware extends CallSite {
+    routerKey: string
+    path: string
+    middleware: string[]
+}
+
+export interface RouteCallResult {
+    routes: RouterRoute[]
+    mounts: RouterMount[]
+    middleware: RouterMiddleware[]
+    // Prefixes routers declare themselves (koa: new Router({ prefix }))
+    routerPrefixes: Record<string, string>
+}
+
+export class RouteCallExtractor {
+    private resolver = new RouterResolver()
+    private parameterInferrers: Record<RouterKind, RequestParameterInferrer>
+    private responseInferrers: Record<RouterKind, ResponseInferrer>
+    private fastifyOptions: FastifyRouteOptions
+    private docReader: DocCommentReader
+
+    constructor(
+        schemaResolver = new TypeSchemaResolver(),
+        docReader = new DocCommentReader()
+    ) {
+        this.docReader = docReader
+        this.fastifyOptions = new FastifyRouteOptions(schemaResolver)
+        this.parameterInferrers = {
+            express: new RequestParameterInferrer(
+                EXPRESS_REQUEST_SHAPE,
+                schemaResolver
+            ),
+            fastify: new RequestParameterInferrer(
+                FASTIFY_REQUEST_SHAPE,
+                schemaResolver
+            ),
+            koa: new RequestParameterInferrer(
+                KOA_REQUEST_SHAPE,
+                schemaResolver
+            ),
+        }
+        this.responseInferrers = {
+            express: new ResponseInferrer(
+                EXPRESS_RESPONSE_SHAPE,
+                schemaResolver
+            ),
+            fastify: new ResponseInferrer(
+                FASTIFY_RESPONSE_SHAPE,
+                schemaResolver
+            ),
+            koa: new ResponseInferrer(KOA_RESPONSE_SHAPE, schemaResolver),
+        }
+    }
+
+    extract(sourceFile: SourceFile): RouteCallResult {
+        const result: RouteCallResult = {
+            routes: [],
+            mounts: [],
+            middleware: [],
+            routerPrefixes: {},
+        }
+
+        // Order chained calls (router.get().post()) by where the method appears
+        const calls = sourceFile
+            .getDescendantsOfKind(SyntaxKind.CallExpression)
+            .sort((a, b) => this.getCallPosition(a) - this.getCallPosition(b))
+
+        for (const call of calls) {
+            this.extractRoutesFromCall(call, result)
+            this.extractMountsFromCall(call, result)
+        }
+
+        return result
+    }
+
+    private extractRoutesFromCall(
+        call: CallExpression,
+        result: RouteCallResult
+    ): void {
+        const callee = call.getExpression()
+        if (!Node.isPropertyAccessExpression(callee)) return
+
+        // fastify.route({ method, url, handler, schema })
+        if (callee.getName() === 'route') {
+            this.extractRouteDefinition(call, result)
+            return
+        }
+
+        const method = ROUTE_METHODS[callee.getName()]
+        if (!method) return
+
+        const target = this.resolveTarget(callee.getExpression())
+        if (!target) return
+
+        const args = this.flattenArguments(call.getArguments())
+        let paths: string[]
+        let handlers: Node[]
+
+        if (target.routePath !== undefined) {
+            // router.route('/users').get(handler)
+            paths = [target.routePath]
+            handlers = args
+        } else {
+            const pathIndex = this.getPathArgumentIndex(args, target.kind)
+            if (pathIndex === -1) return
+
+            paths = this.resolvePaths(args[pathIndex]!)
+            handlers = args.slice(pathIndex + 1)
+        }
+
+        // Route options objects (fastify) are not handlers
+        const options = handlers.find((arg) =>
+            Node.isObjectLiteralExpression(arg)
+        )
+        handlers = handlers.filter(
+            (arg) => !Node.isObjectLiteralExpression(arg)
+        )
+
+        // fastify.get('/users', { handler, schema })
+        const optionsHandler = options
+            ? this.fastifyOptions.getHandler(options)
+            : undefined
+        const handler = optionsHandler ?? handlers[handlers.length - 1]
+        if (!handler) return
+
+        // Everything between the path and the final handler is middleware
+        this.addRoute(
+            call,
+            target,
+            [method],
+            paths,
+            handler,
+            optionsHandler ? handlers : handlers.slice(0, -1),
+            options,
+            result
+        )
+    }
+
+    private extractRouteDefinition(
+        call: CallExpression,
+        result: RouteCallResult
+    ): void {
+        const callee = call.getExpression()
+        const [options] = call.getArguments()
+        const target = Node.isPropertyAccessExpression(callee)
+            ? this.resolveTarget(callee.getExpression())
+            : null
+        if (target?.kind !== 'fastify' || !options) return
+
+        const definition = this.fastifyOptions.readRouteDefinition(options)
+        if (!definition?.handler) return
+
+        this.addRoute(
+            call,
+            target,
+            definition.methods,
+            definition.paths,
+            definition.handler,
+            [],
+            options,
+            result
+        )
+    }
+
+    private addRoute(
+        call: CallExpression,
+        target: RouteTarget,
+        methods: string[],
+        paths: string[],
+        handler: Node,
+        middlewareNodes: Node[],
+        options: Node | undefined,
+        result: RouteCallResult
+    ): void {
+        const responseInferrer = this.responseInferrers[target.kind]
+        const responses = responseInferrer.merge(
+            options ? this.fastifyOptions.getResponses(options) : [],
+            responseInferrer.infer(handler)
+        )
+
+        const routerKey = this.resolver.resolveRouterKey(target.receiver)
+        if (routerKey) {
+            this.recordOwnPrefix(target.receiver, routerKey, result)
+        }
+
+        // Route-level hooks (fastify onRequest, preHandler, ...) run first
+        const hooks = options ? this.fastifyOptions.getHooks(options) : []
+        const middleware = [...hooks, ...middlewareNodes].map((node) =>
+            this.getMiddlewareName(node)
+        )
+        const requestSchemas = options
+            ? this.fastifyOptions.getRequestSchemas(options)
+            : []
+        // A comment on the handler, or on the statement adding the route
+        const handlerFunction = AstUtils.resolveFunction(handler)
+        const docs =
+            (handlerFunction && this.docReader.read(handlerFunction)) ??
+            this.docReader.readStatement(call)
+
+        for (const method of methods) {
+            for (const path of paths) {
+                result.routes.push({
+                    route: {
+                        path,
+                        method,
+                        handler: this.getHandlerName(handler),
+                        middleware,
+                        parameters: this.parameterInferrers[target.kind].infer(
+                            handler,
+                            path,
+                            middlewareNodes,
+                            requestSchemas
+                        ),
+                        responses,
+                        framework: target.kind,
+                        filePath: call.getSourceFile().getFilePath(),
+                        location: AstUtils.getSourceLocation(call),
+                        ...(docs ? { docs } : {}),
+                    },
+                    routerKey,
+                    ...this.getCallSite(call),
+                })
+            }
+        }
+    }
+
+    // koa: new Router({ prefix: '/api' })
+    private recordOwnPrefix(
+        receiver: Node,
+        routerKey: string,
+        result: RouteCallResult
+    ): void {
+        if (routerKey in result.routerPrefixes) return
+
+        const ownPrefix = this.resolver.resolveOwnPrefix(receiver)
+        if (ownPrefix) result.routerPrefixes[routerKey] = ownPrefix
+    }
+
+    private extractMountsFromCall(
+        call: CallExpression,
+        result: RouteCallResult
+    ): void {
+        const callee = call.getExpression()
+        if (!Node.isPropertyAccessExpression(callee)) return
+
+        const name = callee.getName()
+        if (!['use', 'register', 'prefix', 'addHook'].includes(name)) return
+
+        const receiver = callee.getExpression()
+        const kind = this.resolver.resolveKind(receiver)
+        const parentKey = kind ? this.resolver.resolveRouterKey(receiver) : null
+        if (!kind || !parentKey) return
+
+        // Routers only mounting others still prefix them
+        this.recordOwnPrefix(receiver, parentKey, result)
+
+        const args = this.flattenArguments(call.getArguments())
+
+        // koa: router.prefix('/api')
+        if (name === 'prefix') {
+            const prefix = args[0] ? AstUtils.resolveStringValue(args[0]) : null
+            if (kind === 'koa' && prefix !== null) {
+                result.routerPrefixes[parentKey] = prefix
+            }
+            return
+        }
+
+        // fastify: fastify.addHook('preHandler', authenticate)
+        if (name === 'addHook') {
+            const [hookName, hook] = args
+            const hookType = hookName
+                ? AstUtils.resolveStringValue(hookName)
+                : null
+            if (
+                kind === 'fastify' &&
+                hook &&
+                hookType &&
+                this.fastifyOptions.isRequestHook(hookType)
+            ) {
+                result.middleware.push({
+                    routerKey: parentKey,
+                    path: '',
+                    middleware: [this.getMiddlewareName(hook)],
+                    filePath: call.getSourceFile().getFilePath(),
+                    // Hooks cover every route of the instance (and its child
+                    // plugins), wherever they are added
+                    position: 0,
+                })
+            }
+            return
+        }
+
+        // fastify: fastify.register(plugin, { prefix: '/users' })
+        if (name === 'register') {
+            const [plugin, options] = args
+            const childKey =
+                kind === 'fastify' && plugin
+                    ? this.resolver.resolvePluginInstanceKey(plugin)
+                    : null
+            if (!childKey) return
+
+            result.mounts.push({
+                parentKey,
+                childKey,
+                prefix:
+                    (options && this.getOptionString(options, 'prefix')) || '',
+                middleware: [],
+                ...this.getCallSite(call),
+            })
+            return
+        }
+
+        // express/koa: app.use('/prefix', router), router.use(child.routes())
+        const [first] = args
+        const hasPath = !!first && this.isPathLike(first)
+        const prefixes = hasPath ? this.resolvePaths(first!) : ['']
+
+        const middleware: string[] = []
+        for (const arg of args.slice(hasPath ? 1 : 0)) {
+            const childKey = this.resolver.resolveKind(
+                this.unwrapMountedRouter(arg)
+            )
+                ? this.resolver.resolveRouterKey(arg)
+                : null
+
+            if (!childKey) {
+                middleware.push(this.getMiddlewareName(arg))
+                continue
+            }
+
+            for (const prefix of prefixes) {
+                result.mounts.push({
+                    parentKey,
+                    childKey,
+                    prefix,
+                    middleware: [...middleware],
+                    ...this.getCallSite(call),
+                })
+            }
+        }
+
+        if (middleware.length > 0) {
+            for (const prefix of prefixes) {
+                result.middleware.push({
+                    routerKey: parentKey,
+                    path: prefix,
+                    middleware,
+                    ...this.getCallSite(call),
+                })
+            }
+        }
+    }
+
+    // express accepts (nested) arrays of handlers and paths
+    private flattenArguments(args: Node[]): Node[] {
+        return args.flatMap((arg) => {
+            const expression = AstUtils.unwrapExpression(arg)
+            if (
+                Node.isArrayLiteralExpression(expression) &&
+                !this.isPathLike(expression)
+            ) {
+                return this.flattenArguments(expression.getElements())
+            }
+            return [arg]
+        })
+    }
+
+    private getCallSite(call: CallExpression): CallSite {
+        return {
+            filePath: call.getSourceFile().getFilePath(),
+            position: call.getStart(),
+        }
+    }
+
+    // koa mounts routers through child.routes() / child.middleware()
+    private unwrapMountedRouter(node: Node): Node {
+        const expression = AstUtils.unwrapExpression(node)
+        if (Node.isCallExpression(expression)) {
+            const callee = expression.getExpression()
+            if (
+                Node.isPropertyAccessExpression(callee) &&
+                ['routes', 'middleware'].includes(callee.getName())
+            ) {
+                return callee.getExpression()
+            }
+        }
+        return expression
+    }
+
+    private getOptionString(node: Node, name: string): string | null {
+        const expression = AstUtils.unwrapExpression(node)
+        if (!Node.isObjectLiteralExpression(expression)) return null
+
+        const property = expression.getProperty(name)
+        const value =
+            property && Node.isPropertyAssignment(property)
+                ? property.getInitializer()
+                : undefined
+        return value ? AstUtils.resolveStringValue(value) : null
+    }
+
+    private getCallPosition(call: CallExpression): number {
+        const callee = call.getExpression()
+        return Node.isPropertyAccessExpression(callee)
+            ? callee.getNameNode().getStart()
+            : call.getStart()
+    }
+
+    // A path argument may be a string or (express) an array of strings
+    private resolvePaths(node: Node): string[] {
+        const expression = AstUtils.unwrapExpression(node)
+        const elements = Node.isArrayLiteralExpression(expression)
+            ? expression.getElements()
+            : [expression]
+
+        const paths: string[] = []
+        for (const element of elements) {
+            const path = AstUtils.resolveStringValue(element)
+            if (path !== null) paths.push(path)
+        }
+        return paths
+    }
+
+    // Walk back through chained calls to the router the route is registered on
+    private resolveTarget(receiver: Node): RouteTarget | null {
+        const expression = AstUtils.unwrapExpression(receiver)
+
+        if (Node.isCallExpression(expression)) {
+            const callee = expression.getExpression()
+            if (Node.isPropertyAccessExpression(callee)) {
+                const name = callee.getName()
+
+                if (name === 'route') {
+                    const parent = this.resolveTarget(callee.getExpression())
+                    const [pathArg] = expression.getArguments()
+                    const routePath = pathArg
+                        ? AstUtils.resolveStringValue(pathArg)
+                        : null
+                    if (parent?.kind === 'express' && routePath !== null) {
+                        return { ...parent, routePath }
+                    }
+                    return null
+                }
+
+                // router.get(...).post(...) returns the same router/route
+                if (ROUTE_METHODS[name]) {
+                    return this.resolveTarget(callee.getExpression())
+                }
+            }
+        }
+
+        const kind = this.resolver.resolveKind(expression)
+        return kind ? { kind, receiver: expression } : null
+    }
+
+    private getPathArgumentIndex(args: Node[], kind: RouterKind): number {
+        const [first, second] = args
+        if (!first || !this.isPathLike(first)) return -1
+
+        // koa-router named routes: router.get('user', '/users/:id', handler)
+        if (kind === 'koa' && second && this.isPathLike(second)) return 1
+
+        // app.get('setting') reads an express setting rather than a route
+        return args.length > 1 ? 0 : -1
+    }
+
+    private isPathLike(node: Node): boolean {
+        return this.resolvePaths(node).length > 0
+    }
+
+    private getHandlerName(node: Node): string {
+        const expression = AstUtils.unwrapExpression(node)
+
+        if (
+            Node.isIdentifier(expression) ||
+            Node.isPropertyAccessExpression(expression)
+        ) {
+            return expression.getText()
+        }
+
+        if (Node.isFunctionExpression(expression)) {
+            return expression.getName() || 'anonymous'
+        }
+
+        if (Node.isCallExpression(expression)) {
+            const callee = expression.getExpression()
+
+            // controller.list.bind(controller)
+            if (
+                Node.isPropertyAccessExpression(callee) &&
+                callee.getName() === 'bind'
+            ) {
+                return this.getHandlerName(callee.getExpression())
+            }
+
+            // asyncHandler(listUsers)
+            const [wrapped] = expression.getArguments()
+            if (wrapped) return this.getHandlerName(wrapped)
+        }
+
+        return 'anonymous'
+    }
+
+    private getMiddlewareName(node: Node): string {
+        const expression = AstUtils.unwrapExpression(node)
+
+        // requireRole('admin'), passport.authenticate('jwt')
+        if (Node.isCallExpression(expression)) {
+            return expression.getText().replace(/\s+/g, ' ')
+        }
+
+        return this.getHandlerName(expression)
+    }
+}
@@ -0,0 +1,192 @@
+import { Parameter, UniversalRoute } from '../../types/universal-types'
+import { PathUtils } from '../../utils/path-utils'
+import {
+    CallSite,
+    RouteCallResult,
+    RouterMiddleware,
+    RouterMount,
+} from './route-call-extractor'
+
+// One way a router is reachable: the URL prefix and the middleware run first
+interface MountContext {
+    prefix: string
+    middleware: string[]
+}
+
+export class RouterMountResolver {
+    private mountsByChild = new Map<string, RouterMount[]>()
+    private middlewareByRouter = new Map<string, RouterMiddleware[]>()
+    private routerPrefixes: Record<string, string> = {}
+    private contextCache = new Map<string, MountContext[]>()
+
+    // Apply use()/register() prefixes and middleware so every route carries
+    // its full URL and everything that runs before its handler
+    resolve(result: RouteCallResult): UniversalRoute[] {
+        this.mountsByChild = this.groupBy(result.mounts, (m) => m.childKey)
+        this.middlewareByRouter = this.groupBy(
+            result.middleware,
+            (m) => m.routerKey
+        )
+        this.routerPrefixes = result.routerPrefixes
+        this.contextCache = new Map()
+
+        const routes: UniversalRoute[] = []
+        for (const routerRoute of result.routes) {
+            const { route, routerKey } = routerRoute
+            const contexts = routerKey
+                ? this.getMountContexts(routerKey, new Set())
+                : [{ prefix: '', middleware: [] }]
+
+            const routerMiddleware = routerKey
+                ? this.getApplicableMiddleware(
+                      routerKey,
+                      route.path,
+                      routerRoute
+                  )
+                : []
+
+            // A router mounted at several paths serves each route at all of them
+            for (const context of contexts) {
+                const path = PathUtils.joinRoutePaths(
+                    context.prefix,
+                    route.path
+                )
+                routes.push({
+                    ...route,
+                    path,
+                    parameters: this.addPrefixParameters(
+                        route.parameters,
+                        path
+                    ),
+                    middleware: this.unique([
+                        ...context.middleware,
+                        ...routerMiddleware,
+                        ...route.middleware,
+                    ]),
+                })
+            }
+        }
+
+        return routes
+    }
+
+    private getMountContexts(
+        routerKey: string,
+        visiting: Set<string>
+    ): MountContext[] {
+        const cached = this.contextCache.get(routerKey)
+        if (cached) return cached
+
+        const ownPrefix = this.routerPrefixes[routerKey] || ''
+        const mounts = this.mountsByChild.get(routerKey) || []
+
+        // Circular mounts cannot be resolved; keep the router's own prefix
+        if (visiting.has(routerKey) || mounts.length === 0) {
+            return [{ prefix: ownPrefix, middleware: [] }]
+        }
+
+        visiting.add(routerKey)
+        const contexts = new Map<string, MountContext>()
+        for (const mount of mounts) {
+            const parentMiddleware = this.getApplicableMiddleware(
+                mount.parentKey,
+                mount.prefix,
+                mount
+            )
+
+            for (const parent of this.getMountContexts(
+                mount.parentKey,
+                visiting
+            )) {
+                const prefix = PathUtils.joinRoutePaths(
+                    parent.prefix,
+                    mount.prefix,
+                    ownPrefix
+                )
+                if (contexts.has(prefix)) continue
+
+                contexts.set(prefix, {
+                    prefix,
+                    middleware: [
+                        ...parent.middleware,
+                        ...parentMiddleware,
+                        ...mount.middleware,
+                    ],
+                })
+            }
+        }
+        visiting.delete(routerKey)
+
+        const resolved = Array.from(contexts.values())
+        this.contextCache.set(routerKey, resolved)
+        return resolved
+    }
+
+    // router.use() middleware registered before `site` whose path covers it
+    private getApplicableMiddleware(
+        routerKey: string,
+        path: string,
+        site: CallSite
+    ): string[] {
+        const registrations = this.middlewareByRouter.get(routerKey) || []
+
+        return registrations
+            .filter(
+                (registration) =>
+                    this.registeredBefore(registration, site) &&
+                    this.pathCovers(registration.path, path)
+            )
+            .flatMap((registration) => registration.middleware)
+    }
+
+    // Order is only known within a file; use() in another file is assumed
+    // to run during setup, before requests reach the route
+    private registeredBefore(registration: CallSite, site: CallSite): boolean {
+        if (registration.filePath !== site.filePath) return true
+        return registration.position < site.position
+    }
+
+    private pathCovers(mountPath: string, path: string): boolean {
+        const base = PathUtils.joinRoutePaths(mountPath)
+        const target = PathUtils.joinRoutePaths(path)
+        return base === '/' || target === base || target.startsWith(`${base}/`)
+    }
+
+    // Mount prefixes can declare path parameters too: app.use('/orgs/:orgId', r)
+    private addPrefixParameters(
+        parameters: Parameter[],
+        path: string
+    ): Parameter[] {
+        const missing = PathUtils.getPathParameters(path).filter(
+            (segment) =>
+                !parameters.some(
+                    (param) =>
+                        param.location === 'path' && param.name === segment.name
+                )
+        )
+
+        return [
+            ...missing.map((segment) => ({
+                name: segment.name,
+                type: 'string',
+                optional: segment.optional,
+                location: 'path' as const,
+            })),
+            ...parameters,
+        ]
+    }
+
+    private groupBy<T>(items: T[], key: (item: T) => string): Map<string, T[]> {
+        const groups = new Map<string, T[]>()
+        for (const item of items) {
+            const group = groups.get(key(item)) || []
+            group.push(item)
+            groups.set(key(item), group)
+        }
+        return groups
+    }
+
+    private unique(values: string[]): string[] {
+        return Array.from(new Set(values))
+    }
+}
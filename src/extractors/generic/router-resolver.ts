@@ -0,0 +1,371 @@
+import { Node, Type } from 'ts-morph'
+import { AstUtils } from '../../utils/ast-utils'
+
+export type RouterKind = 'express' | 'koa' | 'fastify'
+
+interface RouterTypeSignature {
+    kind: RouterKind
+    declarationPath: RegExp
+    typeName: RegExp
+}
+
+// Router/application types as declared by each framework's typings
+const ROUTER_TYPE_SIGNATURES: RouterTypeSignature[] = [
+    {
+        kind: 'express',
+        declarationPath:
+            /\/node_modules\/(@types\/)?express(-serve-static-core)?\//,
+        typeName: /^(Express|Application|Router|IRouter|IRoute)$/,
+    },
+    {
+        kind: 'koa',
+        declarationPath:
+            /\/node_modules\/(@koa\/router|koa-router|@types\/koa-router|@types\/koa__router)\//,
+        typeName: /Router/,
+    },
+    {
+        kind: 'fastify',
+        declarationPath: /\/node_modules\/fastify\//,
+        typeName: /^FastifyInstance$/,
+    },
+]
+
+// Modules whose exports create routers or applications
+const ROUTER_MODULES: Record<string, RouterKind> = {
+    express: 'express',
+    '@koa/router': 'koa',
+    'koa-router': 'koa',
+    fastify: 'fastify',
+}
+
+// Exports of those modules that act as router factories
+const ROUTER_FACTORY_EXPORTS = ['default', '*', 'Router', 'fastify', 'Fastify']
+
+// Type names that identify a router when the typings are not installed
+const ROUTER_TYPE_NAMES =
+    /^(Express|Application|Router|IRouter|FastifyInstance)$/
+
+const MAX_RESOLVE_DEPTH = 10
+
+export class RouterResolver {
+    // Determine which framework's router/application an expression refers to
+    resolveKind(expression: Node): RouterKind | null {
+        return (
+            this.resolveKindFromType(expression.getType()) ??
+            this.resolveKindFromDeclaration(expression, 0)
+        )
+    }
+
+    private resolveKindFromType(type: Type): RouterKind | null {
+        if (type.isAny() || type.isUnknown()) return null
+
+        const candidates = [type, ...type.getIntersectionTypes()]
+        for (const candidate of candidates) {
+            const symbols = [candidate.getSymbol(), candidate.getAliasSymbol()]
+            for (const symbol of symbols) {
+                if (!symbol) continue
+
+                for (const declaration of symbol.getDeclarations()) {
+                    const filePath = declaration.getSourceFile().getFilePath()
+                    const signature = ROUTER_TYPE_SIGNATURES.find(
+                        (sig) =>
+                            sig.declarationPath.test(filePath) &&
+                            sig.typeName.test(symbol.getName())
+                    )
+                    if (signature) return signature.kind
+                }
+            }
+        }
+
+        return null
+    }
+
+    // Fallback when type information is unavailable (e.g. typings missing)
+    private resolveKindFromDeclaration(
+        node: Node,
+        depth: number
+    ): RouterKind | null {
+        if (depth > MAX_RESOLVE_DEPTH) return null
+
+        const expression = AstUtils.unwrapExpression(node)
+
+        if (Node.isNewExpression(expression)) {
+            return this.resolveKindFromFactory(expression.getExpression())
+        }
+
+        if (Node.isCallExpression(expression)) {
+            const kind = this.resolveKindFromFactory(expression.getExpression())
+            if (kind) return kind
+
+            // createUsersRouter() returning a router built inside the factory
+            for (const returned of this.getFactoryReturns(expression)) {
+                const returnedKind = this.resolveKindFromDeclaration(
+                    returned,
+                    depth + 1
+                )
+                if (returnedKind) return returnedKind
+            }
+            return null
+        }
+
+        if (
+            !Node.isIdentifier(expression) &&
+            !Node.isPropertyAccessExpression(expression)
+        ) {
+            return null
+        }
+
+        for (const declaration of AstUtils.getDeclarations(expression)) {
+            // export default router
+            if (Node.isExportAssignment(declaration)) {
+                const kind = this.resolveKindFromDeclaration(
+                    declaration.getExpression(),
+                    depth + 1
+                )
+                if (kind) return kind
+                continue
+            }
+
+            if (
+                Node.isVariableDeclaration(declaration) ||
+                Node.isPropertyDeclaration(declaration) ||
+                Node.isParameterDeclaration(declaration)
+            ) {
+                const typeNode = declaration.getTypeNode()
+                if (typeNode) {
+                    const kind = this.resolveKindFromTypeNode(typeNode)
+                    if (kind) return kind
+                }
+
+                const initializer = declaration.getInitializer()
+                if (initializer) {
+                    const kind = this.resolveKindFromDeclaration(
+                        initializer,
+                        depth + 1
+                    )
+                    if (kind) return kind
+                }
+            }
+        }
+
+        return null
+    }
+
+    // express(), express.Router(), Router(), new Router(), Fastify()
+    private resolveKindFromFactory(callee: Node): RouterKind | null {
+        const expression = AstUtils.unwrapExpression(callee)
+        let root: Node = expression
+        if (Node.isPropertyAccessExpression(expression)) {
+            // express.Router() but not express.json()
+            if (expression.getName() !== 'Router') return null
+            root = expression.getExpression()
+        }
+        if (!Node.isIdentifier(root)) return null
+
+        const importedName = AstUtils.getImportedName(root)
+        if (!importedName || !ROUTER_FACTORY_EXPORTS.includes(importedName)) {
+            return null
+        }
+
+        const specifier = AstUtils.getImportModuleSpecifier(root)
+        return specifier ? ROUTER_MODULES[specifier] ?? null : null
+    }
+
+    // Stable identity of the router an expression refers to, shared by every
+    // file that references the same declaration
+    resolveRouterKey(expression: Node): string | null {
+        const declaration = this.resolveRouterDeclaration(expression, 0)
+        return declaration ? this.getDeclarationKey(declaration) : null
+    }
+
+    // Prefix a koa router was created with: new Router({ prefix: '/api' })
+    resolveOwnPrefix(expression: Node): string | null {
+        const declaration = this.resolveRouterDeclaration(expression, 0)
+        if (!declaration || !Node.isVariableDeclaration(declaration)) {
+            return null
+        }
+
+        const initializer = declaration.getInitializer()
+        const creation = initializer
+            ? AstUtils.unwrapExpression(initializer)
+            : undefined
+        if (!creation || !Node.isNewExpression(creation)) return null
+
+        const [options] = creation.getArguments()
+        const optionsObject = options
+            ? AstUtils.unwrapExpression(options)
+            : undefined
+        if (!optionsObject || !Node.isObjectLiteralExpression(optionsObject)) {
+            return null
+        }
+
+        const prefix = optionsObject.getProperty('prefix')
+        const value =
+            prefix && Node.isPropertyAssignment(prefix)
+                ? prefix.getInitializer()
+                : undefined
+        return value ? AstUtils.resolveStringValue(value) : null
+    }
+
+    // fastify plugins receive the scoped instance as their first parameter
+    resolvePluginInstanceKey(plugin: Node): string | null {
+        const expression = AstUtils.unwrapExpression(plugin)
+
+        // fastify-plugin and similar wrappers: fp(plugin)
+        if (Node.isCallExpression(expression)) {
+            const [wrapped] = expression.getArguments()
+            return wrapped ? this.resolvePluginInstanceKey(wrapped) : null
+        }
+
+        const functions: Node[] =
+            Node.isIdentifier(expression) ||
+            Node.isPropertyAccessExpression(expression)
+                ? AstUtils.getDeclarations(expression)
+                : [expression]
+
+        for (const fn of functions) {
+            const target = Node.isExportAssignment(fn)
+                ? fn.getExpression()
+                : Node.isVariableDeclaration(fn)
+                ? fn.getInitializer()
+                : fn
+            const unwrapped = target
+                ? AstUtils.unwrapExpression(target)
+                : undefined
+            if (!unwrapped) continue
+
+            if (
+                Node.isIdentifier(unwrapped) ||
+                Node.isCallExpression(unwrapped)
+            ) {
+                const key = this.resolvePluginInstanceKey(unwrapped)
+                if (key) return key
+                continue
+            }
+
+            if (
+                Node.isFunctionDeclaration(unwrapped) ||
+                Node.isFunctionExpression(unwrapped) ||
+                Node.isArrowFunction(unwrapped)
+            ) {
+                const [instance] = unwrapped.getParameters()
+                if (instance) return this.getDeclarationKey(instance)
+            }
+        }
+
+        return null
+    }
+
+    private resolveRouterDeclaration(node: Node, depth: number): Node | null {
+        if (depth > MAX_RESOLVE_DEPTH) return null
+
+        const expression = AstUtils.unwrapExpression(node)
+
+        if (Node.isCallExpression(expression)) {
+            const callee = expression.getExpression()
+
+            // koa: parent.use(child.routes())
+            if (
+                Node.isPropertyAccessExpression(callee) &&
+                ['routes', 'middleware'].includes(callee.getName())
+            ) {
+                return this.resolveRouterDeclaration(
+                    callee.getExpression(),
+                    depth + 1
+                )
+            }
+
+            for (const returned of this.getFactoryReturns(expression)) {
+                const declaration = this.resolveRouterDeclaration(
+                    returned,
+                    depth + 1
+                )
+                if (declaration) return declaration
+            }
+
+            // A router created in place, e.g. app.use('/x', express.Router())
+            return expression
+        }
+
+        if (Node.isNewExpression(expression)) return expression
+
+        if (
+            !Node.isIdentifier(expression) &&
+            !Node.isPropertyAccessExpression(expression)
+        ) {
+            return null
+        }
+
+        for (const declaration of AstUtils.getDeclarations(expression)) {
+            if (Node.isExportAssignment(declaration)) {
+                return this.resolveRouterDeclaration(
+                    declaration.getExpression(),
+                    depth + 1
+                )
+            }
+
+            if (
+                Node.isVariableDeclaration(declaration) ||
+                Node.isPropertyDeclaration(declaration)
+            ) {
+                // const api = router: both names refer to the same router
+                const initializer = declaration.getInitializer()
+                const target = initializer
+                    ? AstUtils.unwrapExpression(initializer)
+                    : undefined
+                if (
+                    target &&
+                    (Node.isIdentifier(target) ||
+                        Node.isPropertyAccessExpression(target))
+                ) {
+                    return this.resolveRouterDeclaration(target, depth + 1)
+                }
+
+                // const admin = createAdminRouter(): the factory's router
+                if (target && this.getFactoryReturns(target).length > 0) {
+                    return this.resolveRouterDeclaration(target, depth + 1)
+                }
+                return declaration
+            }
+
+            if (Node.isParameterDeclaration(declaration)) return declaration
+        }
+
+        return null
+    }
+
+    private getFactoryReturns(call: Node): Node[] {
+        if (!Node.isCallExpression(call)) return []
+
+        return AstUtils.getDeclarations(call.getExpression()).flatMap(
+            (declaration) => AstUtils.getReturnedExpressions(declaration)
+        )
+    }
+
+    private getDeclarationKey(declaration: Node): string {
+        return `${declaration
+            .getSourceFile()
+            .getFilePath()}:${declaration.getStart()}`
+    }
+
+    // Parameters typed as Router, Express, FastifyInstance, ...
+    private resolveKindFromTypeNode(typeNode: Node): RouterKind | null {
+        const typeName = Node.isTypeReference(typeNode)
+            ? typeNode.getTypeName()
+            : null
+        if (!typeName) return null
+
+        const root = Node.isQualifiedName(typeName)
+            ? typeName.getLeft()
+            : typeName
+        const name = Node.isQualifiedName(typeName)
+            ? typeName.getRight().getText()
+            : typeName.getText()
+        if (!Node.isIdentifier(root) || !ROUTER_TYPE_NAMES.test(name)) {
+            return null
+        }
+
+        const specifier = AstUtils.getImportModuleSpecifier(root)
+        return specifier ? ROUTER_MODULES[specifier] ?? null : null
+    }
+}
@@ -0,0 +1,398 @@
+import {
+    CallExpression,
+    Node,
+    ObjectLiteralExpression,
+    SourceFile,
+    SyntaxKind,
+} from 'ts-morph'
+import {
+    JsonSchema,
+    Parameter,
+    RouteResponse,
+    UniversalRoute,
+} from '../../types/universal-types'
+import { AstUtils } from '../../utils/ast-utils'
+import { PathUtils } from '../../utils/path-utils'
+import { DocCommentReader } from './doc-comment-reader'
+import { TypeSchemaResolver } from './type-schema-resolver'
+import { ZodSchemaReader } from './zod-schema-reader'
+
+// router({ ... }), t.router({ ... }), createTRPCRouter({ ... })
+const ROUTER_FACTORIES = ['router', 'createTRPCRouter', 'createRouter']
+
+// Procedure kinds served over HTTP; subscriptions need a WebSocket or SSE
+// link and are left out
+const PROCEDURE_METHODS: Record<string, string> = {
+    query: 'GET',
+    mutation: 'POST',
+}
+
+const PROCEDURE_KINDS = ['query', 'mutation', 'subscription']
+
+// Base procedures that add no middleware of their own
+const PLAIN_PROCEDURES = ['procedure', 'publicProcedure', 't.procedure']
+
+// Adapters mounting a router, and where they put it
+const EXPRESS_ADAPTERS = ['createExpressMiddleware']
+const FETCH_ADAPTERS = ['fetchRequestHandler']
+const NEXT_ADAPTERS = ['createNextApiHandler']
+const FASTIFY_PLUGINS = ['fastifyTRPCPlugin']
+
+const DEFAULT_ENDPOINT = '/trpc'
+
+const MAX_ROUTER_DEPTH = 10
+
+interface Procedure {
+    kind: string
+    resolver: Node | undefined
+    input: Node | undefined
+    output: Node | undefined
+    middleware: string[]
+}
+
+interface RouterProperty {
+    name: string
+    value: Node
+    property: Node
+}
+
+export class TrpcRouterExtractor {
+    private schemaResolver: TypeSchemaResolver
+    private zodReader: ZodSchemaReader
+    private docReader: DocCommentReader
+
+    constructor(
+        schemaResolver: TypeSchemaResolver,
+        docReader = new DocCommentReader()
+    ) {
+        this.schemaResolver = schemaResolver
+        this.zodReader = new ZodSchemaReader(schemaResolver)
+        this.docReader = docReader
+    }
+
+    // Routers can nest routers from other files, so only the roots (routers
+    // no other router includes) are walked
+    extract(sourceFiles: SourceFile[]): UniversalRoute[] {
+        const routers = sourceFiles.flatMap((sourceFile) =>
+            sourceFile
+                .getDescendantsOfKind(SyntaxKind.CallExpression)
+                .filter((call) => this.isRouterCall(call))
+        )
+        if (routers.length === 0) return []
+
+        const nested = new Set<Node>()
+        for (const router of routers) {
+            for (const property of this.getRouterProperties(router)) {
+                const child = this.resolveRouter(property.value)
+                if (child) nested.add(child)
+            }
+        }
+
+        const endpoint = this.findEndpoint(sourceFiles)
+        return routers
+            .filter((router) => !nested.has(router))
+            .flatMap((router) => this.extractRouter(router, [], endpoint, 0))
+    }
+
+    private extractRouter(
+        router: CallExpression,
+        prefix: string[],
+        endpoint: string,
+        depth: number
+    ): UniversalRoute[] {
+        if (depth > MAX_ROUTER_DEPTH) return []
+
+        const routes: UniversalRoute[] = []
+        for (const { name, value, property } of this.getRouterProperties(
+            router
+        )) {
+            const child = this.resolveRouter(value)
+            if (child) {
+                routes.push(
+                    ...this.extractRouter(
+                        child,
+                        [...prefix, name],
+                        endpoint,
+                        depth + 1
+                    )
+                )
+                continue
+            }
+
+            const procedure = this.parseProcedure(value)
+            const method = procedure && PROCEDURE_METHODS[procedure.kind]
+            if (!procedure || !method) continue
+
+            const procedurePath = [...prefix, name].join('.')
+            const docs = this.docReader.read(property)
+            routes.push({
+                path: PathUtils.joinRoutePaths(endpoint, procedurePath),
+                method,
+                handler: procedurePath,
+                middleware: procedure.middleware,
+                parameters: this.describeInput(procedure),
+                responses: [this.describeOutput(procedure)],
+                framework: 'trpc',
+                filePath: property.getSourceFile().getFilePath(),
+                location: AstUtils.getSourceLocation(property),
+                ...(docs ? { docs } : {}),
+            })
+        }
+        return routes
+    }
+
+    // publicProcedure.input(schema).use(auth).query(({ input }) => ...)
+    private parseProcedure(node: Node): Procedure | null {
+        let expression = AstUtils.unwrapExpression(node)
+        if (Node.isIdentifier(expression)) {
+            const declaration = AstUtils.getDeclarations(expression)[0]
+            const initializer =
+                declaration && Node.isVariableDeclaration(declaration)
+                    ? declaration.getInitializer()
+                    : undefined
+            if (!initializer) return null
+            expression = AstUtils.unwrapExpression(initializer)
+        }
+
+        const procedure: Procedure = {
+            kind: '',
+            resolver: undefined,
+            input: undefined,
+            output: undefined,
+            middleware: [],
+        }
+
+        let current: Node = expression
+        while (Node.isCallExpression(current)) {
+            const callee = current.getExpression()
+            if (!Node.isPropertyAccessExpression(callee)) return null
+
+            const [argument] = current.getArguments()
+            const method = callee.getName()
+            if (PROCEDURE_KINDS.includes(method) && !procedure.kind) {
+                procedure.kind = method
+                procedure.resolver = argument
+            } else if (method === 'input' && !procedure.input) {
+                // The last .input() call in the chain is outermost
+                procedure.input = argument
+            } else if (method === 'output' && !procedure.output) {
+                procedure.output = argument
+            } else if (method === 'use' && argument) {
+                procedure.middleware.unshift(argument.getText())
+            }
+            current = callee.getExpression()
+        }
+
+        if (!procedure.kind) return null
+
+        // protectedProcedure.query(...) carries the base's middleware
+        const base = current.getText()
+        if (!PLAIN_PROCEDURES.includes(base)) procedure.middleware.unshift(base)
+        return procedure
+    }
+
+    // Queries take their input JSON-encoded in ?input=, mutations in the body
+    private describeInput(procedure: Procedure): Parameter[] {
+        if (!procedure.input) return []
+
+        const { schema, optional } = this.convertSchema(procedure.input)
+        const type = this.schemaResolver.describe(schema)
+
+        return procedure.kind === 'query'
+            ? [
+                  {
+                      name: 'input',
+                      type,
+                      optional,
+                      location: 'query',
+                      schema,
+                      description: 'Procedure input, JSON-encoded',
+                  },
+              ]
+            : [{ name: 'body', type, optional, location: 'body', schema }]
+    }
+
+    // Results come back wrapped as { result: { data } }
+    private describeOutput(procedure: Procedure): RouteResponse {
+        let data: JsonSchema | null = null
+        if (procedure.output) {
+            data = this.convertSchema(procedure.output).schema
+        } else {
+            const resolver =
+                procedure.resolver &&
+                AstUtils.resolveFunction(procedure.resolver)
+            const returnType = resolver?.getReturnType()
+            const [awaited] =
+                returnType?.getSymbol()?.getName() === 'Promise'
+                    ? returnType.getTypeArguments()
+                    : [returnType]
+            if (awaited && resolver && !awaited.isAny() && !awaited.isVoid()) {
+                data = this.schemaResolver.resolve(awaited, resolver)
+            }
+        }
+
+        if (!data) return { statusCode: '200', type: 'void' }
+
+        return {
+            statusCode: '200',
+            type: `{ result: { data: ${this.schemaResolver.describe(data)} } }`,
+            schema: {
+                type: 'object',
+                properties: {
+                    result: {
+                        type: 'object',
+                        properties: { data },
+                        required: ['data'],
+                    },
+                },
+                required: ['result'],
+            },
+        }
+    }
+
+    // Zod schemas are converted; other validators fall back to their type
+    private convertSchema(node: Node): {
+        schema: JsonSchema
+        optional: boolean
+    } {
+        if (this.zodReader.isSchema(node)) return this.zodReader.convert(node)
+        return { schema: {}, optional: false }
+    }
+
+    private isRouterCall(call: CallExpression): boolean {
+        const callee = call.getExpression()
+        const name = Node.isPropertyAccessExpression(callee)
+            ? callee.getName()
+            : callee.getText()
+        const [argument] = call.getArguments()
+        return (
+            ROUTER_FACTORIES.includes(name) &&
+            !!argument &&
+            Node.isObjectLiteralExpression(AstUtils.unwrapExpression(argument))
+        )
+    }
+
+    // An inline router, or a variable holding one
+    private resolveRouter(node: Node, depth = 0): CallExpression | null {
+        if (depth > MAX_ROUTER_DEPTH) return null
+
+        const expression = AstUtils.unwrapExpression(node)
+        if (Node.isCallExpression(expression)) {
+            return this.isRouterCall(expression) ? expression : null
+        }
+        if (!Node.isIdentifier(expression)) return null
+
+        for (const declaration of AstUtils.getDeclarations(expression)) {
+            const initializer = Node.isVariableDeclaration(declaration)
+                ? declaration.getInitializer()
+                : undefined
+            const router =
+                initializer && this.resolveRouter(initializer, depth + 1)
+            if (router) return router
+        }
+        return null
+    }
+
+    private getRouterProperties(router: CallExpression): RouterProperty[] {
+        const definition = AstUtils.unwrapExpression(
+            router.getArguments()[0]!
+        ) as ObjectLiteralExpression
+
+        return definition
+            .getProperties()
+            .flatMap((property): RouterProperty[] => {
+                if (Node.isPropertyAssignment(property)) {
+                    const value = property.getInitializer()
+                    const name = AstUtils.resolveStringValue(
+                        property.getNameNode()
+                    )
+                    return value
+                        ? [
+                              {
+                                  name: name ?? property.getName(),
+                                  value,
+                                  property,
+                              },
+                          ]
+                        : []
+                }
+                // router({ users }) with a router variable
+                if (Node.isShorthandPropertyAssignment(property)) {
+                    return [
+                        {
+                            name: property.getName(),
+                            value: property.getNameNode(),
+                            property,
+                        },
+                    ]
+                }
+                return []
+            })
+    }
+
+    // Where the HTTP adapter serves the router: fetchRequestHandler({
+    // endpoint }), pages/api/trpc/[trpc].ts, app.use('/trpc', ...) or
+    // fastify's plugin prefix
+    private findEndpoint(sourceFiles: SourceFile[]): string {
+        for (const sourceFile of sourceFiles) {
+            for (const call of sourceFile.getDescendantsOfKind(
+                SyntaxKind.CallExpression
+            )) {
+                const callee = call.getExpression().getText()
+                const args = call.getArguments()
+                const options = args[args.length - 1]
+                const optionValue = (name: string) => {
+                    const value = options
+                        ? AstUtils.resolveLiteralValue(options)
+                        : undefined
+                    const field =
+                        value && typeof value === 'object'
+                            ? (value as Record<string, unknown>)[name]
+                            : undefined
+                    return typeof field === 'string' ? field : null
+                }
+
+                if (this.endsWithAny(callee, FETCH_ADAPTERS)) {
+                    const endpoint = optionValue('endpoint')
+                    if (endpoint) return PathUtils.joinRoutePaths(endpoint)
+                }
+
+                if (this.endsWithAny(callee, NEXT_ADAPTERS)) {
+                    const match = sourceFile
+                        .getFilePath()
+                        .match(/\/pages(\/api\/.*)\/\[[^/]+\]\.\w+$/)
+                    if (match?.[1]) return match[1]
+                }
+
+                const [first, second] = args
+                if (
+                    callee.endsWith('.use') &&
+                    first &&
+                    second &&
+                    Node.isCallExpression(second) &&
+                    this.endsWithAny(
+                        second.getExpression().getText(),
+                        EXPRESS_ADAPTERS
+                    )
+                ) {
+                    const prefix = AstUtils.resolveStringValue(first)
+                    if (prefix) return PathUtils.joinRoutePaths(prefix)
+                }
+
+                if (
+                    callee.endsWith('.register') &&
+                    first &&
+                    this.endsWithAny(first.getText(), FASTIFY_PLUGINS)
+                ) {
+                    const prefix = optionValue('prefix')
+                    if (prefix) return PathUtils.joinRoutePaths(prefix)
+                }
+            }
+        }
+        return DEFAULT_ENDPOINT
+    }
+
+    private endsWithAny(text: string, names: string[]): boolean {
+        return names.some((name) => text === name || text.endsWith(`.${name}`))
+    }
+}
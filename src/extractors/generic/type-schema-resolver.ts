@@ -0,0 +1,464 @@
+import { EnumDeclaration, Node, Type } from 'ts-morph'
+import { JsonSchema, Property } from '../../types/universal-types'
+import { DocCommentReader } from './doc-comment-reader'
+import { PropertyDecoratorReader } from './property-decorator-reader'
+
+export const SCHEMA_REF_PREFIX = '#/components/schemas/'
+
+// Anonymous types can nest generics indefinitely; named ones stop at a $ref
+const MAX_SCHEMA_DEPTH = 8
+
+// Library types with a fixed JSON representation
+const BUILTIN_SCHEMAS: Record<string, JsonSchema> = {
+    Date: { type: 'string', format: 'date-time' },
+    Buffer: { type: 'string', format: 'binary' },
+    Blob: { type: 'string', format: 'binary' },
+    URL: { type: 'string', format: 'uri' },
+    RegExp: { type: 'string', format: 'regex' },
+    Object: { type: 'object' },
+}
+
+// Keywords describing structure rather than validation rules
+const STRUCTURAL_KEYWORDS = [
+    'type',
+    '$ref',
+    'properties',
+    'required',
+    'items',
+    'prefixItems',
+    'additionalProperties',
+    'anyOf',
+    'allOf',
+]
+
+// A schema converted from a validation library; optionality belongs to the
+// enclosing object rather than the schema itself
+export interface ConvertedSchema {
+    schema: JsonSchema
+    optional: boolean
+}
+
+export class TypeSchemaResolver {
+    private definitions: Record<string, JsonSchema> = {}
+    // Declaration identity -> definition name, so same-named types from
+    // different files get separate definitions
+    private definitionNames = new Map<string, string>()
+    private decoratorReader = new PropertyDecoratorReader(this)
+    private docReader: DocCommentReader
+
+    constructor(docReader = new DocCommentReader()) {
+        this.docReader = docReader
+    }
+
+    // Definitions behind every $ref handed out so far
+    getDefinitions(): Record<string, JsonSchema> {
+        return this.definitions
+    }
+
+    // Schema for a value of this type; named project types become $refs
+    resolve(type: Type, enclosingNode: Node): JsonSchema {
+        return this.resolveType(type, enclosingNode, 0)
+    }
+
+    // Full definition of a declared interface, class, type alias or enum
+    resolveDeclaration(declaration: Node): JsonSchema {
+        return this.dereference(
+            this.resolve(declaration.getType(), declaration)
+        )
+    }
+
+    // Fields of an object schema, with validation rules as constraints
+    getProperties(schema: JsonSchema): Property[] {
+        const objectSchema = this.dereference(schema)
+        const required = objectSchema.required ?? []
+
+        return Object.entries(objectSchema.properties ?? {}).map(
+            ([name, propertySchema]) => {
+                const constraints = Object.fromEntries(
+                    Object.entries(propertySchema).filter(
+                        ([keyword]) => !STRUCTURAL_KEYWORDS.includes(keyword)
+                    )
+                )
+                return {
+                    name,
+                    type: this.describe(propertySchema),
+                    optional: !required.includes(name),
+                    ...(Object.keys(constraints).length > 0
+                        ? { constraints }
+                        : {}),
+                }
+            }
+        )
+    }
+
+    // TypeScript-like rendering of a converted schema
+    describe(schema: JsonSchema): string {
+        if (schema.$ref) return schema.$ref.slice(SCHEMA_REF_PREFIX.length)
+        if (schema.enum) {
+            return schema.enum.map((value) => JSON.stringify(value)).join(' | ')
+        }
+        if (schema.anyOf) {
+            return schema.anyOf
+                .map((member) => this.describe(member))
+                .join(' | ')
+        }
+        if (schema.allOf) {
+            return schema.allOf
+                .map((member) => this.describe(member))
+                .join(' & ')
+        }
+
+        const types = Array.isArray(schema.type) ? schema.type : [schema.type]
+        return types
+            .map((type) => {
+                switch (type) {
+                    case 'string':
+                    case 'boolean':
+                    case 'null':
+                        return type
+                    case 'number':
+                    case 'integer':
+                        return 'number'
+                    case 'array': {
+                        const items = schema.items
+                            ? this.describe(schema.items)
+                            : 'any'
+                        return items.includes(' ')
+                            ? `(${items})[]`
+                            : `${items}[]`
+                    }
+                    case 'object':
+                        return typeof schema.additionalProperties === 'object'
+                            ? `Record<string, ${this.describe(
+                                  schema.additionalProperties
+                              )}>`
+                            : 'object'
+                    default:
+                        return 'any'
+                }
+            })
+            .join(' | ')
+    }
+
+    private resolveType(
+        type: Type,
+        enclosingNode: Node,
+        depth: number
+    ): JsonSchema {
+        if (depth > MAX_SCHEMA_DEPTH || type.isAny() || type.isUnknown()) {
+            return {}
+        }
+
+        const primitive = this.resolvePrimitive(type)
+        if (primitive) return primitive
+
+        const declaration = this.getNamedDeclaration(type)
+        if (declaration) return this.resolveNamed(type, declaration, depth)
+
+        return this.buildSchema(type, enclosingNode, depth)
+    }
+
+    private resolvePrimitive(type: Type): JsonSchema | null {
+        if (type.isBoolean()) return { type: 'boolean' }
+        if (type.isString() || type.isTemplateLiteral()) {
+            return { type: 'string' }
+        }
+        if (type.isNumber()) return { type: 'number' }
+        if (type.isNull()) return { type: 'null' }
+
+        if (type.isStringLiteral() || type.isNumberLiteral()) {
+            const value = type.getLiteralValue() as string | number
+            return { type: typeof value, enum: [value] }
+        }
+        if (type.isBooleanLiteral()) {
+            return { type: 'boolean', enum: [type.getText() === 'true'] }
+        }
+
+        return null
+    }
+
+    // Interfaces, classes, aliases and enums declared in the project (not in
+    // libraries), used as-is rather than instantiated with type arguments
+    private getNamedDeclaration(type: Type): Node | null {
+        const hasTypeArguments =
+            type.getAliasTypeArguments().length > 0 ||
+            (type.isObject() && type.getTypeArguments().length > 0)
+        if (hasTypeArguments) return null
+
+        const symbol = type.getAliasSymbol() ?? type.getSymbol()
+        const declaration = symbol?.getDeclarations()[0]
+        if (!declaration) return null
+
+        const sourceFile = declaration.getSourceFile()
+        if (
+            sourceFile.isInNodeModules() ||
+            sourceFile.isFromExternalLibrary()
+        ) {
+            return null
+        }
+
+        return Node.isInterfaceDeclaration(declaration) ||
+            Node.isClassDeclaration(declaration) ||
+            Node.isTypeAliasDeclaration(declaration) ||
+            Node.isEnumDeclaration(declaration)
+            ? declaration
+            : null
+    }
+
+    // Named definition for a schema that is not a TypeScript type (e.g. a
+    // zod schema), de-duplicated by declaration like named types
+    define(
+        declaration: Node,
+        name: string,
+        build: () => JsonSchema
+    ): JsonSchema {
+        const key = `${declaration
+            .getSourceFile()
+            .getFilePath()}:${declaration.getStart()}`
+
+        let definitionName = this.definitionNames.get(key)
+        if (!definitionName) {
+            definitionName = this.getUniqueName(name)
+            this.definitionNames.set(key, definitionName)
+
+            // Registered before expanding so self-references become $refs
+            this.definitions[definitionName] = {}
+            this.definitions[definitionName] = this.withDescription(
+                build(),
+                declaration
+            )
+        }
+
+        return { $ref: `${SCHEMA_REF_PREFIX}${definitionName}` }
+    }
+
+    // Definition behind a $ref handed out by this resolver
+    dereference(schema: JsonSchema): JsonSchema {
+        const name = schema.$ref?.startsWith(SCHEMA_REF_PREFIX)
+            ? schema.$ref.slice(SCHEMA_REF_PREFIX.length)
+            : undefined
+        return (name && this.definitions[name]) || schema
+    }
+
+    private resolveNamed(
+        type: Type,
+        declaration: Node,
+        depth: number
+    ): JsonSchema {
+        return this.define(
+            declaration,
+            (type.getAliasSymbol() ?? type.getSymbol())!.getName(),
+            () => this.buildSchema(type, declaration, depth + 1)
+        )
+    }
+
+    private buildSchema(
+        type: Type,
+        enclosingNode: Node,
+        depth: number
+    ): JsonSchema {
+        if (type.isUnion()) {
+            return this.buildUnionSchema(type, enclosingNode, depth)
+        }
+
+        if (type.isIntersection()) {
+            return {
+                allOf: type
+                    .getIntersectionTypes()
+                    .map((member) =>
+                        this.resolveType(member, enclosingNode, depth + 1)
+                    ),
+            }
+        }
+
+        if (type.isArray() || type.isReadonlyArray()) {
+            const element = type.getArrayElementType()
+            return {
+                type: 'array',
+                items: element
+                    ? this.resolveType(element, enclosingNode, depth + 1)
+                    : {},
+            }
+        }
+
+        if (type.isTuple()) {
+            const elements = type.getTupleElements()
+            return {
+                type: 'array',
+                prefixItems: elements.map((element) =>
+                    this.resolveType(element, enclosingNode, depth + 1)
+                ),
+                minItems: elements.length,
+                maxItems: elements.length,
+            }
+        }
+
+        const builtin = BUILTIN_SCHEMAS[type.getSymbol()?.getName() || '']
+        if (builtin) return { ...builtin }
+
+        // Functions and methods are not part of the serialized payload
+        if (type.getCallSignatures().length > 0 || !type.isObject()) return {}
+
+        return this.buildObjectSchema(type, enclosingNode, depth)
+    }
+
+    private buildUnionSchema(
+        type: Type,
+        enclosingNode: Node,
+        depth: number
+    ): JsonSchema {
+        // Optional values show up as T | undefined; optionality is tracked
+        // separately through `required`
+        let members = type
+            .getUnionTypes()
+            .filter((member) => !member.isUndefined() && !member.isVoid())
+
+        // boolean is represented as true | false
+        const includesBoolean =
+            members.filter((member) => member.isBooleanLiteral()).length === 2
+        if (includesBoolean) {
+            members = members.filter((member) => !member.isBooleanLiteral())
+        }
+
+        // Role | undefined leaves the members of Role; point back at the enum
+        // (unless this is the enum itself being defined)
+        const enumDeclaration = type.isEnum()
+            ? null
+            : this.getCoveredEnum(members)
+        if (enumDeclaration) {
+            return this.resolveType(
+                enumDeclaration.getType(),
+                enumDeclaration,
+                depth + 1
+            )
+        }
+
+        // 'admin' | 'user' and enums become a single enum
+        const literals = members.filter(
+            (member) => member.isStringLiteral() || member.isNumberLiteral()
+        )
+        if (
+            !includesBoolean &&
+            literals.length > 0 &&
+            literals.length === members.length
+        ) {
+            const values = literals.map(
+                (member) => member.getLiteralValue() as string | number
+            )
+            const types = Array.from(
+                new Set(values.map((value) => typeof value))
+            )
+            return {
+                type: types.length === 1 ? types[0]! : types,
+                enum: values,
+            }
+        }
+
+        const schemas = members.map((member) =>
+            this.resolveType(member, enclosingNode, depth + 1)
+        )
+        if (includesBoolean) schemas.push({ type: 'boolean' })
+        return schemas.length === 1 ? schemas[0]! : { anyOf: schemas }
+    }
+
+    private buildObjectSchema(
+        type: Type,
+        enclosingNode: Node,
+        depth: number
+    ): JsonSchema {
+        const properties: Record<string, JsonSchema> = {}
+        const required: string[] = []
+
+        for (const property of type.getProperties()) {
+            const declaration = property.getValueDeclaration()
+            if (
+                declaration &&
+                (Node.isMethodDeclaration(declaration) ||
+                    Node.isMethodSignature(declaration) ||
+                    Node.isGetAccessorDeclaration(declaration) ||
+                    Node.isSetAccessorDeclaration(declaration))
+            ) {
+                continue
+            }
+
+            const propertyType = property.getTypeAtLocation(enclosingNode)
+            if (propertyType.getCallSignatures().length > 0) continue
+
+            let name = property.getName()
+            let optional = property.isOptional()
+            let schema = this.resolveType(
+                propertyType,
+                enclosingNode,
+                depth + 1
+            )
+
+            // DTO classes: validation and serialization decorators
+            if (declaration && Node.isPropertyDeclaration(declaration)) {
+                const rules = this.decoratorReader.read(declaration)
+                if (rules.excluded) continue
+
+                name = rules.serializedName ?? name
+                optional = optional || rules.optional
+                schema = this.decoratorReader.applyRules(schema, rules)
+            }
+
+            properties[name] = declaration
+                ? this.withDescription(schema, declaration)
+                : schema
+            if (!optional) required.push(name)
+        }
+
+        // Record<string, T> and { [key: string]: T }
+        const indexType = type.getStringIndexType()
+
+        const schema: JsonSchema = { type: 'object' }
+        if (Object.keys(properties).length > 0 || !indexType) {
+            schema.properties = properties
+        }
+        if (required.length > 0) schema.required = required
+        if (indexType) {
+            schema.additionalProperties = this.resolveType(
+                indexType,
+                enclosingNode,
+                depth + 1
+            )
+        }
+
+        return schema
+    }
+
+    // Doc comments become descriptions unless one was set explicitly
+    // (e.g. @ApiProperty({ description }))
+    private withDescription(schema: JsonSchema, declaration: Node): JsonSchema {
+        if (schema.description) return schema
+
+        const description = this.docReader.getDescription(declaration)
+        return description ? { ...schema, description } : schema
+    }
+
+    private getCoveredEnum(members: Type[]): EnumDeclaration | null {
+        const declarations = members.map((member) =>
+            member.isEnumLiteral()
+                ? member.getSymbol()?.getValueDeclaration()?.getParent()
+                : undefined
+        )
+        const [first] = declarations
+        if (
+            !first ||
+            !Node.isEnumDeclaration(first) ||
+            declarations.some((declaration) => declaration !== first)
+        ) {
+            return null
+        }
+
+        return first.getMembers().length === members.length ? first : null
+    }
+
+    private getUniqueName(name: string): string {
+        let candidate = name
+        for (let i = 2; candidate in this.definitions; i++) {
+            candidate = `${name}${i}`
+        }
+        return candidate
+    }
+}
@@ -0,0 +1,277 @@
+import { Node, VariableDeclaration } from 'ts-morph'
+import { JsonSchema } from '../../types/universal-types'
+import { AstUtils } from '../../utils/ast-utils'
+import { ConvertedSchema, TypeSchemaResolver } from './type-schema-resolver'
+
+// Modules exporting the TypeBox `Type` builder
+const TYPEBOX_MODULES = [
+    '@sinclair/typebox',
+    'typebox',
+    '@fastify/type-provider-typebox',
+]
+
+// Guards against deeply nested or mutually referencing schemas
+const MAX_TYPEBOX_DEPTH = 12
+
+const PRIMITIVE_SCHEMAS: Record<string, JsonSchema> = {
+    String: { type: 'string' },
+    Number: { type: 'number' },
+    Integer: { type: 'integer' },
+    Boolean: { type: 'boolean' },
+    Null: { type: 'null' },
+    Date: { type: 'string', format: 'date-time' },
+    Any: {},
+    Unknown: {},
+}
+
+export class TypeBoxSchemaReader {
+    private schemaResolver: TypeSchemaResolver
+
+    constructor(schemaResolver: TypeSchemaResolver) {
+        this.schemaResolver = schemaResolver
+    }
+
+    // Type.Object({...}) or a variable holding one
+    isSchema(node: Node, depth = 0): boolean {
+        if (depth > MAX_TYPEBOX_DEPTH) return false
+
+        const expression = AstUtils.unwrapExpression(node)
+        if (Node.isCallExpression(expression)) {
+            const callee = expression.getExpression()
+            return (
+                Node.isPropertyAccessExpression(callee) &&
+                this.isTypeBuilder(callee.getExpression())
+            )
+        }
+
+        return !!this.getSchemaVariable(expression, depth + 1)
+    }
+
+    convert(node: Node): ConvertedSchema {
+        return this.convertNode(node, 0)
+    }
+
+    private convertNode(node: Node, depth: number): ConvertedSchema {
+        if (depth > MAX_TYPEBOX_DEPTH) return { schema: {}, optional: false }
+
+        const expression = AstUtils.unwrapExpression(node)
+
+        // A schema declared elsewhere becomes a shared definition
+        const variable = this.getSchemaVariable(expression, depth)
+        if (variable) {
+            const initializer = variable.getInitializer()!
+            const name = variable.getName().replace(/Schema$/, '')
+            return {
+                schema: this.schemaResolver.define(
+                    variable,
+                    name.charAt(0).toUpperCase() + name.slice(1),
+                    () => this.convertNode(initializer, depth + 1).schema
+                ),
+                optional: false,
+            }
+        }
+
+        if (!Node.isCallExpression(expression)) {
+            return { schema: {}, optional: false }
+        }
+        const callee = expression.getExpression()
+        if (!Node.isPropertyAccessExpression(callee)) {
+            return { schema: {}, optional: false }
+        }
+
+        const name = callee.getName()
+        const args = expression.getArguments()
+        const [first, second] = args
+        const result = (schema: JsonSchema): ConvertedSchema => ({
+            schema: { ...schema, ...this.getOptions(name, args) },
+            optional: false,
+        })
+        const convertMember = (member: Node | undefined): JsonSchema =>
+            member ? this.convertNode(member, depth + 1).schema : {}
+
+        const primitive = PRIMITIVE_SCHEMAS[name]
+        if (primitive) return result(primitive)
+
+        switch (name) {
+            case 'Optional':
+            case 'ReadonlyOptional':
+                return {
+                    schema: convertMember(first),
+                    optional: true,
+                }
+            case 'Readonly':
+            case 'Ref':
+                return { schema: convertMember(first), optional: false }
+            case 'Literal': {
+                const value = first && AstUtils.resolveLiteralValue(first)
+                return result({
+                    type: typeof value,
+                    enum: [value as string | number | boolean],
+                })
+            }
+            case 'Array':
+                return result({ type: 'array', items: convertMember(first) })
+            case 'Object':
+                return result(
+                    first
+                        ? this.convertProperties(first, depth)
+                        : { type: 'object' }
+                )
+            case 'Union':
+            case 'Intersect':
+            case 'Composite':
+            case 'Tuple': {
+                const list = first ? AstUtils.unwrapExpression(first) : null
+                const members =
+                    list && Node.isArrayLiteralExpression(list)
+                        ? list.getElements().map(convertMember)
+                        : []
+                if (name === 'Union') return result({ anyOf: members })
+                if (name === 'Tuple') {
+                    return result({
+                        type: 'array',
+                        prefixItems: members,
+                        minItems: members.length,
+                        maxItems: members.length,
+                    })
+                }
+                return result({ allOf: members })
+            }
+            case 'Enum':
+                return result((first && this.convertEnum(first)) || {})
+            case 'Record':
+                return result({
+                    type: 'object',
+                    additionalProperties: convertMember(second),
+                })
+            case 'Partial':
+            case 'Required':
+            case 'Pick':
+            case 'Omit':
+                return result(
+                    this.transformObject(name, convertMember(first), second)
+                )
+            default:
+                return result({})
+        }
+    }
+
+    // Partial/Required/Pick/Omit of an object schema
+    private transformObject(
+        name: string,
+        schema: JsonSchema,
+        keysNode: Node | undefined
+    ): JsonSchema {
+        const base = this.schemaResolver.dereference(schema)
+        if (!base.properties) return schema
+
+        const keys = keysNode ? AstUtils.resolveLiteralValue(keysNode) : null
+        const keyList = Array.isArray(keys) ? keys : []
+        const properties = { ...base.properties }
+        let required = [...(base.required ?? [])]
+
+        if (name === 'Partial') required = []
+        if (name === 'Required') required = Object.keys(properties)
+        if (name === 'Pick' || name === 'Omit') {
+            for (const key of Object.keys(properties)) {
+                if (keyList.includes(key) === (name === 'Omit')) {
+                    delete properties[key]
+                }
+            }
+            required = required.filter((key) => key in properties)
+        }
+
+        const result: JsonSchema = { type: 'object', properties }
+        if (required.length > 0) result.required = required
+        return result
+    }
+
+    private convertProperties(node: Node, depth: number): JsonSchema {
+        const shape = AstUtils.unwrapExpression(node)
+        if (!Node.isObjectLiteralExpression(shape)) return { type: 'object' }
+
+        const properties: Record<string, JsonSchema> = {}
+        const required: string[] = []
+
+        for (const property of shape.getProperties()) {
+            if (!Node.isPropertyAssignment(property)) continue
+
+            const value = property.getInitializer()
+            if (!value) continue
+
+            const nameNode = property.getNameNode()
+            const name = Node.isStringLiteral(nameNode)
+                ? nameNode.getLiteralValue()
+                : nameNode.getText()
+            const converted = this.convertNode(value, depth + 1)
+
+            properties[name] = converted.schema
+            if (!converted.optional) required.push(name)
+        }
+
+        const schema: JsonSchema = { type: 'object', properties }
+        if (required.length > 0) schema.required = required
+        return schema
+    }
+
+    // Type.Enum(Role)
+    private convertEnum(node: Node): JsonSchema | null {
+        const enumDeclaration = AstUtils.getDeclarations(
+            AstUtils.unwrapExpression(node)
+        ).find((declaration) => Node.isEnumDeclaration(declaration))
+        if (enumDeclaration) {
+            return this.schemaResolver.resolve(
+                enumDeclaration.getType(),
+                enumDeclaration
+            )
+        }
+
+        const value = AstUtils.resolveLiteralValue(node)
+        const values =
+            value && typeof value === 'object' ? Object.values(value) : []
+        return values.length > 0
+            ? { enum: values as (string | number)[] }
+            : null
+    }
+
+    // JSON Schema options passed last: Type.String({ format: 'email' }),
+    // Type.Object({ ... }, { additionalProperties: false })
+    private getOptions(name: string, args: Node[]): JsonSchema {
+        const takesOptionsOnly = !!PRIMITIVE_SCHEMAS[name] || name === 'Unsafe'
+        if (args.length === 0 || (args.length === 1 && !takesOptionsOnly)) {
+            return {}
+        }
+
+        const options = AstUtils.resolveLiteralValue(args[args.length - 1]!)
+        return options && typeof options === 'object' && !Array.isArray(options)
+            ? (options as JsonSchema)
+            : {}
+    }
+
+    private getSchemaVariable(
+        node: Node,
+        depth: number
+    ): VariableDeclaration | null {
+        const expression = AstUtils.unwrapExpression(node)
+        if (!Node.isIdentifier(expression)) return null
+
+        for (const declaration of AstUtils.getDeclarations(expression)) {
+            const initializer = Node.isVariableDeclaration(declaration)
+                ? declaration.getInitializer()
+                : undefined
+            if (initializer && this.isSchema(initializer, depth + 1)) {
+                return declaration as VariableDeclaration
+            }
+        }
+        return null
+    }
+
+    // Type, or whatever name it was imported under
+    private isTypeBuilder(node: Node): boolean {
+        const expression = AstUtils.unwrapExpression(node)
+        if (!Node.isIdentifier(expression)) return false
+
+        const specifier = AstUtils.getImportModuleSpecifier(expression)
+        return !!specifier && TYPEBOX_MODULES.includes(specifier)
+    }
+}
@@ -0,0 +1,456 @@
+import {
+    CallExpression,
+    ClassDeclaration,
+    Decorator,
+    MethodDeclaration,
+    Node,
+    SourceFile,
+    SyntaxKind,
+    Type,
+} from 'ts-morph'
+import { JsonSchema, UniversalEvent } from '../../types/universal-types'
+import { AstUtils } from '../../utils/ast-utils'
+import { DocCommentReader } from './doc-comment-reader'
+import { TypeSchemaResolver } from './type-schema-resolver'
+
+// Events socket.io raises itself rather than clients
+const RESERVED_EVENTS = [
+    'connect',
+    'connection',
+    'disconnect',
+    'disconnecting',
+    'error',
+    'new_namespace',
+]
+
+const CONNECTION_EVENTS = ['connection', 'connect']
+
+const SOCKET_IO_MODULES = ['socket.io']
+
+// Handlers return promises or observables of their acknowledgement
+const ASYNC_WRAPPERS = ['Promise', 'Observable']
+
+// An event name with what it carries, before direction and origin are known
+type EventMessage = Pick<
+    UniversalEvent,
+    'name' | 'payloadType' | 'payload' | 'location'
+>
+
+export class WebSocketEventExtractor {
+    private schemaResolver: TypeSchemaResolver
+    private docReader: DocCommentReader
+
+    constructor(
+        schemaResolver: TypeSchemaResolver,
+        docReader = new DocCommentReader()
+    ) {
+        this.schemaResolver = schemaResolver
+        this.docReader = docReader
+    }
+
+    extract(sourceFile: SourceFile): UniversalEvent[] {
+        const events: UniversalEvent[] = []
+
+        for (const classDecl of sourceFile.getClasses()) {
+            const gateway = classDecl.getDecorator('WebSocketGateway')
+            if (gateway) events.push(...this.extractGateway(classDecl, gateway))
+        }
+
+        if (this.importsSocketIo(sourceFile)) {
+            for (const call of sourceFile.getDescendantsOfKind(
+                SyntaxKind.CallExpression
+            )) {
+                events.push(...this.extractConnectionHandler(call))
+            }
+        }
+
+        return this.deduplicate(events)
+    }
+
+    // @WebSocketGateway(81, { namespace: 'chat' }) with @SubscribeMessage()
+    // handlers; anything the gateway emits is sent to clients
+    private extractGateway(
+        classDecl: ClassDeclaration,
+        gateway: Decorator
+    ): UniversalEvent[] {
+        const events: UniversalEvent[] = []
+        const namespace = this.getGatewayNamespace(gateway)
+        const gatewayName = classDecl.getName() || 'AnonymousGateway'
+        const base = {
+            namespace,
+            gateway: gatewayName,
+            framework: 'nestjs' as const,
+            filePath: classDecl.getSourceFile().getFilePath(),
+        }
+
+        for (const method of classDecl.getMethods()) {
+            const subscribe = method.getDecorator('SubscribeMessage')
+            const [eventArg] = subscribe?.getArguments() ?? []
+            const eventName = eventArg && AstUtils.resolveStringValue(eventArg)
+            const docs = this.docReader.read(method)
+
+            if (eventName) {
+                const payloadType = this.getMessageBodyType(method)
+                const { reply, ack } = this.getHandlerResult(method)
+
+                events.push({
+                    name: eventName,
+                    direction: 'receive',
+                    ...base,
+                    handler: method.getName(),
+                    location: AstUtils.getSourceLocation(method),
+                    ...this.describePayload(payloadType, method),
+                    ...(ack ? { ack } : {}),
+                    ...(docs ? { docs } : {}),
+                })
+                if (reply) {
+                    events.push({
+                        ...reply,
+                        direction: 'send',
+                        ...base,
+                        handler: method.getName(),
+                    })
+                }
+            }
+
+            for (const emit of this.findEmits(method)) {
+                events.push({
+                    ...emit,
+                    direction: 'send',
+                    ...base,
+                    handler: method.getName(),
+                })
+            }
+        }
+
+        return events
+    }
+
+    // io.on('connection', (socket) => { socket.on('message', ...) }) and
+    // io.of('/chat').on('connection', ...)
+    private extractConnectionHandler(call: CallExpression): UniversalEvent[] {
+        const target = this.getEventTarget(call)
+        if (!target || !CONNECTION_EVENTS.includes(target.event)) return []
+
+        const [, listener] = call.getArguments()
+        const connection = listener && AstUtils.resolveFunction(listener)
+        const [socketParam] = connection?.getParameters() ?? []
+        if (!connection || !socketParam) return []
+
+        const namespace = this.getNamespace(target.receiver)
+        const sourceFile = call.getSourceFile()
+        const base = {
+            namespace,
+            gateway: sourceFile.getBaseName().split('.')[0] || 'socket',
+            framework: 'socket.io' as const,
+            filePath: sourceFile.getFilePath(),
+        }
+        const events: UniversalEvent[] = []
+
+        for (const inner of connection.getDescendantsOfKind(
+            SyntaxKind.CallExpression
+        )) {
+            const innerTarget = this.getEventTarget(inner)
+            if (
+                !innerTarget ||
+                innerTarget.receiver.getText() !== socketParam.getName() ||
+                RESERVED_EVENTS.includes(innerTarget.event)
+            ) {
+                continue
+            }
+
+            const [, handlerArg] = inner.getArguments()
+            const handler = handlerArg && AstUtils.resolveFunction(handlerArg)
+            const [payloadParam, ...rest] = handler?.getParameters() ?? []
+            const ackParam = rest.find(
+                (param) => param.getType().getCallSignatures().length > 0
+            )
+            const ack = ackParam && this.getAckSchema(ackParam.getType(), inner)
+            const docs =
+                (handler && this.docReader.read(handler)) ??
+                this.docReader.readStatement(inner)
+
+            events.push({
+                name: innerTarget.event,
+                direction: 'receive',
+                ...base,
+                handler: this.getHandlerName(handlerArg),
+                location: AstUtils.getSourceLocation(inner),
+                ...this.describePayload(payloadParam?.getType(), inner),
+                ...(ack ? { ack } : {}),
+                ...(docs ? { docs } : {}),
+            })
+        }
+
+        for (const emit of this.findEmits(connection)) {
+            events.push({
+                ...emit,
+                direction: 'send',
+                ...base,
+                handler: 'connection',
+            })
+        }
+
+        return events
+    }
+
+    // x.on('event', handler) -> the receiver and event name
+    private getEventTarget(
+        call: CallExpression
+    ): { receiver: Node; event: string } | null {
+        const callee = call.getExpression()
+        if (
+            !Node.isPropertyAccessExpression(callee) ||
+            callee.getName() !== 'on'
+        ) {
+            return null
+        }
+
+        const [eventArg] = call.getArguments()
+        const event = eventArg && AstUtils.resolveStringValue(eventArg)
+        return event ? { receiver: callee.getExpression(), event } : null
+    }
+
+    // socket.emit('event', payload), this.server.to(room).emit(...),
+    // socket.broadcast.emit(...)
+    private findEmits(node: Node): EventMessage[] {
+        const emits: EventMessage[] = []
+
+        for (const call of node.getDescendantsOfKind(
+            SyntaxKind.CallExpression
+        )) {
+            const callee = call.getExpression()
+            if (
+                !Node.isPropertyAccessExpression(callee) ||
+                callee.getName() !== 'emit'
+            ) {
+                continue
+            }
+
+            const [eventArg, payloadArg] = call.getArguments()
+            const name = eventArg && AstUtils.resolveStringValue(eventArg)
+            if (!name || RESERVED_EVENTS.includes(name)) continue
+
+            emits.push({
+                name,
+                ...this.describePayload(this.getValueType(payloadArg), call),
+                location: AstUtils.getSourceLocation(call),
+            })
+        }
+
+        return emits
+    }
+
+    // Returning { event, data } (WsResponse) sends an event back; any other
+    // value acknowledges the message
+    private getHandlerResult(method: MethodDeclaration): {
+        reply?: EventMessage
+        ack?: JsonSchema
+    } {
+        for (const returned of AstUtils.getReturnedExpressions(method)) {
+            const reply = this.getReplyMessage(returned)
+            if (reply) return { reply }
+        }
+
+        const type = this.unwrapAsyncType(method.getReturnType())
+        const isWsResponse =
+            type.getSymbol()?.getName() === 'WsResponse' ||
+            /^(Promise<|Observable<)*WsResponse\b/.test(
+                method.getReturnTypeNode()?.getText() ?? ''
+            )
+        if (
+            type.isVoid() ||
+            type.isAny() ||
+            type.isUndefined() ||
+            isWsResponse
+        ) {
+            return {}
+        }
+
+        return { ack: this.schemaResolver.resolve(type, method) }
+    }
+
+    // return { event: 'pong', data }
+    private getReplyMessage(node: Node): EventMessage | null {
+        const expression = AstUtils.unwrapExpression(node)
+        if (!Node.isObjectLiteralExpression(expression)) return null
+
+        const event = expression.getProperty('event')
+        const eventName =
+            event && Node.isPropertyAssignment(event)
+                ? AstUtils.resolveStringValue(event.getInitializerOrThrow())
+                : null
+        if (!eventName) return null
+
+        const data = expression.getProperty('data')
+        const dataNode =
+            data &&
+            (Node.isPropertyAssignment(data)
+                ? data.getInitializer()
+                : Node.isShorthandPropertyAssignment(data)
+                ? data.getNameNode()
+                : undefined)
+
+        return {
+            name: eventName,
+            ...this.describePayload(this.getValueType(dataNode), expression),
+            location: AstUtils.getSourceLocation(expression),
+        }
+    }
+
+    // (response: AckDto) => void
+    private getAckSchema(type: Type, node: Node): JsonSchema | undefined {
+        const [signature] = type.getCallSignatures()
+        const [response] = signature?.getParameters() ?? []
+        if (!response) return undefined
+
+        const responseType = response.getTypeAtLocation(node)
+        return responseType.isAny()
+            ? undefined
+            : this.schemaResolver.resolve(responseType, node)
+    }
+
+    // @MessageBody() data, or the second argument (after the client socket)
+    // when the handler uses no parameter decorators
+    private getMessageBodyType(method: MethodDeclaration): Type | undefined {
+        const parameters = method.getParameters()
+        const body = parameters.find((param) =>
+            param.getDecorator('MessageBody')
+        )
+        if (body) return body.getType()
+
+        const undecorated = parameters.every(
+            (param) => param.getDecorators().length === 0
+        )
+        return undecorated ? parameters[1]?.getType() : undefined
+    }
+
+    private describePayload(
+        type: Type | undefined,
+        node: Node
+    ): Pick<UniversalEvent, 'payloadType' | 'payload'> {
+        if (!type || type.isAny() || type.isUnknown()) {
+            return { payloadType: 'any' }
+        }
+
+        return {
+            payloadType: AstUtils.getTypeText(type, node),
+            payload: this.schemaResolver.resolve(type, node),
+        }
+    }
+
+    // emit('status', 'online') sends a string, not the literal 'online'
+    private getValueType(node: Node | undefined): Type | undefined {
+        return node?.getType().getBaseTypeOfLiteralType()
+    }
+
+    // namespace is an option, optionally after the port
+    private getGatewayNamespace(gateway: Decorator): string {
+        for (const arg of gateway.getArguments()) {
+            const options = AstUtils.resolveLiteralValue(arg)
+            if (
+                options &&
+                typeof options === 'object' &&
+                typeof (options as Record<string, unknown>)['namespace'] ===
+                    'string'
+            ) {
+                return this.normalizeNamespace(
+                    (options as Record<string, unknown>)['namespace'] as string
+                )
+            }
+        }
+        return '/'
+    }
+
+    // io.of('/chat'), or a variable holding it
+    private getNamespace(receiver: Node): string {
+        let expression: Node | undefined = AstUtils.unwrapExpression(receiver)
+        if (Node.isIdentifier(expression)) {
+            const declaration = AstUtils.getDeclarations(expression).find(
+                (candidate) => Node.isVariableDeclaration(candidate)
+            )
+            const initializer =
+                declaration && Node.isVariableDeclaration(declaration)
+                    ? declaration.getInitializer()
+                    : undefined
+            expression = initializer && AstUtils.unwrapExpression(initializer)
+        }
+
+        if (expression && Node.isCallExpression(expression)) {
+            const callee = expression.getExpression()
+            const [nameArg] = expression.getArguments()
+            const name = nameArg && AstUtils.resolveStringValue(nameArg)
+            if (
+                Node.isPropertyAccessExpression(callee) &&
+                callee.getName() === 'of' &&
+                name
+            ) {
+                return this.normalizeNamespace(name)
+            }
+        }
+        return '/'
+    }
+
+    private normalizeNamespace(namespace: string): string {
+        return namespace.startsWith('/') ? namespace : `/${namespace}`
+    }
+
+    private getHandlerName(node: Node | undefined): string {
+        const expression = node && AstUtils.unwrapExpression(node)
+        if (
+            expression &&
+            (Node.isIdentifier(expression) ||
+                Node.isPropertyAccessExpression(expression))
+        ) {
+            return expression.getText()
+        }
+        if (expression && Node.isFunctionExpression(expression)) {
+            return expression.getName() || 'anonymous'
+        }
+        return 'anonymous'
+    }
+
+    private importsSocketIo(sourceFile: SourceFile): boolean {
+        const imported = sourceFile
+            .getImportDeclarations()
+            .some((declaration) =>
+                SOCKET_IO_MODULES.includes(
+                    declaration.getModuleSpecifierValue()
+                )
+            )
+        if (imported) return true
+
+        // const { Server } = require('socket.io')
+        return sourceFile
+            .getDescendantsOfKind(SyntaxKind.CallExpression)
+            .some((call) => {
+                const [specifier] = call.getArguments()
+                return (
+                    call.getExpression().getText() === 'require' &&
+                    !!specifier &&
+                    SOCKET_IO_MODULES.includes(
+                        AstUtils.resolveStringValue(specifier) ?? ''
+                    )
+                )
+            })
+    }
+
+    private unwrapAsyncType(type: Type): Type {
+        const name = type.getSymbol()?.getName()
+        const [inner] = type.getTypeArguments()
+        return name && ASYNC_WRAPPERS.includes(name) && inner
+            ? this.unwrapAsyncType(inner)
+            : type
+    }
+
+    // The same event emitted from several places is documented once
+    private deduplicate(events: UniversalEvent[]): UniversalEvent[] {
+        const seen = new Set<string>()
+        return events.filter((event) => {
+            const key = `${event.direction}:${event.namespace}:${event.name}`
+            if (seen.has(key)) return false
+            seen.add(key)
+            return true
+        })
+    }
+}
@@ -0,0 +1,641 @@
+import { Node, TypeAliasDeclaration, VariableDeclaration } from 'ts-morph'
+import { JsonSchema } from '../../types/universal-types'
+import { AstUtils } from '../../utils/ast-utils'
+import { ConvertedSchema, TypeSchemaResolver } from './type-schema-resolver'
+
+// Guards against long chains and schemas referencing each other
+const MAX_ZOD_DEPTH = 12
+
+const PRIMITIVE_SCHEMAS: Record<string, JsonSchema> = {
+    string: { type: 'string' },
+    number: { type: 'number' },
+    bigint: { type: 'integer', format: 'int64' },
+    boolean: { type: 'boolean' },
+    date: { type: 'string', format: 'date-time' },
+    null: { type: 'null' },
+    any: {},
+    unknown: {},
+    // zod 4 top-level string formats: z.email(), z.uuid()
+    email: { type: 'string', format: 'email' },
+    url: { type: 'string', format: 'uri' },
+    uuid: { type: 'string', format: 'uuid' },
+}
+
+// String refinements that amount to a format: z.string().email()
+const STRING_FORMATS: Record<string, string> = {
+    email: 'email',
+    url: 'uri',
+    uuid: 'uuid',
+    cuid: 'cuid',
+    cuid2: 'cuid2',
+    ulid: 'ulid',
+    datetime: 'date-time',
+    date: 'date',
+    time: 'time',
+    duration: 'duration',
+    ip: 'ip',
+    base64: 'byte',
+}
+
+// Methods that run a schema rather than build one
+const PARSE_METHODS = ['parse', 'safeParse', 'parseAsync', 'safeParseAsync']
+
+// z.infer<typeof UserSchema> and its siblings
+const INFER_HELPERS = ['infer', 'input', 'output', 'TypeOf']
+
+export class ZodSchemaReader {
+    private schemaResolver: TypeSchemaResolver
+
+    constructor(schemaResolver: TypeSchemaResolver) {
+        this.schemaResolver = schemaResolver
+    }
+
+    // z.object({...}), UserSchema, UserSchema.partial(), ...
+    isSchema(node: Node, depth = 0): boolean {
+        if (depth > MAX_ZOD_DEPTH) return false
+
+        const expression = AstUtils.unwrapExpression(node)
+        if (Node.isCallExpression(expression)) {
+            const callee = expression.getExpression()
+            if (
+                Node.isPropertyAccessExpression(callee) &&
+                PARSE_METHODS.includes(callee.getName())
+            ) {
+                return false
+            }
+            return this.isSchema(callee, depth + 1)
+        }
+
+        if (Node.isPropertyAccessExpression(expression)) {
+            return (
+                this.isZodImport(expression.getExpression()) ||
+                this.isSchema(expression.getExpression(), depth + 1) ||
+                !!this.getSchemaVariable(expression, depth + 1)
+            )
+        }
+
+        return (
+            this.isZodImport(expression) ||
+            !!this.getSchemaVariable(expression, depth + 1)
+        )
+    }
+
+    convert(node: Node): ConvertedSchema {
+        return this.convertNode(node, 0)
+    }
+
+    // UserSchema / createUserSchema -> User / CreateUser
+    getDefinitionName(variable: VariableDeclaration): string {
+        const name =
+            variable.getName().replace(/Schema$/, '') || variable.getName()
+        return name.charAt(0).toUpperCase() + name.slice(1)
+    }
+
+    // type User = z.infer<typeof UserSchema>
+    getInferredVariable(
+        typeAlias: TypeAliasDeclaration
+    ): VariableDeclaration | null {
+        const typeNode = typeAlias.getTypeNode()
+        if (!typeNode || !Node.isTypeReference(typeNode)) return null
+
+        const typeName = typeNode.getTypeName()
+        const helper = Node.isQualifiedName(typeName)
+            ? typeName.getRight().getText()
+            : typeName.getText()
+        const [argument] = typeNode.getTypeArguments()
+        if (
+            !INFER_HELPERS.includes(helper) ||
+            !argument ||
+            !Node.isTypeQuery(argument)
+        ) {
+            return null
+        }
+
+        return this.getSchemaVariable(argument.getExprName(), 0)
+    }
+
+    private convertNode(node: Node, depth: number): ConvertedSchema {
+        if (depth > MAX_ZOD_DEPTH) return { schema: {}, optional: false }
+
+        const expression = AstUtils.unwrapExpression(node)
+
+        // A schema declared elsewhere becomes a shared definition
+        const variable = this.getSchemaVariable(expression, depth)
+        if (variable) {
+            const initializer = variable.getInitializer()!
+            return {
+                schema: this.schemaResolver.define(
+                    variable,
+                    this.getDefinitionName(variable),
+                    () => this.convertNode(initializer, depth + 1).schema
+                ),
+                optional: false,
+            }
+        }
+
+        if (!Node.isCallExpression(expression)) {
+            return { schema: {}, optional: false }
+        }
+
+        const callee = expression.getExpression()
+        const args = expression.getArguments()
+
+        // object() imported by name
+        if (Node.isIdentifier(callee) && this.isZodImport(callee)) {
+            return this.convertConstructor(callee.getText(), args, depth)
+        }
+        if (!Node.isPropertyAccessExpression(callee)) {
+            return { schema: {}, optional: false }
+        }
+
+        const receiver = callee.getExpression()
+        if (this.isZodNamespace(receiver)) {
+            return this.convertConstructor(callee.getName(), args, depth)
+        }
+
+        return this.applyMethod(
+            callee.getName(),
+            args,
+            this.convertNode(receiver, depth + 1),
+            depth
+        )
+    }
+
+    // z.string(), z.object({...}), z.array(Item), ...
+    private convertConstructor(
+        name: string,
+        args: Node[],
+        depth: number
+    ): ConvertedSchema {
+        const [first, second] = args
+        const result = (schema: JsonSchema): ConvertedSchema => ({
+            schema,
+            optional: false,
+        })
+
+        const primitive = PRIMITIVE_SCHEMAS[name]
+        if (primitive) return result({ ...primitive })
+
+        switch (name) {
+            case 'literal': {
+                const value = first && AstUtils.resolveLiteralValue(first)
+                if (value === undefined) return result({})
+                return result({
+                    type: value === null ? 'null' : typeof value,
+                    enum: [value as string | number | boolean | null],
+                })
+            }
+            case 'enum':
+            case 'nativeEnum':
+                return result((first && this.convertEnum(first)) || {})
+            case 'object':
+            case 'strictObject':
+            case 'looseObject':
+                return result(
+                    first ? this.convertShape(first, depth) : { type: 'object' }
+                )
+            case 'array':
+            case 'set':
+                return result({
+                    type: 'array',
+                    items: first
+                        ? this.convertNode(first, depth + 1).schema
+                        : {},
+                    ...(name === 'set' ? { uniqueItems: true } : {}),
+                })
+            case 'tuple': {
+                const elements = first ? AstUtils.unwrapExpression(first) : null
+                const items =
+                    elements && Node.isArrayLiteralExpression(elements)
+                        ? elements
+                              .getElements()
+                              .map(
+                                  (element) =>
+                                      this.convertNode(element, depth + 1)
+                                          .schema
+                              )
+                        : []
+                return result({
+                    type: 'array',
+                    prefixItems: items,
+                    minItems: items.length,
+                    maxItems: items.length,
+                })
+            }
+            case 'record': {
+                // z.record(values) or z.record(keys, values)
+                const values = second ?? first
+                return result({
+                    type: 'object',
+                    additionalProperties: values
+                        ? this.convertNode(values, depth + 1).schema
+                        : {},
+                })
+            }
+            case 'map':
+                return result({ type: 'object' })
+            case 'union':
+            case 'discriminatedUnion': {
+                const options = AstUtils.unwrapExpression(
+                    (name === 'union' ? first : second) ?? first!
+                )
+                if (!Node.isArrayLiteralExpression(options)) return result({})
+                return result({
+                    anyOf: options
+                        .getElements()
+                        .map(
+                            (option) =>
+                                this.convertNode(option, depth + 1).schema
+                        ),
+                })
+            }
+            case 'intersection':
+                return result({
+                    allOf: args.map(
+                        (arg) => this.convertNode(arg, depth + 1).schema
+                    ),
+                })
+            case 'optional':
+            case 'nullable':
+            case 'nullish':
+                return first
+                    ? this.applyMethod(
+                          name,
+                          [],
+                          this.convertNode(first, depth + 1),
+                          depth
+                      )
+                    : result({})
+            case 'lazy': {
+                // z.lazy(() => CategorySchema)
+                const factory = first ? AstUtils.unwrapExpression(first) : null
+                return factory && Node.isArrowFunction(factory)
+                    ? this.convertNode(factory.getBody(), depth + 1)
+                    : result({})
+            }
+            case 'instanceof':
+                return result(
+                    first?.getText() === 'Date'
+                        ? { ...PRIMITIVE_SCHEMAS['date'] }
+                        : {}
+                )
+            default:
+                return result({})
+        }
+    }
+
+    // Chained methods: modifiers, refinements and object helpers
+    private applyMethod(
+        name: string,
+        args: Node[],
+        inner: ConvertedSchema,
+        depth: number
+    ): ConvertedSchema {
+        const [first] = args
+        const schema = { ...inner.schema }
+        const value = first ? AstUtils.resolveLiteralValue(first) : undefined
+
+        switch (name) {
+            case 'optional':
+                return { schema, optional: true }
+            case 'nullable':
+                return {
+                    schema: this.makeNullable(schema),
+                    optional: inner.optional,
+                }
+            case 'nullish':
+                return { schema: this.makeNullable(schema), optional: true }
+            case 'default':
+                // The field can be left out of the request
+                return {
+                    schema:
+                        value === undefined
+                            ? schema
+                            : { ...schema, default: value },
+                    optional: true,
+                }
+            case 'describe':
+                if (typeof value === 'string') schema.description = value
+                return { schema, optional: inner.optional }
+            case 'array':
+                return {
+                    schema: { type: 'array', items: schema },
+                    optional: false,
+                }
+            case 'or':
+            case 'and':
+                return {
+                    schema: {
+                        [name === 'or' ? 'anyOf' : 'allOf']: [
+                            schema,
+                            first
+                                ? this.convertNode(first, depth + 1).schema
+                                : {},
+                        ],
+                    },
+                    optional: inner.optional,
+                }
+            case 'regex': {
+                const pattern = first ? AstUtils.unwrapExpression(first) : null
+                if (pattern && Node.isRegularExpressionLiteral(pattern)) {
+                    schema.pattern = pattern.getLiteralValue().source
+                }
+                return { schema, optional: inner.optional }
+            }
+            case 'int':
+                schema.type = 'integer'
+                return { schema, optional: inner.optional }
+            case 'multipleOf':
+            case 'step':
+                if (typeof value === 'number') schema.multipleOf = value
+                return { schema, optional: inner.optional }
+        }
+
+        if (STRING_FORMATS[name] && schema.type === 'string') {
+            schema.format = STRING_FORMATS[name]
+            return { schema, optional: inner.optional }
+        }
+
+        if (this.applyLimit(schema, name, value)) {
+            return { schema, optional: inner.optional }
+        }
+
+        const objectSchema = this.applyObjectMethod(name, args, schema, depth)
+        if (objectSchema)
+            return { schema: objectSchema, optional: inner.optional }
+
+        // refine(), transform(), brand(), trim(), ... keep the schema as is
+        return inner
+    }
+
+    // min/max/length and sign checks, by the kind of value they limit
+    private applyLimit(
+        schema: JsonSchema,
+        name: string,
+        value: unknown
+    ): boolean {
+        const target = this.schemaResolver.dereference(schema)
+        const [minKeyword, maxKeyword] =
+            target.type === 'string'
+                ? ['minLength', 'maxLength']
+                : target.type === 'array'
+                ? ['minItems', 'maxItems']
+                : ['minimum', 'maximum']
+
+        switch (name) {
+            case 'min':
+            case 'gte':
+            case 'max':
+            case 'lte':
+            case 'length':
+                if (typeof value !== 'number') return false
+                if (name !== 'max' && name !== 'lte') schema[minKeyword] = value
+                if (name !== 'min' && name !== 'gte') schema[maxKeyword] = value
+                return true
+            case 'gt':
+                if (typeof value === 'number') schema.exclusiveMinimum = value
+                return true
+            case 'lt':
+                if (typeof value === 'number') schema.exclusiveMaximum = value
+                return true
+            case 'nonempty':
+                schema[minKeyword] = 1
+                return true
+            case 'positive':
+                schema.exclusiveMinimum = 0
+                return true
+            case 'nonnegative':
+                schema.minimum = 0
+                return true
+            case 'negative':
+                schema.exclusiveMaximum = 0
+                return true
+            case 'nonpositive':
+                schema.maximum = 0
+                return true
+            default:
+                return false
+        }
+    }
+
+    // extend/merge/pick/omit/partial/... produce a new inline object schema
+    private applyObjectMethod(
+        name: string,
+        args: Node[],
+        schema: JsonSchema,
+        depth: number
+    ): JsonSchema | null {
+        const base = this.schemaResolver.dereference(schema)
+        if (base.type !== 'object' || !base.properties) return null
+
+        const [first] = args
+        const mask = first ? AstUtils.resolveLiteralValue(first) : undefined
+        const maskKeys =
+            mask && typeof mask === 'object' && !Array.isArray(mask)
+                ? Object.keys(mask)
+                : null
+        const properties = { ...base.properties }
+        let required = [...(base.required ?? [])]
+        let additionalProperties = base.additionalProperties
+
+        switch (name) {
+            case 'extend':
+            case 'merge': {
+                const extension = first
+                    ? this.schemaResolver.dereference(
+                          name === 'extend'
+                              ? this.convertShape(first, depth)
+                              : this.convertNode(first, depth + 1).schema
+                      )
+                    : {}
+                Object.assign(properties, extension.properties)
+                required = [
+                    ...required.filter(
+                        (key) => !(key in (extension.properties ?? {}))
+                    ),
+                    ...(extension.required ?? []),
+                ]
+                break
+            }
+            case 'pick':
+            case 'omit':
+                if (!maskKeys) return null
+                for (const key of Object.keys(properties)) {
+                    if (maskKeys.includes(key) === (name === 'omit')) {
+                        delete properties[key]
+                    }
+                }
+                required = required.filter((key) => key in properties)
+                break
+            case 'partial':
+            case 'deepPartial':
+                required = maskKeys
+                    ? required.filter((key) => !maskKeys.includes(key))
+                    : []
+                break
+            case 'required':
+                required = Object.keys(properties).filter(
+                    (key) =>
+                        !maskKeys ||
+                        maskKeys.includes(key) ||
+                        required.includes(key)
+                )
+                break
+            case 'passthrough':
+                additionalProperties = true
+                break
+            case 'strict':
+                additionalProperties = false
+                break
+            case 'catchall':
+                additionalProperties = first
+                    ? this.convertNode(first, depth + 1).schema
+                    : {}
+                break
+            default:
+                return null
+        }
+
+        const result: JsonSchema = { type: 'object', properties }
+        if (required.length > 0) result.required = required
+        if (additionalProperties !== undefined) {
+            result.additionalProperties = additionalProperties
+        }
+        return result
+    }
+
+    // The shape passed to z.object() or .extend()
+    private convertShape(node: Node, depth: number): JsonSchema {
+        let shape = AstUtils.unwrapExpression(node)
+        // const userShape = { ... }
+        if (Node.isIdentifier(shape)) {
+            const declaration = AstUtils.getDeclarations(shape).find(
+                (candidate) => Node.isVariableDeclaration(candidate)
+            )
+            const initializer =
+                declaration && Node.isVariableDeclaration(declaration)
+                    ? declaration.getInitializer()
+                    : undefined
+            if (initializer) shape = AstUtils.unwrapExpression(initializer)
+        }
+        if (!Node.isObjectLiteralExpression(shape)) return { type: 'object' }
+
+        const properties: Record<string, JsonSchema> = {}
+        const required: string[] = []
+
+        for (const property of shape.getProperties()) {
+            // ...BaseSchema.shape
+            if (Node.isSpreadAssignment(property)) {
+                const spread = AstUtils.unwrapExpression(
+                    property.getExpression()
+                )
+                const source = Node.isPropertyAccessExpression(spread)
+                    ? spread.getExpression()
+                    : spread
+                const base = this.schemaResolver.dereference(
+                    this.convertNode(source, depth + 1).schema
+                )
+                Object.assign(properties, base.properties)
+                required.push(...(base.required ?? []))
+                continue
+            }
+
+            const value = Node.isPropertyAssignment(property)
+                ? property.getInitializer()
+                : Node.isShorthandPropertyAssignment(property)
+                ? property.getNameNode()
+                : undefined
+            if (!value) continue
+
+            const nameNode = property.getNameNode()
+            const name = Node.isStringLiteral(nameNode)
+                ? nameNode.getLiteralValue()
+                : nameNode.getText()
+            const converted = this.convertNode(value, depth + 1)
+
+            properties[name] = converted.schema
+            if (!converted.optional) required.push(name)
+        }
+
+        const schema: JsonSchema = { type: 'object', properties }
+        if (required.length > 0) schema.required = Array.from(new Set(required))
+        return schema
+    }
+
+    // z.enum(['a', 'b']), z.nativeEnum(Role), z.enum(Role) (zod 4)
+    private convertEnum(node: Node): JsonSchema | null {
+        const expression = AstUtils.unwrapExpression(node)
+        const enumDeclaration = AstUtils.getDeclarations(expression).find(
+            (declaration) => Node.isEnumDeclaration(declaration)
+        )
+        if (enumDeclaration) {
+            return this.schemaResolver.resolve(
+                enumDeclaration.getType(),
+                enumDeclaration
+            )
+        }
+
+        const value = AstUtils.resolveLiteralValue(expression)
+        const values = Array.isArray(value)
+            ? value
+            : value && typeof value === 'object'
+            ? Object.values(value)
+            : null
+        if (!values?.length) return null
+
+        const types = Array.from(new Set(values.map((item) => typeof item)))
+        return {
+            type: types.length === 1 ? types[0]! : types,
+            enum: values as (string | number)[],
+        }
+    }
+
+    private makeNullable(schema: JsonSchema): JsonSchema {
+        if (typeof schema.type === 'string' && !schema.enum) {
+            return { ...schema, type: [schema.type, 'null'] }
+        }
+        return { anyOf: [schema, { type: 'null' }] }
+    }
+
+    // Variable a reference points at, when it holds a zod schema
+    private getSchemaVariable(
+        node: Node,
+        depth: number
+    ): VariableDeclaration | null {
+        const expression = AstUtils.unwrapExpression(node)
+        if (
+            !Node.isIdentifier(expression) &&
+            !Node.isPropertyAccessExpression(expression)
+        ) {
+            return null
+        }
+
+        for (const declaration of AstUtils.getDeclarations(expression)) {
+            const initializer = Node.isVariableDeclaration(declaration)
+                ? declaration.getInitializer()
+                : undefined
+            if (initializer && this.isSchema(initializer, depth + 1)) {
+                return declaration as VariableDeclaration
+            }
+        }
+        return null
+    }
+
+    // z, z.coerce
+    private isZodNamespace(node: Node): boolean {
+        const expression = AstUtils.unwrapExpression(node)
+        if (Node.isPropertyAccessExpression(expression)) {
+            return (
+                expression.getName() === 'coerce' &&
+                this.isZodImport(expression.getExpression())
+            )
+        }
+        return this.isZodImport(expression)
+    }
+
+    private isZodImport(node: Node): boolean {
+        if (!Node.isIdentifier(node)) return false
+        const specifier = AstUtils.getImportModuleSpecifier(node)
+        return specifier === 'zod' || !!specifier?.startsWith('zod/')
+    }
+}
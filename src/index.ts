@@ -2,11 +2,43 @@
 
 export { MongoDBAdapter } from './adapters/mongodb-adapter'
 export { ConfigManager } from './config/config'
+export { EntityIdentifier } from './core/entity-identifier'
 export { FrameworkDetector } from './core/framework-detector'
+export type {
+    Framework,
+    FrameworkCandidate,
+    FrameworkInfo,
+} from './core/framework-detector'
+export { FrameworkImportScanner } from './core/framework-import-scanner'
+export { FrameworkRegistry, frameworkRegistry } from './core/framework-registry'
+export type {
+    FrameworkPlugin,
+    FrameworkPluginContext,
+    FrameworkRouteExtractor,
+    FrameworkSignals,
+} from './core/framework-registry'
+export { ProjectWatcher } from './core/project-watcher'
+export type { FileChanges } from './core/project-watcher'
+export { RouteMerger } from './core/route-merger'
 export { UniversalAnalyzer } from './core/universal-analyzer'
+export { WorkspaceDiscovery } from './core/workspace-discovery'
+export type { Workspace, WorkspacePackage } from './core/workspace-discovery'
+export { AsyncAPIExporter } from './exporters/asyncapi-exporter'
+export type {
+    AsyncAPIDocument,
+    AsyncAPIExportOptions,
+} from './exporters/asyncapi-exporter'
+export { OpenAPIExporter } from './exporters/openapi-exporter'
+export type {
+    OpenAPIDocument,
+    OpenAPIExportOptions,
+} from './exporters/openapi-exporter'
 export { ExpressExtractor } from './extractors/express/express-extractor'
 export { GenericExtractor } from './extractors/generic/generic-extractor'
+export { honoPlugin } from './plugins/hono/hono-plugin'
+export { HonoRouteExtractor } from './plugins/hono/hono-route-extractor'
 export { AIService } from './services/ai-service'
+export { ProjectUtils } from './utils/project-utils'
 export { PromptTemplates } from './utils/prompt-templates'
 
 export * from './types/universal-types'
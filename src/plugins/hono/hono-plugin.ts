@@ -0,0 +1,9 @@
+import type { FrameworkPlugin } from '../../core/framework-registry'
+import { HonoRouteExtractor } from './hono-route-extractor'
+
+export const honoPlugin: FrameworkPlugin = {
+    name: 'hono',
+    signals: { dependencies: ['hono', '@hono/zod-openapi'] },
+    createExtractor: ({ schemaResolver, docReader }) =>
+        new HonoRouteExtractor(schemaResolver, docReader),
+}
@@ -0,0 +1,428 @@
+import { CallExpression, Node, SourceFile, SyntaxKind } from 'ts-morph'
+import { DocCommentReader } from '../../extractors/generic/doc-comment-reader'
+import {
+    RequestParameterInferrer,
+    RequestShape,
+} from '../../extractors/generic/request-parameter-inferrer'
+import {
+    ResponseInferrer,
+    ResponseShape,
+} from '../../extractors/generic/response-inferrer'
+import { TypeSchemaResolver } from '../../extractors/generic/type-schema-resolver'
+import { UniversalRoute } from '../../types/universal-types'
+import { AstUtils } from '../../utils/ast-utils'
+import { PathUtils } from '../../utils/path-utils'
+
+const HONO_MODULES = ['hono', 'hono/tiny', 'hono/quick', '@hono/zod-openapi']
+const HONO_CLASSES = ['Hono', 'OpenAPIHono']
+
+const ROUTE_METHODS: Record<string, string> = {
+    get: 'GET',
+    post: 'POST',
+    put: 'PUT',
+    delete: 'DELETE',
+    patch: 'PATCH',
+    options: 'OPTIONS',
+    all: 'ALL',
+}
+
+// Calls that return the app they are made on: new Hono().get(...).post(...)
+const CHAINABLE_METHODS = [...Object.keys(ROUTE_METHODS), 'on', 'use', 'route']
+
+const MAX_MOUNT_DEPTH = 10
+
+// Handlers get a context; c.req reads one field at a time
+export const HONO_REQUEST_SHAPE: RequestShape = {
+    sources: [],
+    headerMethods: [],
+    fieldMethods: [
+        { receiverPath: ['req'], method: 'param', location: 'path' },
+        { receiverPath: ['req'], method: 'query', location: 'query' },
+        { receiverPath: ['req'], method: 'queries', location: 'query' },
+        { receiverPath: ['req'], method: 'header', location: 'header' },
+    ],
+}
+
+// return c.json(user, 201)
+export const HONO_RESPONSE_SHAPE: ResponseShape = {
+    responseParameterIndex: 0,
+    statusMethods: [],
+    sendMethods: ['json', 'text', 'html', 'body'],
+    statusOnlyMethods: [],
+    statusArgument: true,
+    statusProperties: [],
+    bodyProperties: [],
+    errorMethods: [],
+    returnsBody: false,
+}
+
+interface HonoRoute {
+    // Relative to the app
+    path: string
+    methods: string[]
+    handler: Node
+    middleware: Node[]
+    call: CallExpression
+}
+
+interface HonoMiddleware {
+    // app.use('/admin/*', auth); '*' when no path is given
+    pattern: string
+    middleware: string[]
+}
+
+interface HonoApp {
+    routes: HonoRoute[]
+    middleware: HonoMiddleware[]
+    // app.route('/users', users) and app.basePath('/api')
+    mounts: { prefix: string; child: Node }[]
+    // For basePath() apps, the app they prefix
+    base?: Node
+}
+
+export class HonoRouteExtractor {
+    private docReader: DocCommentReader
+    private parameterInferrer: RequestParameterInferrer
+    private responseInferrer: ResponseInferrer
+
+    constructor(
+        schemaResolver: TypeSchemaResolver,
+        docReader = new DocCommentReader()
+    ) {
+        this.docReader = docReader
+        this.parameterInferrer = new RequestParameterInferrer(
+            HONO_REQUEST_SHAPE,
+            schemaResolver
+        )
+        this.responseInferrer = new ResponseInferrer(
+            HONO_RESPONSE_SHAPE,
+            schemaResolver
+        )
+    }
+
+    // Apps are keyed by their `new Hono()` (or `.basePath()`) expression, so
+    // a sub-app mounted from another file is recognised wherever it is used
+    extract(sourceFiles: SourceFile[]): UniversalRoute[] {
+        const apps = new Map<Node, HonoApp>()
+        for (const sourceFile of sourceFiles) {
+            for (const call of sourceFile.getDescendantsOfKind(
+                SyntaxKind.CallExpression
+            )) {
+                this.collectCall(call, apps)
+            }
+        }
+
+        const mounted = new Set(
+            Array.from(apps.values()).flatMap((app) =>
+                app.mounts.map((mount) => mount.child)
+            )
+        )
+
+        const routes: UniversalRoute[] = []
+        for (const key of apps.keys()) {
+            if (!mounted.has(key)) this.walk(key, apps, '', [], routes, 0)
+        }
+        return routes
+    }
+
+    private collectCall(call: CallExpression, apps: Map<Node, HonoApp>): void {
+        const callee = call.getExpression()
+        if (
+            !Node.isPropertyAccessExpression(callee) ||
+            !CHAINABLE_METHODS.includes(callee.getName())
+        ) {
+            return
+        }
+
+        const key = this.resolveApp(callee.getExpression(), apps)
+        if (!key) return
+
+        const app = apps.get(key)!
+        const name = callee.getName()
+        const args = call.getArguments()
+
+        // app.get('/users/:id', auth, handler)
+        const method = ROUTE_METHODS[name]
+        if (method) {
+            const [pathArg, ...handlers] = args
+            this.addRoutes(app, [method], pathArg, handlers, call)
+            return
+        }
+
+        // app.on(['PUT', 'PATCH'], '/users/:id', handler)
+        if (name === 'on') {
+            const [methodArg, pathArg, ...handlers] = args
+            const methods = methodArg
+                ? this.resolveStrings(methodArg).map((value) =>
+                      value.toUpperCase()
+                  )
+                : []
+            this.addRoutes(app, methods, pathArg, handlers, call)
+            return
+        }
+
+        // app.use(logger()), app.use('/admin/*', auth)
+        if (name === 'use') {
+            const [first] = args
+            const pattern = first ? AstUtils.resolveStringValue(first) : null
+            const middleware = (pattern !== null ? args.slice(1) : args).map(
+                (arg) => this.getMiddlewareName(arg)
+            )
+            if (middleware.length > 0) {
+                app.middleware.push({ pattern: pattern ?? '*', middleware })
+            }
+            return
+        }
+
+        // app.route('/users', users)
+        if (name === 'route') {
+            const [prefixArg, childArg] = args
+            const prefix = prefixArg
+                ? AstUtils.resolveStringValue(prefixArg)
+                : null
+            const resolved = childArg ? this.resolveApp(childArg, apps) : null
+            const child = resolved && this.getRootApp(resolved, apps)
+            if (
+                prefix !== null &&
+                child &&
+                child !== this.getRootApp(key, apps)
+            ) {
+                app.mounts.push({ prefix, child })
+            }
+        }
+    }
+
+    private addRoutes(
+        app: HonoApp,
+        methods: string[],
+        pathArg: Node | undefined,
+        handlers: Node[],
+        call: CallExpression
+    ): void {
+        const handler = handlers[handlers.length - 1]
+        if (!pathArg || !handler || methods.length === 0) return
+
+        for (const path of this.resolveStrings(pathArg)) {
+            app.routes.push({
+                path,
+                methods,
+                handler,
+                middleware: handlers.slice(0, -1),
+                call,
+            })
+        }
+    }
+
+    private walk(
+        key: Node,
+        apps: Map<Node, HonoApp>,
+        prefix: string,
+        inherited: HonoMiddleware[],
+        routes: UniversalRoute[],
+        depth: number
+    ): void {
+        const app = apps.get(key)
+        if (!app || depth > MAX_MOUNT_DEPTH) return
+
+        const middleware = [
+            ...inherited,
+            ...app.middleware.map((entry) => ({
+                pattern: PathUtils.joinRoutePaths(prefix, entry.pattern),
+                middleware: entry.middleware,
+            })),
+        ]
+
+        for (const route of app.routes) {
+            const path = this.toRoutePath(
+                PathUtils.joinRoutePaths(prefix, route.path)
+            )
+            const handlerFunction = AstUtils.resolveFunction(route.handler)
+            const docs =
+                (handlerFunction && this.docReader.read(handlerFunction)) ??
+                this.docReader.readStatement(route.call)
+            const parameters = this.parameterInferrer.infer(
+                route.handler,
+                path,
+                route.middleware
+            )
+            const responses = this.responseInferrer.infer(route.handler)
+
+            for (const method of route.methods) {
+                routes.push({
+                    path,
+                    method,
+                    handler: this.getHandlerName(route.handler),
+                    middleware: [
+                        ...middleware
+                            .filter((entry) =>
+                                this.matchesPattern(entry.pattern, path)
+                            )
+                            .flatMap((entry) => entry.middleware),
+                        ...route.middleware.map((node) =>
+                            this.getMiddlewareName(node)
+                        ),
+                    ],
+                    parameters,
+                    responses,
+                    framework: 'hono',
+                    filePath: route.call.getSourceFile().getFilePath(),
+                    location: AstUtils.getSourceLocation(route.call),
+                    ...(docs ? { docs } : {}),
+                })
+            }
+        }
+
+        for (const mount of app.mounts) {
+            this.walk(
+                mount.child,
+                apps,
+                PathUtils.joinRoutePaths(prefix, mount.prefix),
+                middleware,
+                routes,
+                depth + 1
+            )
+        }
+    }
+
+    // new Hono(), a variable or import holding one, or a call chained on one
+    private resolveApp(
+        node: Node,
+        apps: Map<Node, HonoApp>,
+        depth = 0
+    ): Node | null {
+        if (depth > MAX_MOUNT_DEPTH) return null
+
+        const expression = AstUtils.unwrapExpression(node)
+
+        if (Node.isNewExpression(expression)) {
+            const className = expression.getExpression()
+            if (
+                !Node.isIdentifier(className) ||
+                !HONO_CLASSES.includes(className.getText()) ||
+                !HONO_MODULES.includes(
+                    AstUtils.getImportModuleSpecifier(className) ?? ''
+                )
+            ) {
+                return null
+            }
+            if (!apps.has(expression)) {
+                apps.set(expression, { routes: [], middleware: [], mounts: [] })
+            }
+            return expression
+        }
+
+        if (Node.isIdentifier(expression)) {
+            for (const declaration of AstUtils.getDeclarations(expression)) {
+                const initializer = Node.isVariableDeclaration(declaration)
+                    ? declaration.getInitializer()
+                    : Node.isExportAssignment(declaration)
+                    ? declaration.getExpression()
+                    : undefined
+                const app =
+                    initializer && this.resolveApp(initializer, apps, depth + 1)
+                if (app) return app
+            }
+            return null
+        }
+
+        if (!Node.isCallExpression(expression)) return null
+        const callee = expression.getExpression()
+        if (!Node.isPropertyAccessExpression(callee)) return null
+
+        if (CHAINABLE_METHODS.includes(callee.getName())) {
+            return this.resolveApp(callee.getExpression(), apps, depth + 1)
+        }
+
+        // app.basePath('/api') shares the app's router under a prefix
+        if (callee.getName() === 'basePath') {
+            if (apps.has(expression)) return expression
+
+            const parent = this.resolveApp(
+                callee.getExpression(),
+                apps,
+                depth + 1
+            )
+            const [prefixArg] = expression.getArguments()
+            const prefix = prefixArg
+                ? AstUtils.resolveStringValue(prefixArg)
+                : null
+            if (!parent || prefix === null) return null
+
+            apps.set(expression, {
+                routes: [],
+                middleware: [],
+                mounts: [],
+                base: parent,
+            })
+            apps.get(parent)!.mounts.push({ prefix, child: expression })
+            return expression
+        }
+
+        return null
+    }
+
+    // basePath() apps share their routes with the app they prefix, so
+    // mounting one mounts that app, prefixes included:
+    // app.route('/api', new Hono().basePath('/books')) serves /api/books
+    private getRootApp(key: Node, apps: Map<Node, HonoApp>): Node {
+        let root = key
+        for (let depth = 0; depth <= MAX_MOUNT_DEPTH; depth++) {
+            const base = apps.get(root)?.base
+            if (!base) break
+            root = base
+        }
+        return root
+    }
+
+    // '/users/:id{[0-9]+}' -> '/users/:id'
+    private toRoutePath(path: string): string {
+        return path.replace(/(:[A-Za-z0-9_]+)\{[^}]*\}/g, '$1')
+    }
+
+    // '*' matches everything, '/admin/*' matches /admin and below
+    private matchesPattern(pattern: string, path: string): boolean {
+        const source = this.toRoutePath(pattern)
+            .split('/')
+            .map((segment) =>
+                segment === '*'
+                    ? '.*'
+                    : segment.startsWith(':')
+                    ? '[^/]+'
+                    : segment.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')
+            )
+            .join('/')
+            .replace(/\/\.\*$/, '(/.*)?')
+        return new RegExp(`^${source}$`).test(path)
+    }
+
+    private resolveStrings(node: Node): string[] {
+        const value = AstUtils.resolveLiteralValue(node)
+        if (typeof value === 'string') return [value]
+        return Array.isArray(value)
+            ? value.filter((item): item is string => typeof item === 'string')
+            : []
+    }
+
+    private getHandlerName(node: Node): string {
+        const expression = AstUtils.unwrapExpression(node)
+        if (
+            Node.isIdentifier(expression) ||
+            Node.isPropertyAccessExpression(expression)
+        ) {
+            return expression.getText()
+        }
+        if (Node.isFunctionExpression(expression)) {
+            return expression.getName() || 'anonymous'
+        }
+        return 'anonymous'
+    }
+
+    // logger(), zValidator('json', CreateUser), auth
+    private getMiddlewareName(node: Node): string {
+        const expression = AstUtils.unwrapExpression(node)
+        if (Node.isCallExpression(expression)) {
+            return expression.getText().replace(/\s+/g, ' ')
+        }
+        return this.getHandlerName(expression)
+    }
+}
@@ -13,7 +13,9 @@ export class AIService {
     }
 
     async analyzeProject(analysisData: any): Promise<string> {
-        const prompt = this.buildPrompt(analysisData)
+        // Package summaries only repeat counts of the combined lists
+        const { packages, ...promptData } = analysisData
+        const prompt = this.buildPrompt(promptData)
         return this.generateDocumentation(prompt)
     }
 
@@ -1,53 +1,253 @@
 // Universal types that work across all frameworks
 
+// Frameworks extracted out of the box
+export type BuiltInFramework =
+    | 'express'
+    | 'nestjs'
+    | 'fastify'
+    | 'koa'
+    | 'nextjs'
+    | 'trpc'
+
+// Plugins add their own names; `string & {}` keeps the built-in names
+// suggested in editors
+export type RouteFramework = BuiltInFramework | (string & {})
+
+// Where an entity is declared. Lines and columns are 1-based; url links
+// to the lines in the repository when its address is known
+export interface SourceLocation {
+    filePath: string
+    line: number
+    column: number
+    endLine: number
+    endColumn: number
+    url?: string | undefined
+}
+
 export interface UniversalRoute {
+    // Stable across runs: derived from the framework, file, symbol and
+    // method and path, never from line numbers. Set once analysis completes;
+    // missing in analyses saved before entities had ids
+    id?: string | undefined
     path: string
     method: string
     handler: string
     middleware: string[]
     parameters: Parameter[]
-    framework: 'express' | 'nestjs' | 'fastify' | 'koa'
+    responses?: RouteResponse[] | undefined
+    framework: RouteFramework
+    // Source file registering the route
+    filePath?: string | undefined
+    // The registering call or decorated method
+    location?: SourceLocation | undefined
+    // Monorepo package declaring it, as keyed in packages; missing
+    // outside workspaces
+    package?: string | undefined
+    // Host pattern the route is restricted to (NestJS @Controller({ host }))
+    host?: string | undefined
+    // Written by hand in the source (@ApiOperation, @ApiTags)
+    summary?: string | undefined
+    description?: string | undefined
+    tags?: string[] | undefined
+    deprecated?: boolean | undefined
+    docs?: DocComment | undefined
+}
+
+// JSDoc / TSDoc written above a declaration
+export interface DocComment {
+    summary?: string | undefined
+    // @param name -> description
+    params?: Record<string, string> | undefined
+    returns?: string | undefined
+    throws?: string[] | undefined
+    // Set by @deprecated, to the reason when one is given ('' otherwise)
+    deprecated?: string | undefined
+    examples?: string[] | undefined
+}
+
+export interface RouteResponse {
+    // As used in OpenAPI: '200', '4xx', 'default'
+    statusCode: string
+    type: string
+    description?: string | undefined
+    // Declared alongside the route (fastify schema.response) or resolved
+    // from the sent value's type
+    schema?: JsonSchema | undefined
+    example?: unknown
 }
 
+export type ParameterLocation = 'path' | 'query' | 'body' | 'header'
+
 export interface Parameter {
     name: string
     type: string
     optional: boolean
     decorator?: string | undefined
+    location?: ParameterLocation | undefined
+    schema?: JsonSchema | undefined
+    description?: string | undefined
+    example?: unknown
+}
+
+// A GraphQL entry point: a root Query/Mutation/Subscription field or a
+// field resolved on an object type (@ResolveField / @FieldResolver)
+export interface UniversalOperation {
+    id?: string | undefined
+    kind: 'query' | 'mutation' | 'subscription' | 'field'
+    // Field name in the schema
+    name: string
+    // Query, Mutation, Subscription or the object type a field resolves on
+    parentType: string
+    handler: string
+    resolver: string
+    // @Args() / @Arg()
+    arguments: Parameter[]
+    returnType: string
+    schema?: JsonSchema | undefined
+    nullable: boolean
+    description?: string | undefined
+    deprecated?: boolean | undefined
+    framework: 'nestjs' | 'type-graphql'
+    filePath: string
+    location?: SourceLocation | undefined
+    package?: string | undefined
+    docs?: DocComment | undefined
+}
+
+// A realtime message handled or sent over a WebSocket connection
+// (@SubscribeMessage gateways, socket.io handlers and emits)
+export interface UniversalEvent {
+    id?: string | undefined
+    name: string
+    // receive: clients send it to the server; send: the server emits it
+    direction: 'receive' | 'send'
+    // socket.io namespace, '/' when none is set
+    namespace: string
+    handler: string
+    // Gateway class, or the file the socket.io handlers live in
+    gateway: string
+    payloadType: string
+    payload?: JsonSchema | undefined
+    // Acknowledgement sent back to the client that emitted the event
+    ack?: JsonSchema | undefined
+    framework: 'nestjs' | 'socket.io'
+    filePath: string
+    // The handler, or the emit call sending the event
+    location?: SourceLocation | undefined
+    package?: string | undefined
+    docs?: DocComment | undefined
+}
+
+// An asynchronous contract between services: a microservice message or
+// event handler, a queue job processor, or the call producing one
+export interface UniversalMessage {
+    id?: string | undefined
+    // Message pattern, event name or job name ('*' for every job in a queue)
+    pattern: string
+    // message: request/response (send); event: fire-and-forget (emit);
+    // job: queued work (Bull/BullMQ)
+    kind: 'message' | 'event' | 'job'
+    role: 'consumer' | 'producer'
+    transport: 'microservice' | 'bull' | 'bullmq'
+    // Bull/BullMQ queue name
+    queue?: string | undefined
+    handler: string
+    // Class (or file) declaring the handler or producing the message
+    owner: string
+    payloadType: string
+    payload?: JsonSchema | undefined
+    // What a consumer replies with, or a job's result
+    responseType?: string | undefined
+    response?: JsonSchema | undefined
+    filePath: string
+    // The handler, or the call producing the message
+    location?: SourceLocation | undefined
+    package?: string | undefined
+    docs?: DocComment | undefined
 }
 
 export interface UniversalController {
+    id?: string | undefined
     name: string
     routes: UniversalRoute[]
     framework: string
     filePath: string
+    location?: SourceLocation | undefined
+    package?: string | undefined
+    docs?: DocComment | undefined
 }
 
 export interface UniversalService {
+    id?: string | undefined
     name: string
     methods: Method[]
     filePath: string
+    location?: SourceLocation | undefined
+    package?: string | undefined
     framework: string
+    docs?: DocComment | undefined
 }
 
 export interface Method {
+    id?: string | undefined
     name: string
     parameters: Parameter[]
     returnType: string
     isPublic: boolean
+    location?: SourceLocation | undefined
+    docs?: DocComment | undefined
 }
 
 export interface UniversalType {
+    id?: string | undefined
     name: string
     type: 'interface' | 'class' | 'enum' | 'type'
     filePath: string
+    location?: SourceLocation | undefined
+    package?: string | undefined
     properties: Property[]
+    schema?: JsonSchema | undefined
+    docs?: DocComment | undefined
 }
 
 export interface Property {
+    id?: string | undefined
     name: string
     type: string
     optional: boolean
+    // Validation rules as JSON Schema keywords (class-validator, @ApiProperty)
+    constraints?: JsonSchema | undefined
+    location?: SourceLocation | undefined
+    docs?: DocComment | undefined
+}
+
+// JSON Schema (2020-12, the dialect OpenAPI 3.1 uses). Named types are
+// referenced as { $ref: '#/components/schemas/Name' }
+export interface JsonSchema {
+    type?: string | string[]
+    format?: string
+    description?: string
+    properties?: Record<string, JsonSchema>
+    required?: string[]
+    items?: JsonSchema
+    prefixItems?: JsonSchema[]
+    additionalProperties?: JsonSchema | boolean
+    enum?: (string | number | boolean | null)[]
+    minLength?: number
+    maxLength?: number
+    pattern?: string
+    minimum?: number
+    maximum?: number
+    exclusiveMinimum?: number
+    exclusiveMaximum?: number
+    multipleOf?: number
+    minItems?: number
+    maxItems?: number
+    uniqueItems?: boolean
+    anyOf?: JsonSchema[]
+    allOf?: JsonSchema[]
+    $ref?: string
+    [keyword: string]: unknown
 }
 
 export interface AnalysisResult {
@@ -56,10 +256,73 @@ export interface AnalysisResult {
     controllers: UniversalController[]
     services: UniversalService[]
     types: UniversalType[]
+    // GraphQL resolvers; missing in analyses saved before they were extracted
+    operations?: UniversalOperation[] | undefined
+    // WebSocket events; missing in analyses saved before they were extracted
+    events?: UniversalEvent[] | undefined
+    // Message and queue handlers and producers; missing in analyses saved
+    // before they were extracted
+    messages?: UniversalMessage[] | undefined
+    // Definitions behind every $ref used in the schemas above
+    schemas?: Record<string, JsonSchema> | undefined
+    // Summaries of monorepo packages by name, each analysed with its own
+    // tsconfig; the lists above combine them all
+    packages?: Record<string, PackageAnalysis> | undefined
+    // Endpoints found more than once; missing when there are none
+    routeConflicts?: RouteConflict[] | undefined
     metadata: {
         totalRoutes: number
         totalControllers: number
         totalServices: number
+        totalOperations?: number | undefined
+        totalEvents?: number | undefined
+        totalMessages?: number | undefined
+        totalPackages?: number | undefined
+        // Missing when the cache is disabled
+        cache?: CacheStats | undefined
         analysisTime: number
     }
 }
+
+// Files whose extraction was reused from the analysis cache (hits) or
+// redone because they or a file they import changed (misses)
+export interface CacheStats {
+    hits: number
+    misses: number
+}
+
+// One endpoint found several times. 'merged': the same registration was
+// found by several strategies that disagree, and the richest record was
+// kept; 'duplicate': different files register it, and each is kept
+export interface RouteConflict {
+    kind: 'merged' | 'duplicate'
+    method: string
+    // As the first record found has it
+    path: string
+    routes: {
+        framework: RouteFramework
+        handler: string
+        filePath?: string | undefined
+    }[]
+    // Route fields the merged records disagreed on
+    fields?: string[] | undefined
+}
+
+// What one monorepo package contributed; its entities are in the
+// combined lists
+export interface PackageAnalysis {
+    // From the workspace root
+    path: string
+    framework: string
+    confidence: number
+    totalRoutes: number
+    totalControllers: number
+    totalServices: number
+    totalTypes: number
+    totalOperations: number
+    totalEvents: number
+    totalMessages: number
+    // Its schemas' names in the combined schemas, where those another
+    // package also uses are renamed
+    schemas: string[]
+}
@@ -0,0 +1,395 @@
+import {
+    ArrowFunction,
+    FunctionDeclaration,
+    FunctionExpression,
+    Identifier,
+    MethodDeclaration,
+    Node,
+    SyntaxKind,
+    Type,
+    TypeFormatFlags,
+} from 'ts-morph'
+import { SourceLocation } from '../types/universal-types'
+
+// Anything that can serve as a route handler body
+export type FunctionNode =
+    | ArrowFunction
+    | FunctionExpression
+    | FunctionDeclaration
+    | MethodDeclaration
+
+// Guards against runaway recursion through circular constant references
+const MAX_RESOLVE_DEPTH = 10
+
+export class AstUtils {
+    // Strip parentheses and type/non-null assertions around an expression
+    static unwrapExpression(node: Node): Node {
+        let current = node
+        while (
+            Node.isParenthesizedExpression(current) ||
+            Node.isAsExpression(current) ||
+            Node.isTypeAssertion(current) ||
+            Node.isNonNullExpression(current) ||
+            Node.isSatisfiesExpression(current)
+        ) {
+            current = current.getExpression()
+        }
+        return current
+    }
+
+    // Statically evaluate literals, concatenations and constant references
+    static resolveStringValue(node: Node, depth = 0): string | null {
+        if (depth > MAX_RESOLVE_DEPTH) return null
+
+        const expression = AstUtils.unwrapExpression(node)
+
+        if (
+            Node.isStringLiteral(expression) ||
+            Node.isNoSubstitutionTemplateLiteral(expression)
+        ) {
+            return expression.getLiteralValue()
+        }
+
+        if (Node.isTemplateExpression(expression)) {
+            let value = expression.getHead().getLiteralText()
+            for (const span of expression.getTemplateSpans()) {
+                const resolved = AstUtils.resolveStringValue(
+                    span.getExpression(),
+                    depth + 1
+                )
+                value += resolved ?? `\${${span.getExpression().getText()}}`
+                value += span.getLiteral().getLiteralText()
+            }
+            return value
+        }
+
+        if (
+            Node.isBinaryExpression(expression) &&
+            expression.getOperatorToken().getText() === '+'
+        ) {
+            const left = AstUtils.resolveStringValue(
+                expression.getLeft(),
+                depth + 1
+            )
+            const right = AstUtils.resolveStringValue(
+                expression.getRight(),
+                depth + 1
+            )
+            return left !== null && right !== null ? left + right : null
+        }
+
+        if (
+            Node.isIdentifier(expression) ||
+            Node.isPropertyAccessExpression(expression)
+        ) {
+            for (const declaration of AstUtils.getDeclarations(expression)) {
+                const initializer =
+                    Node.isVariableDeclaration(declaration) ||
+                    Node.isPropertyAssignment(declaration) ||
+                    Node.isEnumMember(declaration) ||
+                    Node.isPropertyDeclaration(declaration)
+                        ? declaration.getInitializer()
+                        : undefined
+                if (!initializer) continue
+
+                const resolved = AstUtils.resolveStringValue(
+                    initializer,
+                    depth + 1
+                )
+                if (resolved !== null) return resolved
+            }
+        }
+
+        return null
+    }
+
+    // Statically evaluate JSON-like literals (e.g. fastify schemas); parts
+    // that cannot be evaluated are left out, undefined means nothing resolved
+    static resolveLiteralValue(node: Node, depth = 0): unknown {
+        if (depth > MAX_RESOLVE_DEPTH) return undefined
+
+        const expression = AstUtils.unwrapExpression(node)
+
+        if (Node.isNumericLiteral(expression)) {
+            return expression.getLiteralValue()
+        }
+        if (Node.isTrueLiteral(expression)) return true
+        if (Node.isFalseLiteral(expression)) return false
+        if (Node.isNullLiteral(expression)) return null
+
+        if (
+            Node.isPrefixUnaryExpression(expression) &&
+            expression.getOperatorToken() === SyntaxKind.MinusToken
+        ) {
+            const operand = AstUtils.resolveLiteralValue(
+                expression.getOperand(),
+                depth + 1
+            )
+            return typeof operand === 'number' ? -operand : undefined
+        }
+
+        if (Node.isArrayLiteralExpression(expression)) {
+            return expression.getElements().flatMap((element) => {
+                const value = AstUtils.resolveLiteralValue(element, depth + 1)
+                return value === undefined ? [] : [value]
+            })
+        }
+
+        if (Node.isObjectLiteralExpression(expression)) {
+            const value: Record<string, unknown> = {}
+            for (const property of expression.getProperties()) {
+                if (Node.isSpreadAssignment(property)) {
+                    const spread = AstUtils.resolveLiteralValue(
+                        property.getExpression(),
+                        depth + 1
+                    )
+                    if (spread && typeof spread === 'object') {
+                        Object.assign(value, spread)
+                    }
+                    continue
+                }
+
+                const initializer = Node.isPropertyAssignment(property)
+                    ? property.getInitializer()
+                    : Node.isShorthandPropertyAssignment(property)
+                    ? property.getNameNode()
+                    : undefined
+                if (!initializer) continue
+
+                const nameNode = property.getNameNode()
+                const key =
+                    Node.isStringLiteral(nameNode) ||
+                    Node.isNumericLiteral(nameNode)
+                        ? String(nameNode.getLiteralValue())
+                        : Node.isComputedPropertyName(nameNode)
+                        ? AstUtils.resolveStringValue(
+                              nameNode.getExpression(),
+                              depth + 1
+                          )
+                        : nameNode.getText()
+                const resolved = AstUtils.resolveLiteralValue(
+                    initializer,
+                    depth + 1
+                )
+                if (key !== null && resolved !== undefined) {
+                    value[key] = resolved
+                }
+            }
+            return value
+        }
+
+        const text = AstUtils.resolveStringValue(expression, depth + 1)
+        if (text !== null) return text
+
+        // const userSchema = { ... } referenced by name
+        if (
+            Node.isIdentifier(expression) ||
+            Node.isPropertyAccessExpression(expression)
+        ) {
+            for (const declaration of AstUtils.getDeclarations(expression)) {
+                const initializer =
+                    Node.isVariableDeclaration(declaration) ||
+                    Node.isPropertyAssignment(declaration)
+                        ? declaration.getInitializer()
+                        : undefined
+                const resolved = initializer
+                    ? AstUtils.resolveLiteralValue(initializer, depth + 1)
+                    : undefined
+                if (resolved !== undefined) return resolved
+            }
+        }
+
+        return undefined
+    }
+
+    // Type as written in the source, without import("...") qualifiers
+    static getTypeText(type: Type, enclosingNode: Node): string {
+        return type.getText(
+            enclosingNode,
+            TypeFormatFlags.NoTruncation |
+                TypeFormatFlags.UseAliasDefinedOutsideCurrentScope
+        )
+    }
+
+    // The node's span, decorators included and leading comments left out
+    static getSourceLocation(node: Node): SourceLocation {
+        const sourceFile = node.getSourceFile()
+        const start = sourceFile.getLineAndColumnAtPos(node.getStart())
+        const end = sourceFile.getLineAndColumnAtPos(node.getEnd())
+        return {
+            filePath: sourceFile.getFilePath(),
+            line: start.line,
+            column: start.column,
+            endLine: end.line,
+            endColumn: end.column,
+        }
+    }
+
+    // Declarations behind a reference, following import aliases
+    static getDeclarations(node: Node): Node[] {
+        let symbol = node.getSymbol()
+        if (!symbol) return []
+
+        const aliased = symbol.getAliasedSymbol()
+        if (aliased) symbol = aliased
+
+        return symbol.getDeclarations()
+    }
+
+    // Export name an identifier was imported as: 'default', '*' or the named export
+    static getImportedName(identifier: Identifier): string | null {
+        const symbol = identifier.getSymbol()
+        if (!symbol) return null
+
+        for (const declaration of symbol.getDeclarations()) {
+            if (Node.isImportSpecifier(declaration)) {
+                return declaration.getName()
+            }
+            if (Node.isImportClause(declaration)) return 'default'
+            if (
+                Node.isNamespaceImport(declaration) ||
+                Node.isImportEqualsDeclaration(declaration) ||
+                Node.isVariableDeclaration(declaration)
+            ) {
+                return '*'
+            }
+        }
+
+        return null
+    }
+
+    // Function behind a handler reference: inline functions, named functions,
+    // class methods, wrappers like asyncHandler(fn) and fn.bind(this)
+    static resolveFunction(node: Node, depth = 0): FunctionNode | null {
+        if (depth > MAX_RESOLVE_DEPTH) return null
+
+        const expression = AstUtils.unwrapExpression(node)
+
+        if (
+            Node.isArrowFunction(expression) ||
+            Node.isFunctionExpression(expression) ||
+            Node.isFunctionDeclaration(expression) ||
+            Node.isMethodDeclaration(expression)
+        ) {
+            return expression
+        }
+
+        if (Node.isCallExpression(expression)) {
+            const callee = expression.getExpression()
+            if (
+                Node.isPropertyAccessExpression(callee) &&
+                callee.getName() === 'bind'
+            ) {
+                return AstUtils.resolveFunction(
+                    callee.getExpression(),
+                    depth + 1
+                )
+            }
+
+            const [wrapped] = expression.getArguments()
+            return wrapped ? AstUtils.resolveFunction(wrapped, depth + 1) : null
+        }
+
+        if (
+            Node.isIdentifier(expression) ||
+            Node.isPropertyAccessExpression(expression)
+        ) {
+            for (const declaration of AstUtils.getDeclarations(expression)) {
+                const target =
+                    Node.isVariableDeclaration(declaration) ||
+                    Node.isPropertyDeclaration(declaration) ||
+                    Node.isPropertyAssignment(declaration)
+                        ? declaration.getInitializer()
+                        : declaration
+                const fn = target
+                    ? AstUtils.resolveFunction(target, depth + 1)
+                    : null
+                if (fn) return fn
+            }
+        }
+
+        return null
+    }
+
+    // Expressions a function-like declaration returns
+    static getReturnedExpressions(declaration: Node): Node[] {
+        const fn = Node.isVariableDeclaration(declaration)
+            ? declaration.getInitializer()
+            : declaration
+        if (!fn) return []
+
+        const target = AstUtils.unwrapExpression(fn)
+        if (Node.isArrowFunction(target)) {
+            const body = target.getBody()
+            if (!Node.isBlock(body)) return [body]
+        }
+        if (
+            !Node.isArrowFunction(target) &&
+            !Node.isFunctionDeclaration(target) &&
+            !Node.isFunctionExpression(target) &&
+            !Node.isMethodDeclaration(target)
+        ) {
+            return []
+        }
+
+        return target
+            .getDescendantsOfKind(SyntaxKind.ReturnStatement)
+            .filter(
+                (statement) =>
+                    statement.getFirstAncestor(
+                        (ancestor) =>
+                            Node.isFunctionLikeDeclaration(ancestor) ||
+                            Node.isArrowFunction(ancestor)
+                    ) === target
+            )
+            .flatMap((statement) => {
+                const expression = statement.getExpression()
+                return expression ? [expression] : []
+            })
+    }
+
+    // Module an identifier was imported (or required) from
+    static getImportModuleSpecifier(identifier: Identifier): string | null {
+        const symbol = identifier.getSymbol()
+        if (!symbol) return null
+
+        for (const declaration of symbol.getDeclarations()) {
+            const importDeclaration = declaration.getFirstAncestorByKind(
+                SyntaxKind.ImportDeclaration
+            )
+            if (importDeclaration) {
+                return importDeclaration.getModuleSpecifierValue()
+            }
+
+            if (Node.isImportEqualsDeclaration(declaration)) {
+                const reference = declaration.getModuleReference()
+                if (Node.isExternalModuleReference(reference)) {
+                    const expression = reference.getExpression()
+                    return expression
+                        ? AstUtils.resolveStringValue(expression)
+                        : null
+                }
+            }
+
+            // const express = require('express')
+            if (Node.isVariableDeclaration(declaration)) {
+                const initializer = declaration.getInitializer()
+                const call = initializer
+                    ? AstUtils.unwrapExpression(initializer)
+                    : undefined
+                if (
+                    call &&
+                    Node.isCallExpression(call) &&
+                    call.getExpression().getText() === 'require'
+                ) {
+                    const [specifier] = call.getArguments()
+                    return specifier
+                        ? AstUtils.resolveStringValue(specifier)
+                        : null
+                }
+            }
+        }
+
+        return null
+    }
+}
@@ -0,0 +1,30 @@
+export class PathUtils {
+    // Join route path segments: ('/api/', '/users', ':id') -> '/api/users/:id'
+    static joinRoutePaths(...segments: string[]): string {
+        const joined = segments
+            .filter((segment) => segment !== '')
+            .join('/')
+            .replace(/\/{2,}/g, '/')
+            .replace(/^\/?/, '/')
+
+        return joined.length > 1 ? joined.replace(/\/$/, '') : joined
+    }
+
+    // Comparable form of an express-style path: slashes collapsed and
+    // parameters unnamed, so '/users/:id/' and '/users/:userId' match
+    static normalizeRoutePath(path: string): string {
+        return PathUtils.joinRoutePaths(path).replace(
+            /:[A-Za-z0-9_]+(\?)?/g,
+            ':$1'
+        )
+    }
+
+    // Named segments of an express-style path: '/users/:id/:tab?'
+    static getPathParameters(
+        path: string
+    ): { name: string; optional: boolean }[] {
+        return Array.from(path.matchAll(/:([A-Za-z0-9_]+)(\?)?/g)).map(
+            (match) => ({ name: match[1] || '', optional: !!match[2] })
+        )
+    }
+}
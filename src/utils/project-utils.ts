@@ -0,0 +1,60 @@
+import { existsSync } from 'fs'
+import { join } from 'path'
+import { Project, ScriptTarget } from 'ts-morph'
+
+// Tried in order; Nx projects split app and library configs and may keep
+// a solution-style tsconfig.json that lists no files itself
+const TSCONFIG_FILENAMES = [
+    'tsconfig.json',
+    'tsconfig.app.json',
+    'tsconfig.lib.json',
+    'tsconfig.build.json',
+]
+
+// Output and dependency directories never holding sources worth reading
+export const IGNORED_DIRECTORIES = [
+    'node_modules',
+    'dist',
+    'build',
+    'coverage',
+    '.next',
+    '.turbo',
+    '.git',
+]
+
+export class ProjectUtils {
+    // A ts-morph project over the first tsconfig that includes sources, or
+    // over every TypeScript and JavaScript file when there is none
+    static createProject(
+        projectPath: string,
+        options: { skipFileDependencyResolution?: boolean } = {}
+    ): Project {
+        for (const filename of TSCONFIG_FILENAMES) {
+            const tsConfigFilePath = join(projectPath, filename)
+            if (!existsSync(tsConfigFilePath)) continue
+
+            const project = new Project({ tsConfigFilePath, ...options })
+            const hasSources = project
+                .getSourceFiles()
+                .some((sourceFile) => !sourceFile.isDeclarationFile())
+            if (hasSources) return project
+        }
+
+        const project = new Project({
+            compilerOptions: {
+                allowJs: true,
+                target: ScriptTarget.ES2020,
+                experimentalDecorators: true,
+                esModuleInterop: true,
+            },
+            ...options,
+        })
+        project.addSourceFilesAtPaths([
+            join(projectPath, '**/*.{ts,tsx,mts,cts,js,jsx,mjs,cjs}'),
+            ...IGNORED_DIRECTORIES.map(
+                (directory) => `!${join(projectPath, `**/${directory}/**`)}`
+            ),
+        ])
+        return project
+    }
+}
@@ -7,9 +7,18 @@ export class PromptTemplates {
 
         1. **Title and Overview** - Brief description of the API
         2. **Framework Information** - What framework is used (NestJS, Express, etc.)
-        3. **Endpoints** - List all available routes with HTTP methods
-        4. **Services** - Describe the business logic services
-        5. **Types** - Document the data structures
+        3. **Endpoints** - List all available routes with HTTP methods, parameters and responses (status codes and response types)
+        4. **GraphQL Operations** - Document the queries, mutations, subscriptions and field resolvers listed under "operations", with their arguments and return types
+        5. **Realtime Events** - Document the WebSocket messages listed under "events", with their namespace, direction (received from or sent to clients) and payload
+        6. **Asynchronous Contracts** - Document the message and event patterns (NestJS microservices) and queue jobs (Bull/BullMQ) listed under "messages", with the pattern or job name, queue and payload, showing which service produces and which consumes each one
+        7. **Services** - Describe the business logic services
+        8. **Types** - Document the data structures
+
+        Leave out the sections for which the data lists nothing.
+
+        Some routes, parameters, responses and types carry a summary, description, tags or examples written by the developers (for example through @nestjs/swagger decorators), and many carry their JSDoc comments under "docs". Use those as written and only write your own descriptions where they are missing.
+
+        Routes, operations, events, messages, services and types carry a "location" with the file and lines declaring them. Where the location has a "url", link the entity's heading to it (for example "### [GET /users/:id](url)") so readers can jump to the code; never invent links for entities without one.
 
         Keep it simple and clear. Use standard Markdown formatting.
 
@@ -25,6 +34,15 @@ export class PromptTemplates {
         ## Endpoints
         List the available routes and their methods.
 
+        ## GraphQL Operations
+        List the queries, mutations and subscriptions with their arguments.
+
+        ## Realtime Events
+        List the events clients send and receive.
+
+        ## Asynchronous Contracts
+        List the messages and jobs with their producers and consumers.
+
         ## Services
         Describe the main services and their functionality.
 